@@ -1,174 +1,601 @@
 
-import React, { useState, useEffect } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
+  Archive,
+  ArrowRight,
+  Command as CommandIcon,
+  FileJson,
+  FileSpreadsheet,
+  FileText,
+  FileUp,
+  FilterX,
+  GripVertical,
+  Keyboard,
+  LayoutGrid,
+  Paintbrush,
+  Pencil,
   Plus,
-  Edit,
+  Redo2,
+  Rows3,
+  Search,
+  SquareKanban,
   Trash2,
-  X,
-  Check,
-  GripVertical,
+  Undo2,
+  UserRound,
 } from "lucide-react";
 import {
   DragDropContext,
   Droppable,
-  Draggable,
-  DropResult,
+  type DroppableProvided,
+  type DropResult,
 } from "react-beautiful-dnd";
+import { useTheme } from "next-themes";
+import toast from "react-hot-toast";
+import { AddColumn } from "@/components/board/add-column";
+import { AnalyticsView } from "@/components/board/analytics-view";
+import { AppearanceSheet } from "@/components/board/appearance-sheet";
+import { ArchiveSheet } from "@/components/board/archive-sheet";
+import { CalendarView } from "@/components/board/calendar-view";
+import { BoardColumn } from "@/components/board/board-column";
+import { BoardSidebar } from "@/components/board/board-sidebar";
+import type { ColumnActions } from "@/components/board/column-header";
+import { CommandPalette } from "@/components/command-palette";
+import { KeyboardShortcutsDialog } from "@/components/keyboard-shortcuts-dialog";
+import { MobileBoard } from "@/components/board/mobile-board";
+import { ThemeIcon, ThemeMenu } from "@/components/theme-menu";
+import { WipLimitDialog } from "@/components/board/wip-limit-dialog";
+import { DeleteColumnDialog } from "@/components/board/delete-column-dialog";
+import { DeleteTaskDialog } from "@/components/board/delete-task-dialog";
+import { ImportBoardDialog } from "@/components/board/import-board-dialog";
+import { SearchBar } from "@/components/board/search-bar";
+import { SwimlaneBoard } from "@/components/board/swimlane-board";
+import { SwimlaneMenu } from "@/components/board/swimlane-menu";
+import { TaskTable } from "@/components/board/task-table";
+import { TimelineView } from "@/components/board/timeline-view";
+import { ViewIcon, ViewSwitcher } from "@/components/board/view-switcher";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { useRegisterCommands } from "@/hooks/use-commands";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useSearchParam } from "@/hooks/use-search-param";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { TaskDetailDialog, type TaskDraft } from "@/components/board/task-detail-dialog";
+import { TransferMenu } from "@/components/board/transfer-menu";
+import { UndoToast } from "@/components/board/undo-toast";
+import {
+  addColumn,
+  addLabel,
+  addTask,
+  createId,
+  createTask,
+  deleteColumn,
+  deleteLabel,
+  deleteTask,
+  enterColumn,
+  findColumnOfTask,
+  moveColumn,
+  moveTask,
+  updateColumn,
+  updateTask,
+} from "@/lib/board/operations";
+import {
+  archiveColumn,
+  archiveTask,
+  archiveTasks,
+  getAutoArchivableTaskIds,
+  getRestoreColumn,
+  restoreColumn,
+  restoreTask,
+  setAutoArchiveDays,
+} from "@/lib/board/archive";
+import { getBackgroundStyle, setAppearance } from "@/lib/board/appearance";
+import { convertChecklistItems } from "@/lib/board/checklists";
+import { addComment, deleteComment, updateComment } from "@/lib/board/comments";
+import type { ColumnTheme } from "@/lib/board/palette";
+import type { Command } from "@/lib/commands";
+import {
+  getKeyboardMove,
+  getNextFocus,
+  type BoardFocus,
+  type Direction,
+} from "@/lib/board/navigation";
+import {
+  getHighlightTerms,
+  isEmptyQuery,
+  matchesQuery,
+  parseQuery,
+  resolveDropIndex,
+  usesMe,
+} from "@/lib/board/query";
+import {
+  exportCsv,
+  exportJson,
+  exportMarkdown,
+  getExportFileName,
+  type ExportFormat,
+  type ImportMode,
+} from "@/lib/board/transfer";
+import {
+  addLane,
+  deleteLane,
+  getAssignees,
+  getCellId,
+  getEpics,
+  getLabelsRemovedByLane,
+  getSwimlaneCells,
+  getSwimlanes,
+  moveLane,
+  NO_LANE,
+  parseCellId,
+  parseSwimlaneField,
+  renameLane,
+  setLane,
+  SWIMLANE_FIELDS,
+  type SwimlaneField,
+} from "@/lib/board/swimlanes";
+import { getTableRows, moveTasksToColumn, updateTasks } from "@/lib/board/table";
+import { getDependencyOptions } from "@/lib/board/timeline";
+import type { BoardData, ChecklistItem, Task } from "@/lib/board/types";
+import { BOARD_VIEWS, parseBoardView, type BoardView } from "@/lib/board/views";
+import { getWipBlock } from "@/lib/board/wip";
+import { downloadFile } from "@/lib/download";
+import { readUserName, writeUserName } from "@/lib/user";
+import { focusBoardItem, getBoardFocus, isEditableTarget, isInDialog } from "@/lib/keyboard";
+import { parseTheme, THEMES } from "@/lib/theme";
+import {
+  addBoard,
+  createBoard,
+  deleteBoard,
+  duplicateBoard,
+  setActiveBoard,
+  updateBoard,
+} from "@/lib/board/workspace";
 
-const DEFAULT_COLUMNS = [
-  {
-    id: "todo",
-    title: "To Do",
-    color: "from-blue-100 to-blue-200",
-    accent: "bg-blue-500",
-    border: "border-blue-300",
-    shadow: "shadow-blue-200",
-    gradient: "bg-gradient-to-br from-blue-100 to-blue-200",
-  },
-  {
-    id: "inprogress",
-    title: "In Progress",
-    color: "from-violet-100 to-violet-200",
-    accent: "bg-violet-500",
-    border: "border-violet-300",
-    shadow: "shadow-violet-200",
-    gradient: "bg-gradient-to-br from-violet-100 to-violet-200",
-  },
-  {
-    id: "done",
-    title: "Done",
-    color: "from-emerald-100 to-emerald-200",
-    accent: "bg-emerald-500",
-    border: "border-emerald-300",
-    shadow: "shadow-emerald-200",
-    gradient: "bg-gradient-to-br from-emerald-100 to-emerald-200",
-  },
-];
-
-type Task = {
-  id: string;
-  content: string;
+const ARROW_DIRECTIONS: Record<string, Direction> = {
+  ArrowUp: "up",
+  ArrowDown: "down",
+  ArrowLeft: "left",
+  ArrowRight: "right",
 };
 
-type Column = {
-  id: string;
-  title: string;
-  color: string;
-  accent: string;
-  border: string;
-  shadow: string;
-  gradient: string;
-  taskIds: string[];
-};
+const AUTO_ARCHIVE_INTERVAL_MS = 60 * 60 * 1000;
 
-type BoardData = {
-  tasks: Record<string, Task>;
-  columns: Record<string, Column>;
-  columnOrder: string[];
-};
+function App() {
+  const { workspace, setWorkspace, activeBoard, board, setBoard, history, undo, redo } =
+    useWorkspace();
+  const [modalTask, setModalTask] = useState<{ id?: string; columnId: string } | null>(null);
+  const [deletingTaskId, setDeletingTaskId] = useState<string | null>(null);
+  const [deletingColumnId, setDeletingColumnId] = useState<string | null>(null);
+  const [wipColumnId, setWipColumnId] = useState<string | null>(null);
+  const [search, setSearch] = useSearchParam("q");
+  const [viewParam, setViewParam] = useSearchParam("view");
+  const view = parseBoardView(viewParam);
+  const [lanesParam, setLanesParam] = useSearchParam("lanes");
+  const swimlaneField = parseSwimlaneField(lanesParam);
+  const [collapsedLaneIds, setCollapsedLaneIds] = useState<string[]>([]);
+  const { theme, setTheme } = useTheme();
+  // Phones get one list at a time and the task editor as a drawer.
+  const isMobile = useIsMobile();
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  // The card last focused with the keyboard or mouse, which "Focused card"
+  // commands act on.
+  const [focusedTaskId, setFocusedTaskId] = useState<string | null>(null);
+  const [shortcutsOpen, setShortcutsOpen] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [archiveOpen, setArchiveOpen] = useState(false);
+  const [appearanceOpen, setAppearanceOpen] = useState(false);
+  // Who `assignee:@me` means, set from the command palette.
+  const [userName, setUserName] = useState(readUserName);
+  const searchRef = useRef<HTMLInputElement>(null);
+  // A card moved with the keyboard re-renders in its new place; focus it
+  // again once the board has updated.
+  const pendingFocus = useRef<BoardFocus | null>(null);
 
-const getInitialData = (): BoardData => {
-  const saved = localStorage.getItem("trello-board");
-  if (saved) return JSON.parse(saved);
-  // Default empty board
-  const columns: Record<string, Column> = {};
-  DEFAULT_COLUMNS.forEach((col) => {
-    columns[col.id] = {
-      id: col.id,
-      title: col.title,
-      color: col.color,
-      accent: col.accent,
-      border: col.border,
-      shadow: col.shadow,
-      gradient: col.gradient,
-      taskIds: [],
-    };
-  });
-  return {
-    tasks: {},
-    columns,
-    columnOrder: DEFAULT_COLUMNS.map((c) => c.id),
-  };
-};
+  const query = useMemo(() => parseQuery(search), [search]);
+  const isFiltering = !isEmptyQuery(query);
+  const highlightTerms = useMemo(() => getHighlightTerms(query), [query]);
+  const visibleTaskIds = useMemo(() => {
+    const context = { labels: board.labels, now: new Date(), me: userName };
+    const visible: Record<string, string[]> = {};
+    board.columnOrder.forEach((columnId) => {
+      const column = board.columns[columnId];
+      visible[column.id] = isFiltering
+        ? column.taskIds.filter((id) => matchesQuery(board.tasks[id], query, context))
+        : column.taskIds;
+    });
+    return visible;
+  }, [board, query, isFiltering, userName]);
+  const searchErrors =
+    usesMe(query) && !userName
+      ? [...query.errors, "Set your name in the command palette (Ctrl+K) to use @me"]
+      : query.errors;
+  const hiddenCount = board.columnOrder.reduce(
+    (sum, columnId) =>
+      sum + board.columns[columnId].taskIds.length - visibleTaskIds[columnId].length,
+    0
+  );
 
-function App() {
-  const [board, setBoard] = useState<BoardData>(getInitialData);
-  const [showModal, setShowModal] = useState(false);
-  const [modalTask, setModalTask] = useState<{ id?: string; content: string; columnId: string } | null>(null);
-  const [deleting, setDeleting] = useState<{ taskId: string; columnId: string } | null>(null);
+  const lanes = useMemo(
+    () => (swimlaneField ? getSwimlanes(board, swimlaneField) : []),
+    [board, swimlaneField]
+  );
+  const cells = useMemo(
+    () => (swimlaneField ? getSwimlaneCells(board, swimlaneField, lanes, visibleTaskIds) : {}),
+    [board, swimlaneField, lanes, visibleTaskIds]
+  );
+  // Arrow keys follow the cards as shown: in swimlanes, lane by lane down
+  // each column, skipping collapsed lanes.
+  const navigableTaskIds = useMemo(() => {
+    if (!swimlaneField) return visibleTaskIds;
+    const shownLanes = lanes.filter((lane) => !collapsedLaneIds.includes(lane.id));
+    const navigable: Record<string, string[]> = {};
+    board.columnOrder.forEach((columnId) => {
+      navigable[columnId] = shownLanes.flatMap((lane) => cells[getCellId(columnId, lane.id)]);
+    });
+    return navigable;
+  }, [board, swimlaneField, lanes, cells, collapsedLaneIds, visibleTaskIds]);
+
+  const setSwimlaneField = useCallback(
+    (field: SwimlaneField | null) => {
+      setLanesParam(field ?? "");
+      setCollapsedLaneIds([]);
+    },
+    [setLanesParam]
+  );
+
+  const setView = useCallback(
+    (next: BoardView) => setViewParam(next === "board" ? "" : next),
+    [setViewParam]
+  );
+  const tableRows = useMemo(
+    () => (view === "table" ? getTableRows(board, visibleTaskIds) : []),
+    [view, board, visibleTaskIds]
+  );
+
+  const lastChange = history.past[history.past.length - 1];
+  const nextChange = history.future[0];
+
+  const handleUndo = useCallback(() => {
+    if (!lastChange) return;
+    undo();
+    toast(`Undid "${lastChange.label}"`, { id: "history" });
+  }, [lastChange, undo]);
+
+  const handleRedo = useCallback(() => {
+    if (!nextChange) return;
+    redo();
+    toast(`Redid "${nextChange.label}"`, { id: "history" });
+  }, [nextChange, redo]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      // The palette opens from anywhere, including text fields.
+      if (key === "k") {
+        e.preventDefault();
+        setPaletteOpen((open) => !open);
+        return;
+      }
+      // Undo under an open dialog could take away what the dialog is editing.
+      if (isEditableTarget(e.target) || isInDialog(e.target)) return;
+      if (key === "z" && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === "z" && e.shiftKey) || key === "y") {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleUndo, handleRedo]);
 
   useEffect(() => {
-    localStorage.setItem("trello-board", JSON.stringify(board));
+    if (!pendingFocus.current) return;
+    focusBoardItem(pendingFocus.current);
+    pendingFocus.current = null;
   }, [board]);
 
+  /** Offers a one-click undo of the change `changeId` after a destructive action. */
+  const notifyUndoable = useCallback(
+    (message: string, changeId: string) => {
+      toast((t) => <UndoToast toast={t} message={message} onUndo={() => undo(changeId)} />, {
+        duration: 6000,
+      });
+    },
+    [undo]
+  );
+
+  /** False, with a toast saying why, when a blocking WIP limit refuses `adding` cards. */
+  const checkWipLimit = useCallback(
+    (columnId: string, adding = 1) => {
+      const blocked = getWipBlock(board.columns[columnId], adding);
+      if (blocked) toast.error(blocked, { id: "wip-limit" });
+      return !blocked;
+    },
+    [board]
+  );
+
+  const handleArchiveTask = useCallback(
+    (taskId: string) => {
+      const changeId = setBoard((prev) => archiveTask(prev, taskId), "Archive task");
+      notifyUndoable("Card archived", changeId);
+    },
+    [setBoard, notifyUndoable]
+  );
+
+  // Finished cards are archived when a board opens, when auto-archive is
+  // turned on or changed, and hourly after that. Not after every change, so
+  // undoing an auto-archive holds until the next check.
+  const [autoArchiveCheck, setAutoArchiveCheck] = useState(() => Date.now());
+  const lastAutoArchive = useRef<string | null>(null);
+
+  useEffect(() => {
+    const interval = setInterval(() => setAutoArchiveCheck(Date.now()), AUTO_ARCHIVE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    const key = `${activeBoard.id}:${board.autoArchiveDays}:${autoArchiveCheck}`;
+    if (lastAutoArchive.current === key) return;
+    lastAutoArchive.current = key;
+    const taskIds = getAutoArchivableTaskIds(board);
+    if (taskIds.length === 0) return;
+    const changeId = setBoard((prev) => archiveTasks(prev, taskIds), "Auto-archive");
+    notifyUndoable(
+      taskIds.length === 1 ? "Archived 1 finished card" : `Archived ${taskIds.length} finished cards`,
+      changeId
+    );
+  }, [activeBoard.id, board, autoArchiveCheck, setBoard, notifyUndoable]);
+
+  // Another tab, or an undo, can remove what an open dialog is working on.
+  // The dialog then closes instead of saving into something that is gone.
+  const modalGone =
+    modalTask !== null &&
+    (modalTask.id
+      ? !board.tasks[modalTask.id]
+      : !board.columnOrder.includes(modalTask.columnId));
+  const deletingTask = deletingTaskId ? board.tasks[deletingTaskId] : undefined;
+  const wipColumn = wipColumnId ? board.columns[wipColumnId] : undefined;
+  const deletingColumn = deletingColumnId ? board.columns[deletingColumnId] : undefined;
+
+  useEffect(() => {
+    if (!modalGone) return;
+    setModalTask(null);
+    toast.error(modalTask?.id ? "That card was removed" : "That list was removed", {
+      id: "dialog-gone",
+    });
+  }, [modalGone, modalTask?.id]);
+
+  useEffect(() => {
+    if (!deletingTaskId || deletingTask) return;
+    setDeletingTaskId(null);
+    toast.error("That card was removed", { id: "dialog-gone" });
+  }, [deletingTaskId, deletingTask]);
+
+  const columnGone =
+    (wipColumnId !== null && !wipColumn) || (deletingColumnId !== null && !deletingColumn);
+
+  useEffect(() => {
+    if (!columnGone) return;
+    setWipColumnId(null);
+    setDeletingColumnId(null);
+    toast.error("That list was removed", { id: "dialog-gone" });
+  }, [columnGone]);
+
+  const dialogOpen = Boolean(
+    modalTask ||
+      deletingTaskId ||
+      deletingColumnId ||
+      wipColumnId ||
+      paletteOpen ||
+      shortcutsOpen ||
+      importing ||
+      archiveOpen
+  );
+
+  useEffect(() => {
+    const moveCard = (taskId: string, direction: Direction) => {
+      const move = getKeyboardMove(board, taskId, direction);
+      if (!move) return;
+      const { source, destination } = move;
+      if (source.columnId !== destination.columnId && !checkWipLimit(destination.columnId)) return;
+      pendingFocus.current = { columnId: destination.columnId, taskId };
+      setBoard((prev) => {
+        const moved = moveTask(prev, taskId, source, destination);
+        return source.columnId === destination.columnId
+          ? moved
+          : enterColumn(moved, [taskId], destination.columnId, Date.now());
+      }, "Move task");
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      // Dragging with the keyboard claims the arrow keys for itself.
+      if (e.defaultPrevented || e.ctrlKey || e.metaKey || e.altKey) return;
+      if (dialogOpen || isEditableTarget(e.target)) return;
+      if (e.key === "?") {
+        e.preventDefault();
+        setShortcutsOpen(true);
+        return;
+      }
+      if (e.key === "/") {
+        e.preventDefault();
+        searchRef.current?.focus();
+        return;
+      }
+
+      const focus = getBoardFocus(e.target);
+      const direction = ARROW_DIRECTIONS[e.key];
+      if (direction && !e.shiftKey) {
+        // With nothing focused, the first arrow press enters the board.
+        if (!focus && e.target !== document.body) return;
+        e.preventDefault();
+        const next = getNextFocus(board.columnOrder, navigableTaskIds, focus, direction);
+        if (next) focusBoardItem(next);
+        return;
+      }
+      if (!focus) return;
+
+      const { columnId, taskId } = focus;
+      if (e.key.toLowerCase() === "n") {
+        e.preventDefault();
+        if (checkWipLimit(columnId)) setModalTask({ columnId });
+      }
+      if (!taskId) return;
+      if (e.key.toLowerCase() === "e" || e.key === "Enter") {
+        e.preventDefault();
+        setModalTask({ id: taskId, columnId });
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        setDeletingTaskId(taskId);
+      } else if (e.key.toLowerCase() === "a") {
+        e.preventDefault();
+        handleArchiveTask(taskId);
+      } else if (e.key === "[" || e.key === "]") {
+        e.preventDefault();
+        moveCard(taskId, e.key === "[" ? "left" : "right");
+      } else if (direction) {
+        e.preventDefault();
+        moveCard(taskId, direction);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [board, navigableTaskIds, dialogOpen, setBoard, checkWipLimit, handleArchiveTask]);
+
   const openNewTaskModal = (columnId: string) => {
-    setModalTask({ content: "", columnId });
-    setShowModal(true);
+    if (checkWipLimit(columnId)) setModalTask({ columnId });
   };
 
   const openEditTaskModal = (taskId: string, columnId: string) => {
-    setModalTask({ id: taskId, content: board.tasks[taskId].content, columnId });
-    setShowModal(true);
+    setModalTask({ id: taskId, columnId });
   };
 
   const closeModal = () => {
-    setShowModal(false);
     setModalTask(null);
   };
 
-  const handleModalSave = () => {
-    if (!modalTask) return;
-    if (modalTask.content.trim() === "") return;
+  const handleModalSave = (draft: TaskDraft, converted: ChecklistItem[]) => {
+    if (!modalTask || modalGone) return;
+    // Converted checklist items land next to the task, so count them too.
+    const column = modalTask.id
+      ? findColumnOfTask(board, modalTask.id)
+      : board.columns[modalTask.columnId];
+    const adding = converted.length + (modalTask.id ? 0 : 1);
+    if (column && adding > 0 && !checkWipLimit(column.id, adding)) return;
     if (modalTask.id) {
       // Edit
-      setBoard((prev) => ({
-        ...prev,
-        tasks: {
-          ...prev.tasks,
-          [modalTask.id!]: { ...prev.tasks[modalTask.id!], content: modalTask.content },
-        },
-      }));
+      const taskId = modalTask.id;
+      setBoard(
+        (prev) => convertChecklistItems(updateTask(prev, taskId, draft), taskId, converted),
+        "Edit task"
+      );
     } else {
       // New
-      const id = "task-" + Date.now();
-      setBoard((prev) => {
-        const newTasks = { ...prev.tasks, [id]: { id, content: modalTask.content } };
-        const newColumns = {
-          ...prev.columns,
-          [modalTask.columnId]: {
-            ...prev.columns[modalTask.columnId],
-            taskIds: [id, ...prev.columns[modalTask.columnId].taskIds],
-          },
-        };
-        return { ...prev, tasks: newTasks, columns: newColumns };
-      });
+      const { content, ...details } = draft;
+      const task = createTask(content, details);
+      const { columnId } = modalTask;
+      setBoard(
+        (prev) =>
+          prev.columns[columnId]
+            ? convertChecklistItems(addTask(prev, columnId, task), task.id, converted)
+            : prev,
+        "Add task"
+      );
     }
     closeModal();
   };
 
-  const handleDeleteTask = (taskId: string, columnId: string) => {
-    setDeleting({ taskId, columnId });
+  // Comments are saved as they are posted, while the dialog is still open.
+  const handleAddComment = (text: string) => {
+    const taskId = modalTask?.id;
+    if (!taskId) return;
+    setBoard((prev) => addComment(prev, taskId, text), "Add comment");
   };
 
-  const confirmDelete = () => {
-    if (!deleting) return;
-    setBoard((prev) => {
-      const newTasks = { ...prev.tasks };
-      delete newTasks[deleting.taskId];
-      const newColumns = {
-        ...prev.columns,
-        [deleting.columnId]: {
-          ...prev.columns[deleting.columnId],
-          taskIds: prev.columns[deleting.columnId].taskIds.filter((id) => id !== deleting.taskId),
-        },
-      };
-      return { ...prev, tasks: newTasks, columns: newColumns };
-    });
-    setDeleting(null);
+  const handleUpdateComment = (commentId: string, text: string) => {
+    const taskId = modalTask?.id;
+    if (!taskId) return;
+    setBoard((prev) => updateComment(prev, taskId, commentId, text), "Edit comment");
+  };
+
+  const handleDeleteComment = (commentId: string) => {
+    const taskId = modalTask?.id;
+    if (!taskId) return;
+    const changeId = setBoard((prev) => deleteComment(prev, taskId, commentId), "Delete comment");
+    notifyUndoable("Comment deleted", changeId);
+  };
+
+  const confirmDeleteTask = () => {
+    if (!deletingTaskId) return;
+    const taskId = deletingTaskId;
+    const changeId = setBoard((prev) => deleteTask(prev, taskId), "Delete task");
+    notifyUndoable("Card deleted", changeId);
+    setDeletingTaskId(null);
+  };
+
+  const handleArchiveColumn = (columnId: string) => {
+    const changeId = setBoard((prev) => archiveColumn(prev, columnId), "Archive list");
+    notifyUndoable("List archived", changeId);
+  };
+
+  // Deleting from the archive is the only way a card or list is removed for good.
+  const handleDeleteArchivedTask = (taskId: string) => {
+    const changeId = setBoard((prev) => deleteTask(prev, taskId), "Delete task");
+    notifyUndoable("Card deleted", changeId);
+  };
+
+  const handleDeleteArchivedColumn = (columnId: string) => {
+    const changeId = setBoard((prev) => deleteColumn(prev, columnId), "Delete list");
+    notifyUndoable("List deleted", changeId);
+  };
+
+  const handleAddColumn = (title: string, theme: ColumnTheme) => {
+    setBoard(
+      (prev) => addColumn(prev, { id: createId("column"), title, ...theme.style }),
+      "Add list"
+    );
+  };
+
+  const confirmDeleteColumn = (moveTasksTo?: string) => {
+    if (!deletingColumnId || !deletingColumn) return;
+    if (moveTasksTo && !board.columns[moveTasksTo]) {
+      toast.error("That list was removed", { id: "dialog-gone" });
+      return;
+    }
+    // The cards moved over count against the other list's limit like any move.
+    const moving = deletingColumn.taskIds.length;
+    if (moveTasksTo && moving > 0 && !checkWipLimit(moveTasksTo, moving)) return;
+    const changeId = setBoard(
+      (prev) => deleteColumn(prev, deletingColumnId, moveTasksTo),
+      "Delete list"
+    );
+    notifyUndoable("List deleted", changeId);
+    setDeletingColumnId(null);
+  };
+
+  const handleExport = useCallback(
+    (exportFormat: ExportFormat) => {
+      const fileName = getExportFileName(activeBoard, exportFormat);
+      if (exportFormat === "json") {
+        downloadFile(fileName, exportJson(activeBoard), "application/json");
+      } else if (exportFormat === "csv") {
+        downloadFile(fileName, exportCsv(activeBoard), "text/csv");
+      } else {
+        downloadFile(fileName, exportMarkdown(activeBoard), "text/markdown");
+      }
+    },
+    [activeBoard]
+  );
+
+  const handleImport = (data: BoardData, mode: ImportMode) => {
+    const changeId = setBoard(() => data, mode === "replace" ? "Replace board" : "Import tasks");
+    notifyUndoable(mode === "replace" ? "Board replaced" : "Board imported", changeId);
+    setImporting(false);
   };
 
   const onDragEnd = (result: DropResult) => {
-    const { destination, source, draggableId } = result;
+    const { destination, source, draggableId, type } = result;
     if (!destination) return;
     if (
       destination.droppableId === source.droppableId &&
@@ -176,260 +603,731 @@ function App() {
     )
       return;
 
-    setBoard((prev) => {
-      const start = prev.columns[source.droppableId];
-      const finish = prev.columns[destination.droppableId];
-
-      // Moving within same column
-      if (start === finish) {
-        const newTaskIds = Array.from(start.taskIds);
-        newTaskIds.splice(source.index, 1);
-        newTaskIds.splice(destination.index, 0, draggableId);
-        const newColumn = { ...start, taskIds: newTaskIds };
-        return {
-          ...prev,
-          columns: { ...prev.columns, [newColumn.id]: newColumn },
-        };
+    if (type === "COLUMN") {
+      setBoard((prev) => moveColumn(prev, source.index, destination.index), "Move list");
+      return;
+    }
+
+    // In swimlanes every cell is a droppable: its column is the card's
+    // status and its lane the grouping field.
+    const from = swimlaneField
+      ? parseCellId(source.droppableId)
+      : { columnId: source.droppableId, laneId: NO_LANE };
+    const to = swimlaneField
+      ? parseCellId(destination.droppableId)
+      : { columnId: destination.droppableId, laneId: NO_LANE };
+    if (from.columnId !== to.columnId && !checkWipLimit(to.columnId)) return;
+
+    // With a filter active, or in a swimlane cell, the drop indexes refer to
+    // the cards shown there only.
+    const toIndex =
+      isFiltering || swimlaneField
+        ? resolveDropIndex(
+            board.columns[to.columnId].taskIds,
+            swimlaneField ? cells[destination.droppableId] : visibleTaskIds[to.columnId],
+            draggableId,
+            destination.index
+          )
+        : destination.index;
+    const fromIndex = board.columns[from.columnId].taskIds.indexOf(draggableId);
+
+    const changeLane = swimlaneField && from.laneId !== to.laneId;
+    // Label lanes rewrite the card's labels, so say which ones it lost.
+    const removedLabels =
+      changeLane && swimlaneField === "label"
+        ? getLabelsRemovedByLane(board, draggableId, to.laneId)
+        : [];
+    const changeId = setBoard((prev) => {
+      let moved = moveTask(
+        prev,
+        draggableId,
+        { columnId: from.columnId, index: fromIndex },
+        { columnId: to.columnId, index: toIndex }
+      );
+      // Stamp when the card came into its new list, for the analytics.
+      if (from.columnId !== to.columnId) {
+        moved = enterColumn(moved, [draggableId], to.columnId, Date.now());
       }
+      return changeLane ? setLane(moved, draggableId, swimlaneField, to.laneId) : moved;
+    }, "Move task");
+    if (removedLabels.length > 0) {
+      const names = removedLabels.map((name) => `"${name}"`).join(", ");
+      notifyUndoable(
+        `Removed ${removedLabels.length === 1 ? "label" : "labels"} ${names} from the card`,
+        changeId
+      );
+    }
+  };
 
-      // Moving to another column
-      const startTaskIds = Array.from(start.taskIds);
-      startTaskIds.splice(source.index, 1);
-      const newStart = { ...start, taskIds: startTaskIds };
-
-      const finishTaskIds = Array.from(finish.taskIds);
-      finishTaskIds.splice(destination.index, 0, draggableId);
-      const newFinish = { ...finish, taskIds: finishTaskIds };
-
-      return {
-        ...prev,
-        columns: {
-          ...prev.columns,
-          [newStart.id]: newStart,
-          [newFinish.id]: newFinish,
-        },
-      };
-    });
+  const getColumnActions = (columnId: string): ColumnActions => ({
+    onAddTask: () => openNewTaskModal(columnId),
+    onRename: (title) => setBoard((prev) => updateColumn(prev, columnId, { title }), "Rename list"),
+    onRecolor: (theme) =>
+      setBoard((prev) => updateColumn(prev, columnId, theme.style), "Recolor list"),
+    onEditWipLimit: () => setWipColumnId(columnId),
+    onArchive: () => handleArchiveColumn(columnId),
+    onDelete: () => setDeletingColumnId(columnId),
+  });
+
+  // Bulk edits from the table view.
+  const handleMoveTasks = (taskIds: string[], columnId: string) => {
+    const moving = taskIds.filter((id) => !board.columns[columnId].taskIds.includes(id));
+    if (moving.length === 0 || !checkWipLimit(columnId, moving.length)) return;
+    setBoard(
+      (prev) =>
+        enterColumn(moveTasksToColumn(prev, moving, columnId), moving, columnId, Date.now()),
+      moving.length === 1 ? "Move task" : "Move tasks"
+    );
   };
 
+  const handleUpdateTasks = (
+    taskIds: string[],
+    update: (task: Task) => Partial<Omit<Task, "id">>
+  ) => {
+    setBoard(
+      (prev) => updateTasks(prev, taskIds, update),
+      taskIds.length === 1 ? "Edit task" : "Edit tasks"
+    );
+  };
+
+  const handleArchiveTasks = (taskIds: string[]) => {
+    const changeId = setBoard((prev) => archiveTasks(prev, taskIds), "Archive tasks");
+    notifyUndoable(
+      taskIds.length === 1 ? "Card archived" : `Archived ${taskIds.length} cards`,
+      changeId
+    );
+  };
+
+  const handleDeleteLane = (laneId: string) => {
+    const changeId = setBoard((prev) => deleteLane(prev, laneId), "Delete lane");
+    notifyUndoable("Lane deleted", changeId);
+  };
+
+  const focusedColumn = focusedTaskId ? findColumnOfTask(board, focusedTaskId)?.id : undefined;
+
+  useRegisterCommands(
+    useMemo(() => {
+      const commands: Command[] = [];
+
+      workspace.boardOrder.forEach((boardId) => {
+        const { name, data } = workspace.boards[boardId];
+        data.columnOrder.forEach((columnId) => {
+          const column = data.columns[columnId];
+          column.taskIds.forEach((taskId) => {
+            const task = data.tasks[taskId];
+            commands.push({
+              id: `card:open:${boardId}:${taskId}`,
+              group: "Cards",
+              title: task.content,
+              icon: <SquareKanban />,
+              keywords: [
+                column.title,
+                name,
+                ...data.labels.filter((l) => task.labelIds.includes(l.id)).map((l) => l.name),
+              ],
+              run: () => {
+                setWorkspace((prev) => setActiveBoard(prev, boardId));
+                setFocusedTaskId(taskId);
+                setModalTask({ id: taskId, columnId });
+              },
+            });
+          });
+        });
+      });
+
+      if (focusedTaskId && focusedColumn) {
+        const title = board.tasks[focusedTaskId].content;
+        commands.push(
+          {
+            id: "focused:edit",
+            group: "Focused card",
+            title: `Edit "${title}"`,
+            icon: <Pencil />,
+            run: () => setModalTask({ id: focusedTaskId, columnId: focusedColumn }),
+          },
+          ...board.columnOrder
+            .filter((id) => id !== focusedColumn)
+            .map(
+              (columnId): Command => ({
+                id: `focused:move:${columnId}`,
+                group: "Focused card",
+                title: `Move "${title}" to ${board.columns[columnId].title}`,
+                icon: <ArrowRight />,
+                run: () => {
+                  if (!checkWipLimit(columnId)) return;
+                  setBoard((prev) => {
+                    const from = findColumnOfTask(prev, focusedTaskId);
+                    if (!from) return prev;
+                    const moved = moveTask(
+                      prev,
+                      focusedTaskId,
+                      { columnId: from.id, index: from.taskIds.indexOf(focusedTaskId) },
+                      { columnId, index: 0 }
+                    );
+                    return enterColumn(moved, [focusedTaskId], columnId, Date.now());
+                  }, "Move task");
+                },
+              })
+            ),
+          {
+            id: "focused:archive",
+            group: "Focused card",
+            title: `Archive "${title}"`,
+            icon: <Archive />,
+            run: () => handleArchiveTask(focusedTaskId),
+          },
+          {
+            id: "focused:delete",
+            group: "Focused card",
+            title: `Delete "${title}"…`,
+            icon: <Trash2 />,
+            run: () => setDeletingTaskId(focusedTaskId),
+          }
+        );
+      }
+
+      board.columnOrder.forEach((columnId) => {
+        const column = board.columns[columnId];
+        commands.push(
+          {
+            id: `create:card:${columnId}`,
+            group: "Create",
+            title: `New card in ${column.title}…`,
+            icon: <Plus />,
+            run: () => checkWipLimit(columnId) && setModalTask({ columnId }),
+          },
+          {
+            id: `create:card-titled:${columnId}`,
+            group: "Create",
+            title: (input) => `Create card "${input}" in ${column.title}`,
+            icon: <Plus />,
+            takesInput: true,
+            run: (input) =>
+              checkWipLimit(columnId) &&
+              setBoard((prev) => addTask(prev, columnId, createTask(input)), "Add task"),
+          }
+        );
+      });
+
+      workspace.boardOrder
+        .filter((id) => id !== workspace.activeBoardId)
+        .forEach((boardId) =>
+          commands.push({
+            id: `board:switch:${boardId}`,
+            group: "Boards",
+            title: `Switch to ${workspace.boards[boardId].name}`,
+            icon: <LayoutGrid />,
+            run: () => setWorkspace((prev) => setActiveBoard(prev, boardId)),
+          })
+        );
+      commands.push({
+        id: "board:create",
+        group: "Boards",
+        title: (input) => `New board "${input}"`,
+        icon: <Plus />,
+        takesInput: true,
+        run: (input) => setWorkspace((prev) => addBoard(prev, createBoard(input))),
+      });
+
+      commands.push(
+        {
+          id: "history:undo",
+          group: "History",
+          title: lastChange ? `Undo "${lastChange.label}"` : "Undo",
+          icon: <Undo2 />,
+          shortcut: "Ctrl+Z",
+          run: handleUndo,
+        },
+        {
+          id: "history:redo",
+          group: "History",
+          title: nextChange ? `Redo "${nextChange.label}"` : "Redo",
+          icon: <Redo2 />,
+          shortcut: "Ctrl+Shift+Z",
+          run: handleRedo,
+        }
+      );
+
+      commands.push(
+        {
+          id: "board:export-json",
+          group: "Boards",
+          title: "Export board as JSON",
+          icon: <FileJson />,
+          run: () => handleExport("json"),
+        },
+        {
+          id: "board:export-csv",
+          group: "Boards",
+          title: "Export board as CSV",
+          icon: <FileSpreadsheet />,
+          run: () => handleExport("csv"),
+        },
+        {
+          id: "board:export-markdown",
+          group: "Boards",
+          title: "Export board as Markdown",
+          icon: <FileText />,
+          run: () => handleExport("markdown"),
+        },
+        {
+          id: "board:import",
+          group: "Boards",
+          title: "Import board from file or Trello…",
+          icon: <FileUp />,
+          run: () => setImporting(true),
+        },
+        {
+          id: "board:archive",
+          group: "Boards",
+          title: "Open archive",
+          icon: <Archive />,
+          run: () => setArchiveOpen(true),
+        },
+        {
+          id: "board:appearance",
+          group: "Boards",
+          title: "Change board appearance…",
+          icon: <Paintbrush />,
+          keywords: ["background", "density", "width", "badges"],
+          run: () => setAppearanceOpen(true),
+        }
+      );
+
+      BOARD_VIEWS.filter((option) => option.id !== view).forEach((option) =>
+        commands.push({
+          id: `view:${option.id}`,
+          group: "View",
+          title: `Switch to ${option.name.toLowerCase()} view`,
+          icon: <ViewIcon view={option.id} />,
+          run: () => setView(option.id),
+        })
+      );
+      SWIMLANE_FIELDS.filter((field) => field.id !== swimlaneField).forEach((field) =>
+        commands.push({
+          id: `view:lanes:${field.id}`,
+          group: "View",
+          title: `Swimlanes: ${field.name}`,
+          icon: <Rows3 />,
+          run: () => {
+            setView("board");
+            setSwimlaneField(field.id);
+          },
+        })
+      );
+      if (swimlaneField) {
+        commands.push({
+          id: "view:lanes:off",
+          group: "View",
+          title: "Hide swimlanes",
+          icon: <Rows3 />,
+          run: () => setSwimlaneField(null),
+        });
+      }
+
+      THEMES.filter((option) => option.id !== parseTheme(theme)).forEach((option) =>
+        commands.push({
+          id: `view:theme:${option.id}`,
+          group: "View",
+          title: option.id === "system" ? "Match the system theme" : `Use the ${option.id} theme`,
+          icon: <ThemeIcon theme={option.id} />,
+          run: () => setTheme(option.id),
+        })
+      );
+
+      commands.push({
+        id: "help:shortcuts",
+        group: "Help",
+        title: "Keyboard shortcuts",
+        icon: <Keyboard />,
+        shortcut: "?",
+        run: () => setShortcutsOpen(true),
+      });
+
+      commands.push({
+        id: "search:filter",
+        group: "Search",
+        title: (input) => `Filter board by "${input}"`,
+        icon: <Search />,
+        takesInput: true,
+        run: setSearch,
+      });
+      commands.push({
+        id: "search:me",
+        group: "Search",
+        title: (input) => `Set your name to "${input}" for assignee:@me`,
+        icon: <UserRound />,
+        keywords: ["me", "user", "assignee"],
+        takesInput: true,
+        run: (input) => {
+          const name = input.trim() || null;
+          writeUserName(name);
+          setUserName(name);
+        },
+      });
+      if (search) {
+        commands.push({
+          id: "search:clear",
+          group: "Search",
+          title: "Clear search",
+          icon: <FilterX />,
+          run: () => setSearch(""),
+        });
+      }
+
+      return commands;
+    }, [
+      workspace,
+      board,
+      focusedTaskId,
+      focusedColumn,
+      lastChange,
+      nextChange,
+      search,
+      view,
+      setView,
+      swimlaneField,
+      setSwimlaneField,
+      theme,
+      setTheme,
+      setWorkspace,
+      setBoard,
+      setSearch,
+      handleUndo,
+      handleRedo,
+      handleExport,
+      checkWipLimit,
+      handleArchiveTask,
+    ])
+  );
+
   return (
-    <div className="min-h-screen bg-gradient-to-br from-slate-100 to-slate-200 flex flex-col relative overflow-x-hidden">
-      {/* Subtle background pattern */}
-      <div
-        aria-hidden
-        className="pointer-events-none fixed inset-0 z-0"
-        style={{
-          background:
-            "radial-gradient(circle at 20% 40%, rgba(99,102,241,0.07) 0, transparent 60%), radial-gradient(circle at 80% 60%, rgba(16,185,129,0.07) 0, transparent 60%)",
-        }}
+    <SidebarProvider>
+      <BoardSidebar
+        workspace={workspace}
+        onSelect={(boardId) => setWorkspace((prev) => setActiveBoard(prev, boardId))}
+        onCreate={(name) => setWorkspace((prev) => addBoard(prev, createBoard(name)))}
+        onRename={(boardId, name) => setWorkspace((prev) => updateBoard(prev, boardId, { name }))}
+        onDuplicate={(boardId) => setWorkspace((prev) => duplicateBoard(prev, boardId))}
+        onToggleStar={(boardId) =>
+          setWorkspace((prev) =>
+            updateBoard(prev, boardId, { starred: !prev.boards[boardId].starred })
+          )
+        }
+        onDelete={(boardId) => setWorkspace((prev) => deleteBoard(prev, boardId))}
       />
-      <header className="py-7 px-8 flex items-center justify-between bg-white/80 shadow-md backdrop-blur z-10 relative">
-        <h1 className="text-4xl font-extrabold tracking-tight text-slate-800 flex items-center gap-3 font-display drop-shadow-sm">
-          <GripVertical className="w-8 h-8 text-blue-500" />
-          Task Board
-        </h1>
-        <span className="text-slate-400 font-medium text-lg">Trello-style Board</span>
-      </header>
-      <main className="flex-1 flex flex-col items-center justify-start py-10 px-2 z-10 relative">
-        <div className="w-full max-w-7xl">
-          <DragDropContext onDragEnd={onDragEnd}>
-            <div className="flex gap-8 overflow-x-auto pb-4">
-              {board.columnOrder.map((colId) => {
-                const column = board.columns[colId];
-                return (
-                  <div
-                    key={column.id}
-                    className={`flex flex-col rounded-3xl border-2 ${column.border} ${column.gradient} ${column.shadow} min-w-[340px] w-96 transition-all duration-300 hover:scale-[1.015] hover:shadow-xl`}
-                  >
-                    <div className="flex items-center justify-between px-7 py-5">
-                      <div className="flex items-center gap-3">
-                        <span className={`w-4 h-4 rounded-full ${column.accent} shadow-md`}></span>
-                        <h2 className="text-2xl font-bold text-slate-700 font-display drop-shadow-sm">{column.title}</h2>
-                      </div>
-                      <button
-                        className="p-2 rounded-full bg-white/70 hover:bg-blue-100 shadow transition"
-                        onClick={() => openNewTaskModal(column.id)}
-                        aria-label="Add Task"
-                      >
-                        <Plus className="w-5 h-5 text-blue-500" />
-                      </button>
-                    </div>
-                    <Droppable droppableId={column.id}>
-                      {(provided, snapshot) => (
-                        <div
-                          ref={provided.innerRef}
-                          {...provided.droppableProps}
-                          className={`flex-1 px-5 pb-6 min-h-[80px] transition-all duration-200 ${
-                            snapshot.isDraggingOver ? "bg-white/60" : ""
-                          }`}
-                        >
-                          {column.taskIds.length === 0 && (
-                            <div className="text-slate-400 text-center py-10 select-none italic font-medium">
-                              No tasks
-                            </div>
-                          )}
-                          {column.taskIds.map((taskId, idx) => {
-                            const task = board.tasks[taskId];
-                            return (
-                              <Draggable
-                                key={task.id}
-                                draggableId={task.id}
-                                index={idx}
-                              >
-                                {(provided, snapshot) => (
-                                  <div
-                                    ref={provided.innerRef}
-                                    {...provided.draggableProps}
-                                    {...provided.dragHandleProps}
-                                    className={`group bg-white rounded-2xl shadow-md p-5 mb-5 flex items-start gap-3 border border-slate-100 transition-all duration-200 cursor-pointer hover:shadow-lg hover:-translate-y-1 hover:border-blue-200 ${
-                                      snapshot.isDragging
-                                        ? "ring-2 ring-blue-400 scale-105 shadow-xl"
-                                        : ""
-                                    }`}
-                                    style={{
-                                      ...provided.draggableProps.style,
-                                      boxShadow: snapshot.isDragging
-                                        ? "0 12px 32px 0 rgba(56, 189, 248, 0.18)"
-                                        : "0 2px 8px 0 rgba(0,0,0,0.06)",
-                                    }}
-                                  >
-                                    <div className="flex-1">
-                                      <div className="text-slate-800 font-medium break-words text-lg font-sans">
-                                        {task.content}
-                                      </div>
-                                    </div>
-                                    <div className="flex flex-col gap-2 opacity-0 group-hover:opacity-100 transition">
-                                      <button
-                                        className="p-1.5 rounded-full hover:bg-blue-100"
-                                        onClick={() =>
-                                          openEditTaskModal(task.id, column.id)
-                                        }
-                                        aria-label="Edit"
-                                      >
-                                        <Edit className="w-4 h-4 text-blue-500" />
-                                      </button>
-                                      <button
-                                        className="p-1.5 rounded-full hover:bg-red-100"
-                                        onClick={() =>
-                                          handleDeleteTask(task.id, column.id)
-                                        }
-                                        aria-label="Delete"
-                                      >
-                                        <Trash2 className="w-4 h-4 text-red-500" />
-                                      </button>
-                                    </div>
-                                  </div>
-                                )}
-                              </Draggable>
-                            );
-                          })}
-                          {provided.placeholder}
-                        </div>
-                      )}
-                    </Droppable>
-                  </div>
-                );
-              })}
-            </div>
-          </DragDropContext>
-        </div>
-      </main>
-      {/* Task Modal */}
-      {showModal && modalTask && (
-        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
-          <div className="bg-white rounded-3xl shadow-2xl p-10 w-full max-w-lg relative animate-fadeIn border-2 border-blue-100">
+      <div className="min-h-screen flex-1 min-w-0 bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-950 dark:to-slate-900 flex flex-col relative overflow-x-hidden">
+        {/* The board's background, a subtle pattern unless one was chosen */}
+        <div
+          aria-hidden
+          className="pointer-events-none fixed inset-0 z-0"
+          style={getBackgroundStyle(board.appearance.background)}
+        />
+        <header className="py-4 px-4 md:py-7 md:px-8 flex flex-wrap items-center justify-between gap-4 md:gap-6 bg-card/80 shadow-md backdrop-blur z-10 relative">
+          <div className="flex items-center gap-4">
+            <SidebarTrigger className="h-9 w-9 text-muted-foreground" />
+            <h1 className="text-4xl font-extrabold tracking-tight text-foreground flex items-center gap-3 font-display drop-shadow-sm">
+              <GripVertical className="w-8 h-8 text-blue-500" />
+              Task Board
+            </h1>
+          </div>
+          <SearchBar
+            ref={searchRef}
+            value={search}
+            onChange={setSearch}
+            errors={searchErrors}
+            hiddenCount={hiddenCount}
+          />
+          <div className="flex flex-wrap items-center gap-4 min-w-0">
             <button
-              className="absolute top-4 right-4 p-2 rounded-full hover:bg-slate-100"
-              onClick={closeModal}
-              aria-label="Close"
+              className="flex items-center gap-1.5 px-3 py-2 rounded-xl border-2 border-border bg-card/90 text-sm font-medium text-muted-foreground hover:bg-muted transition"
+              onClick={() => setPaletteOpen(true)}
+              title="Command palette (Ctrl+K)"
             >
-              <X className="w-5 h-5 text-slate-400" />
+              <CommandIcon className="w-4 h-4" />
+              <kbd className="font-sans">Ctrl K</kbd>
             </button>
-            <h3 className="text-2xl font-bold mb-5 text-slate-700 font-display">
-              {modalTask.id ? "Edit Task" : "Add Task"}
-            </h3>
-            <textarea
-              className="w-full min-h-[90px] border-2 border-slate-200 rounded-xl p-4 focus:outline-none focus:ring-2 focus:ring-blue-400 text-slate-800 text-lg resize-none transition font-sans"
-              placeholder="Task details..."
-              value={modalTask.content}
-              onChange={(e) =>
-                setModalTask((prev) =>
-                  prev ? { ...prev, content: e.target.value } : prev
-                )
-              }
-              autoFocus
-              maxLength={300}
-            />
-            <div className="flex justify-end gap-3 mt-8">
+            <ViewSwitcher value={view} onChange={setView} />
+            {view === "board" && !isMobile && (
+              <SwimlaneMenu value={swimlaneField} onChange={setSwimlaneField} />
+            )}
+            <TransferMenu onExport={handleExport} onImport={() => setImporting(true)} />
+            <button
+              className="p-2 rounded-full hover:bg-muted transition"
+              onClick={() => setArchiveOpen(true)}
+              aria-label="Archive"
+              title="Archive"
+            >
+              <Archive className="w-5 h-5 text-muted-foreground" />
+            </button>
+            <button
+              className="p-2 rounded-full hover:bg-muted transition"
+              onClick={() => setAppearanceOpen(true)}
+              aria-label="Appearance"
+              title="Appearance"
+            >
+              <Paintbrush className="w-5 h-5 text-muted-foreground" />
+            </button>
+            <button
+              className="p-2 rounded-full hover:bg-muted transition"
+              onClick={() => setShortcutsOpen(true)}
+              aria-label="Keyboard shortcuts"
+              title="Keyboard shortcuts (?)"
+            >
+              <Keyboard className="w-5 h-5 text-muted-foreground" />
+            </button>
+            <ThemeMenu />
+            <div className="flex items-center gap-1">
               <button
-                className="px-5 py-2.5 rounded-xl bg-slate-100 text-slate-600 font-medium hover:bg-slate-200 transition text-lg"
-                onClick={closeModal}
+                className="p-2 rounded-full hover:bg-muted disabled:opacity-30 disabled:hover:bg-transparent transition"
+                onClick={handleUndo}
+                disabled={!lastChange}
+                aria-label="Undo"
+                title={lastChange ? `Undo "${lastChange.label}" (Ctrl+Z)` : "Nothing to undo"}
               >
-                Cancel
+                <Undo2 className="w-5 h-5 text-muted-foreground" />
               </button>
               <button
-                className={`px-5 py-2.5 rounded-xl font-semibold flex items-center gap-2 text-lg transition shadow ${
-                  modalTask.content.trim()
-                    ? "bg-blue-500 text-white hover:bg-blue-600"
-                    : "bg-blue-200 text-white cursor-not-allowed"
-                }`}
-                onClick={handleModalSave}
-                disabled={!modalTask.content.trim()}
+                className="p-2 rounded-full hover:bg-muted disabled:opacity-30 disabled:hover:bg-transparent transition"
+                onClick={handleRedo}
+                disabled={!nextChange}
+                aria-label="Redo"
+                title={nextChange ? `Redo "${nextChange.label}" (Ctrl+Shift+Z)` : "Nothing to redo"}
               >
-                <Check className="w-5 h-5" />
-                Save
+                <Redo2 className="w-5 h-5 text-muted-foreground" />
               </button>
             </div>
+            <span className="text-muted-foreground/80 font-medium text-lg truncate">{activeBoard.name}</span>
           </div>
-        </div>
-      )}
-      {/* Delete Confirm Modal */}
-      {deleting && (
-        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
-          <div className="bg-white rounded-3xl shadow-2xl p-10 w-full max-w-md relative animate-fadeIn border-2 border-red-100">
-            <h3 className="text-xl font-bold mb-4 text-slate-700 font-display">
-              Delete this task?
-            </h3>
-            <p className="text-slate-500 mb-7 text-lg">
-              Are you sure you want to delete this task? This action cannot be undone.
-            </p>
-            <div className="flex justify-end gap-3">
-              <button
-                className="px-5 py-2.5 rounded-xl bg-slate-100 text-slate-600 font-medium hover:bg-slate-200 transition text-lg"
-                onClick={() => setDeleting(null)}
-              >
-                Cancel
-              </button>
-              <button
-                className="px-5 py-2.5 rounded-xl bg-red-500 text-white font-semibold hover:bg-red-600 transition text-lg shadow"
-                onClick={confirmDelete}
-              >
-                Delete
-              </button>
-            </div>
+        </header>
+        <main className="flex-1 flex flex-col items-center justify-start py-6 md:py-10 px-2 z-10 relative">
+          <div className="w-full max-w-7xl">
+            {view === "analytics" ? (
+              <AnalyticsView key={activeBoard.id} board={board} boardName={activeBoard.name} />
+            ) : view === "timeline" ? (
+              <TimelineView
+                key={activeBoard.id}
+                board={board}
+                visibleTaskIds={visibleTaskIds}
+                highlightTerms={highlightTerms}
+                onEditTask={openEditTaskModal}
+                onSchedule={(taskId, schedule) =>
+                  setBoard((prev) => updateTask(prev, taskId, schedule), "Reschedule task")
+                }
+              />
+            ) : view === "calendar" ? (
+              <CalendarView
+                key={activeBoard.id}
+                board={board}
+                visibleTaskIds={visibleTaskIds}
+                highlightTerms={highlightTerms}
+                onEditTask={openEditTaskModal}
+                onReschedule={(taskId, dueDate) =>
+                  setBoard((prev) => updateTask(prev, taskId, { dueDate }), "Reschedule task")
+                }
+              />
+            ) : view === "table" ? (
+              <TaskTable
+                key={activeBoard.id}
+                board={board}
+                rows={tableRows}
+                highlightTerms={highlightTerms}
+                onEditTask={openEditTaskModal}
+                onUpdateTasks={handleUpdateTasks}
+                onMoveTasks={handleMoveTasks}
+                onArchiveTasks={handleArchiveTasks}
+              />
+            ) : (
+              <DragDropContext key={activeBoard.id} onDragEnd={onDragEnd}>
+                {isMobile ? (
+                  <MobileBoard
+                    board={board}
+                    visibleTaskIds={visibleTaskIds}
+                    highlightTerms={highlightTerms}
+                    getColumnActions={getColumnActions}
+                    onEditTask={openEditTaskModal}
+                    onArchiveTask={handleArchiveTask}
+                    onFocusTask={setFocusedTaskId}
+                    onMoveTask={(taskId, columnId) => handleMoveTasks([taskId], columnId)}
+                    onAddColumn={handleAddColumn}
+                  />
+                ) : swimlaneField ? (
+                  <SwimlaneBoard
+                    board={board}
+                    field={swimlaneField}
+                    lanes={lanes}
+                    cells={cells}
+                    highlightTerms={highlightTerms}
+                    collapsedLaneIds={collapsedLaneIds}
+                    onToggleLane={(laneId) =>
+                      setCollapsedLaneIds((prev) =>
+                        prev.includes(laneId)
+                          ? prev.filter((id) => id !== laneId)
+                          : [...prev, laneId]
+                      )
+                    }
+                    getColumnActions={getColumnActions}
+                    onEditTask={openEditTaskModal}
+                    onArchiveTask={handleArchiveTask}
+                    onFocusTask={setFocusedTaskId}
+                    onRenameLane={(laneId, title) =>
+                      setBoard((prev) => renameLane(prev, laneId, title), "Rename lane")
+                    }
+                    onMoveLane={(laneId, offset) =>
+                      setBoard((prev) => moveLane(prev, laneId, offset), "Move lane")
+                    }
+                    onDeleteLane={handleDeleteLane}
+                    onAddLane={(title) => setBoard((prev) => addLane(prev, title), "Add lane")}
+                  />
+                ) : (
+                  <Droppable droppableId="board" direction="horizontal" type="COLUMN">
+                    {(provided: DroppableProvided) => (
+                      <div
+                        ref={provided.innerRef}
+                        {...provided.droppableProps}
+                        className="flex items-start gap-8 overflow-x-auto pb-4"
+                      >
+                        {board.columnOrder.map((colId, index) => {
+                          const column = board.columns[colId];
+                          return (
+                            <BoardColumn
+                              key={column.id}
+                              column={column}
+                              tasks={board.tasks}
+                              labels={board.labels}
+                              visibleTaskIds={visibleTaskIds[column.id]}
+                              highlightTerms={highlightTerms}
+                              index={index}
+                              appearance={board.appearance}
+                              onEditTask={(taskId) => openEditTaskModal(taskId, column.id)}
+                              onArchiveTask={handleArchiveTask}
+                              onFocusTask={setFocusedTaskId}
+                              {...getColumnActions(column.id)}
+                            />
+                          );
+                        })}
+                        {provided.placeholder}
+                        <AddColumn onAdd={handleAddColumn} width={board.appearance.columnWidth} />
+                      </div>
+                    )}
+                  </Droppable>
+                )}
+              </DragDropContext>
+            )}
           </div>
-        </div>
-      )}
-      <style>
-        {`
-        @keyframes fadeIn {
-          from { opacity: 0; transform: scale(0.96);}
-          to { opacity: 1; transform: scale(1);}
-        }
-        .animate-fadeIn {
-          animation: fadeIn 0.18s cubic-bezier(.4,0,.2,1);
-        }
-        .font-display {
-          font-family: 'Poppins', 'Inter', ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, "Noto Sans", sans-serif;
-        }
-        `}
-      </style>
-      {/* Google Fonts for Poppins */}
-      <link
-        href="https://fonts.googleapis.com/css2?family=Poppins:wght@600;800&display=swap"
-        rel="stylesheet"
-      />
-    </div>
+        </main>
+        <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} />
+        <KeyboardShortcutsDialog open={shortcutsOpen} onOpenChange={setShortcutsOpen} />
+        {/* Task Modal */}
+        {modalTask && !modalGone && (
+          <TaskDetailDialog
+            task={modalTask.id ? board.tasks[modalTask.id] : undefined}
+            columnTitle={
+              ((modalTask.id && findColumnOfTask(board, modalTask.id)) ||
+                board.columns[modalTask.columnId])?.title ?? ""
+            }
+            labels={board.labels}
+            assignees={getAssignees(board)}
+            epics={getEpics(board)}
+            lanes={board.lanes}
+            dependencyOptions={getDependencyOptions(board, modalTask.id)}
+            asDrawer={isMobile}
+            onSave={handleModalSave}
+            onClose={closeModal}
+            onCreateLabel={(label) => setBoard((prev) => addLabel(prev, label), "Add label")}
+            onDeleteLabel={(labelId) => {
+              const changeId = setBoard((prev) => deleteLabel(prev, labelId), "Delete label");
+              notifyUndoable("Label deleted", changeId);
+            }}
+            onAddComment={handleAddComment}
+            onUpdateComment={handleUpdateComment}
+            onDeleteComment={handleDeleteComment}
+          />
+        )}
+        <ArchiveSheet
+          key={activeBoard.id}
+          open={archiveOpen}
+          onOpenChange={setArchiveOpen}
+          board={board}
+          me={userName}
+          onRestoreTask={(taskId) => {
+            const column = getRestoreColumn(board, board.tasks[taskId]);
+            if (column && !checkWipLimit(column.id)) return;
+            setBoard((prev) => restoreTask(prev, taskId), "Restore task");
+          }}
+          onDeleteTask={handleDeleteArchivedTask}
+          onRestoreColumn={(columnId) =>
+            setBoard((prev) => restoreColumn(prev, columnId), "Restore list")
+          }
+          onDeleteColumn={handleDeleteArchivedColumn}
+          onChangeAutoArchive={(days) =>
+            setBoard((prev) => setAutoArchiveDays(prev, days), "Change auto-archive")
+          }
+        />
+        <AppearanceSheet
+          key={`appearance-${activeBoard.id}`}
+          open={appearanceOpen}
+          onOpenChange={setAppearanceOpen}
+          appearance={board.appearance}
+          onChange={(patch) =>
+            setBoard((prev) => setAppearance(prev, patch), "Change appearance")
+          }
+        />
+        {wipColumnId && wipColumn && (
+          <WipLimitDialog
+            column={wipColumn}
+            onSave={(wipLimit) => {
+              setBoard((prev) => updateColumn(prev, wipColumnId, { wipLimit }), "Set WIP limit");
+              setWipColumnId(null);
+            }}
+            onClose={() => setWipColumnId(null)}
+          />
+        )}
+        {importing && (
+          <ImportBoardDialog
+            board={board}
+            onImport={handleImport}
+            onClose={() => setImporting(false)}
+          />
+        )}
+        {deletingTask && (
+          <DeleteTaskDialog
+            task={deletingTask}
+            onCancel={() => setDeletingTaskId(null)}
+            onConfirm={confirmDeleteTask}
+          />
+        )}
+        {deletingColumnId && deletingColumn && (
+          <DeleteColumnDialog
+            column={deletingColumn}
+            targets={board.columnOrder
+              .filter((id) => id !== deletingColumnId)
+              .map((id) => board.columns[id])}
+            onCancel={() => setDeletingColumnId(null)}
+            onConfirm={confirmDeleteColumn}
+          />
+        )}
+        <style>
+          {`
+          @keyframes fadeIn {
+            from { opacity: 0; transform: scale(0.96);}
+            to { opacity: 1; transform: scale(1);}
+          }
+          .animate-fadeIn {
+            animation: fadeIn 0.18s cubic-bezier(.4,0,.2,1);
+          }
+          .font-display {
+            font-family: 'Poppins', 'Inter', ui-sans-serif, system-ui, -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, "Helvetica Neue", Arial, "Noto Sans", sans-serif;
+          }
+          `}
+        </style>
+        {/* Google Fonts for Poppins */}
+        <link
+          href="https://fonts.googleapis.com/css2?family=Poppins:wght@600;800&display=swap"
+          rel="stylesheet"
+        />
+      </div>
+    </SidebarProvider>
   );
 }
 
@@ -0,0 +1,97 @@
+import { useState } from "react";
+import { Check, Plus, X } from "lucide-react";
+import { COLUMN_THEMES, type ColumnTheme } from "@/lib/board/palette";
+
+type AddColumnProps = {
+  onAdd: (title: string, theme: ColumnTheme) => void;
+  /** In pixels, to match the board's lists; fills its container when left out. */
+  width?: number;
+};
+
+export function AddColumn({ onAdd, width }: AddColumnProps) {
+  const [open, setOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [theme, setTheme] = useState<ColumnTheme>(COLUMN_THEMES[0]);
+
+  const close = () => {
+    setOpen(false);
+    setTitle("");
+    setTheme(COLUMN_THEMES[0]);
+  };
+
+  const submit = () => {
+    if (!title.trim()) return;
+    onAdd(title.trim(), theme);
+    close();
+  };
+
+  if (!open) {
+    return (
+      <button
+        className="flex items-center justify-center gap-2 rounded-3xl border-2 border-dashed border-muted-foreground/30 bg-card/40 w-full h-24 shrink-0 text-muted-foreground font-semibold text-lg hover:bg-card/70 hover:border-blue-300 dark:hover:border-blue-500/50 hover:text-blue-500 transition"
+        style={{ width }}
+        onClick={() => setOpen(true)}
+      >
+        <Plus className="w-5 h-5" />
+        Add another list
+      </button>
+    );
+  }
+
+  return (
+    <div
+      className="flex flex-col gap-4 rounded-3xl border-2 border-border bg-card/80 p-6 w-full h-fit shrink-0 shadow-md"
+      style={{ width }}
+    >
+      <input
+        className="w-full border-2 border-border rounded-xl px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-blue-400 text-foreground text-lg font-sans"
+        placeholder="List title..."
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+          if (e.key === "Escape") close();
+        }}
+        autoFocus
+        maxLength={60}
+      />
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="List color">
+        {COLUMN_THEMES.map((option) => (
+          <button
+            key={option.id}
+            className={`w-7 h-7 rounded-full ${option.style.accent} flex items-center justify-center shadow transition ${
+              option.id === theme.id ? "ring-2 ring-offset-2 ring-offset-background ring-muted-foreground" : "hover:scale-110"
+            }`}
+            onClick={() => setTheme(option)}
+            role="radio"
+            aria-checked={option.id === theme.id}
+            aria-label={option.name}
+          >
+            {option.id === theme.id && <Check className="w-4 h-4 text-white" />}
+          </button>
+        ))}
+      </div>
+      <div className="flex justify-end gap-3">
+        <button
+          className="p-2.5 rounded-xl bg-secondary text-secondary-foreground hover:bg-secondary/80 transition"
+          onClick={close}
+          aria-label="Cancel"
+        >
+          <X className="w-5 h-5" />
+        </button>
+        <button
+          className={`px-5 py-2.5 rounded-xl font-semibold flex items-center gap-2 transition shadow ${
+            title.trim()
+              ? "bg-blue-500 text-white hover:bg-blue-600"
+              : "bg-blue-200 dark:bg-blue-500/30 text-white cursor-not-allowed"
+          }`}
+          onClick={submit}
+          disabled={!title.trim()}
+        >
+          <Plus className="w-5 h-5" />
+          Add list
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { useMemo } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import {
+  formatDays,
+  getColumnAges,
+  getCompletedTasks,
+  getCycleTimes,
+  getDurationDistribution,
+  getLabelBreakdown,
+  getLeadTimes,
+  getWeeklyThroughput,
+  summarizeDurations,
+} from "@/lib/board/analytics";
+import type { BoardData } from "@/lib/board/types";
+import { ChartPanel } from "./chart-panel";
+import { FlowCharts } from "./flow-charts";
+
+const countConfig = {
+  count: { label: "Cards", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+const leadConfig = {
+  count: { label: "Cards", color: "hsl(var(--chart-1))" },
+} satisfies ChartConfig;
+const ageConfig = {
+  days: { label: "Average days", color: "hsl(var(--chart-4))" },
+} satisfies ChartConfig;
+
+function Stat({ label, value, detail }: { label: string; value: string; detail?: string }) {
+  return (
+    <div className="rounded-3xl border-2 border-border bg-card/90 px-5 py-4 shadow-md">
+      <div className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{label}</div>
+      <div className="mt-1 text-3xl font-bold text-foreground font-display">{value}</div>
+      {detail && <div className="mt-0.5 text-sm text-muted-foreground/80">{detail}</div>}
+    </div>
+  );
+}
+
+const NO_FINISHED = "Nothing has been finished yet. Cards count once they reach the last list.";
+
+type AnalyticsViewProps = {
+  board: BoardData;
+  /** For the names of exported chart data. */
+  boardName: string;
+};
+
+/**
+ * How work flows through the board, worked out from when each card entered
+ * its lists. It covers the whole board, archived cards included, whatever
+ * the current filter.
+ */
+export function AnalyticsView({ board, boardName }: AnalyticsViewProps) {
+  const stats = useMemo(() => {
+    const completed = getCompletedTasks(board);
+    const leadTimes = getLeadTimes(completed);
+    const cycleTimes = getCycleTimes(completed);
+    const throughput = getWeeklyThroughput(completed);
+    return {
+      finished: completed.length,
+      thisWeek: throughput[throughput.length - 1].count,
+      lead: summarizeDurations(leadTimes),
+      cycle: summarizeDurations(cycleTimes),
+      leadDistribution: getDurationDistribution(leadTimes),
+      cycleDistribution: getDurationDistribution(cycleTimes),
+      throughput,
+      ages: getColumnAges(board).map((age) => ({ ...age, days: Math.round(age.days * 10) / 10 })),
+      labels: getLabelBreakdown(board),
+    };
+  }, [board]);
+
+  const doneTitle = board.columns[board.columnOrder[board.columnOrder.length - 1]]?.title;
+  const axisProps = { tickLine: false, axisLine: false, tickMargin: 8 };
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+        <Stat
+          label="Finished"
+          value={String(stats.finished)}
+          detail={doneTitle ? `Cards in ${doneTitle}` : undefined}
+        />
+        <Stat label="This week" value={String(stats.thisWeek)} detail="Cards finished" />
+        <Stat
+          label="Lead time"
+          value={stats.lead ? formatDays(stats.lead.median) : "–"}
+          detail={stats.lead ? `Median; 85% within ${formatDays(stats.lead.p85)}` : "Median"}
+        />
+        <Stat
+          label="Cycle time"
+          value={stats.cycle ? formatDays(stats.cycle.median) : "–"}
+          detail={stats.cycle ? `Median; 85% within ${formatDays(stats.cycle.p85)}` : "Median"}
+        />
+      </div>
+      <div className="grid gap-6 lg:grid-cols-2">
+        <ChartPanel
+          title="Lead time"
+          description="From a card being made to it being finished."
+          empty={stats.lead ? null : NO_FINISHED}
+        >
+          <ChartContainer config={leadConfig} className="aspect-auto h-[220px] w-full">
+            <BarChart data={stats.leadDistribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="bucket" {...axisProps} />
+              <YAxis allowDecimals={false} width={28} {...axisProps} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={6} />
+            </BarChart>
+          </ChartContainer>
+        </ChartPanel>
+        <ChartPanel
+          title="Cycle time"
+          description="From a card leaving the first list to it being finished."
+          empty={stats.cycle ? null : NO_FINISHED}
+        >
+          <ChartContainer config={countConfig} className="aspect-auto h-[220px] w-full">
+            <BarChart data={stats.cycleDistribution}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="bucket" {...axisProps} />
+              <YAxis allowDecimals={false} width={28} {...axisProps} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={6} />
+            </BarChart>
+          </ChartContainer>
+        </ChartPanel>
+        <ChartPanel
+          title="Weekly throughput"
+          description="Cards finished each week, over the last 12 weeks."
+          empty={null}
+        >
+          <ChartContainer config={countConfig} className="aspect-auto h-[220px] w-full">
+            <BarChart data={stats.throughput}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="week" {...axisProps} />
+              <YAxis allowDecimals={false} width={28} {...axisProps} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey="count" fill="var(--color-count)" radius={6} />
+            </BarChart>
+          </ChartContainer>
+        </ChartPanel>
+        <ChartPanel
+          title="Age per list"
+          description="How long the cards in each list have been sitting there, on average."
+          empty={board.columnOrder.length > 0 ? null : "This board has no lists."}
+        >
+          <ChartContainer config={ageConfig} className="aspect-auto h-[220px] w-full">
+            <BarChart data={stats.ages}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="title" {...axisProps} />
+              <YAxis width={28} {...axisProps} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey="days" fill="var(--color-days)" radius={6} />
+            </BarChart>
+          </ChartContainer>
+        </ChartPanel>
+        <ChartPanel
+          title="Cards by label"
+          description="Cards on the board with each label; a card can count more than once."
+          empty={stats.labels.length > 0 ? null : "There are no cards on the board."}
+        >
+          <ChartContainer config={countConfig} className="aspect-auto h-[220px] w-full">
+            <BarChart data={stats.labels} layout="vertical">
+              <CartesianGrid horizontal={false} />
+              <XAxis type="number" allowDecimals={false} {...axisProps} />
+              <YAxis type="category" dataKey="name" width={88} {...axisProps} />
+              <ChartTooltip cursor={false} content={<ChartTooltipContent />} />
+              <Bar dataKey="count" radius={6}>
+                {stats.labels.map((label) => (
+                  <Cell key={label.id} fill={label.fill} />
+                ))}
+              </Bar>
+            </BarChart>
+          </ChartContainer>
+        </ChartPanel>
+      </div>
+      <FlowCharts board={board} boardName={boardName} />
+    </div>
+  );
+}
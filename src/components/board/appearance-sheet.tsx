@@ -0,0 +1,274 @@
+import { useRef, useState, type CSSProperties, type ReactNode } from "react";
+import { Check, ImagePlus, Pipette } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import {
+  BACKGROUND_COLORS,
+  BACKGROUND_GRADIENTS,
+  CARD_DENSITIES,
+  COLUMN_WIDTH,
+  DEFAULT_APPEARANCE,
+  getBackgroundStyle,
+} from "@/lib/board/appearance";
+import type { BoardAppearance, BoardBackground } from "@/lib/board/types";
+import { readImageAsDataUrl } from "@/lib/image";
+
+/** Longest side of a stored background picture, in pixels. */
+const MAX_IMAGE_SIZE = 1920;
+
+type AppearanceSheetProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  appearance: BoardAppearance;
+  onChange: (patch: Partial<BoardAppearance>) => void;
+};
+
+function Swatch({
+  name,
+  style,
+  selected,
+  onSelect,
+  children,
+}: {
+  name: string;
+  style: CSSProperties;
+  selected: boolean;
+  onSelect: () => void;
+  children?: ReactNode;
+}) {
+  return (
+    <button
+      className={`relative flex h-14 items-center justify-center rounded-xl border-2 border-border bg-muted/50 transition ${
+        selected ? "ring-2 ring-blue-400 ring-offset-2 ring-offset-background" : "hover:scale-105"
+      }`}
+      style={style}
+      onClick={onSelect}
+      role="radio"
+      aria-checked={selected}
+      aria-label={name}
+      title={name}
+    >
+      {children}
+      {selected && (
+        <span className="absolute right-1 top-1 rounded-full bg-blue-500 p-0.5 text-white shadow">
+          <Check className="w-3 h-3" />
+        </span>
+      )}
+    </button>
+  );
+}
+
+const isSelected = (current: BoardBackground, option: BoardBackground) =>
+  JSON.stringify(current) === JSON.stringify(option);
+
+/** The board's background, card density, list width and card badges. */
+export function AppearanceSheet({ open, onOpenChange, appearance, onChange }: AppearanceSheetProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [imageError, setImageError] = useState<string | null>(null);
+  // The width being dragged to, saved once the slider is let go.
+  const [draftWidth, setDraftWidth] = useState<number | null>(null);
+  // Likewise the color being picked, saved once the picker is left.
+  const [draftColor, setDraftColor] = useState<string | null>(null);
+  const { background } = appearance;
+  const customColor =
+    draftColor ??
+    (background.type === "color" &&
+    !BACKGROUND_COLORS.some((option) => option.color === background.color)
+      ? background.color
+      : null);
+
+  const setBackground = (next: BoardBackground) => {
+    setImageError(null);
+    onChange({ background: next });
+  };
+
+  const readImage = async (file: File) => {
+    setImageError(null);
+    try {
+      setBackground({ type: "image", dataUrl: await readImageAsDataUrl(file, MAX_IMAGE_SIZE) });
+    } catch (err) {
+      setImageError(err instanceof Error ? err.message : "That image can't be used.");
+    }
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-6 overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-2xl font-bold text-foreground font-display">Appearance</SheetTitle>
+          <SheetDescription>
+            How this board looks. Other boards keep their own settings.
+          </SheetDescription>
+        </SheetHeader>
+        <section className="flex flex-col gap-3">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Background
+          </h3>
+          <div className="grid grid-cols-4 gap-2" role="radiogroup" aria-label="Background">
+            <Swatch
+              name="Default"
+              style={getBackgroundStyle({ type: "default" })}
+              selected={background.type === "default"}
+              onSelect={() => setBackground({ type: "default" })}
+            >
+              <span className="text-xs font-medium text-muted-foreground">Default</span>
+            </Swatch>
+            {BACKGROUND_COLORS.map((option) => {
+              const value: BoardBackground = { type: "color", color: option.color };
+              return (
+                <Swatch
+                  key={option.color}
+                  name={option.name}
+                  style={getBackgroundStyle(value)}
+                  selected={isSelected(background, value)}
+                  onSelect={() => setBackground(value)}
+                />
+              );
+            })}
+            <label
+              className={`relative flex h-14 cursor-pointer items-center justify-center rounded-xl border-2 border-dashed border-muted-foreground/30 text-muted-foreground transition focus-within:ring-2 focus-within:ring-blue-400 ${
+                customColor ? "ring-2 ring-blue-400 ring-offset-2 ring-offset-background" : "hover:scale-105"
+              }`}
+              style={customColor ? { background: customColor } : undefined}
+              title="Pick a color"
+            >
+              <Pipette className="w-4 h-4" />
+              <input
+                type="color"
+                className="sr-only"
+                value={customColor ?? "#94a3b8"}
+                onChange={(e) => setDraftColor(e.target.value)}
+                onBlur={() => {
+                  if (draftColor) setBackground({ type: "color", color: draftColor });
+                  setDraftColor(null);
+                }}
+                aria-label="Pick a color"
+              />
+            </label>
+            {BACKGROUND_GRADIENTS.map((option) => {
+              const value: BoardBackground = { type: "gradient", gradientId: option.id };
+              return (
+                <Swatch
+                  key={option.id}
+                  name={option.name}
+                  style={getBackgroundStyle(value)}
+                  selected={isSelected(background, value)}
+                  onSelect={() => setBackground(value)}
+                />
+              );
+            })}
+            {background.type === "image" && (
+              <Swatch
+                name="Uploaded image"
+                style={getBackgroundStyle(background)}
+                selected
+                onSelect={() => {}}
+              />
+            )}
+          </div>
+          <input
+            ref={fileInput}
+            type="file"
+            accept="image/*"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) readImage(file);
+              e.target.value = "";
+            }}
+          />
+          <button
+            className="flex items-center justify-center gap-2 rounded-xl border-2 border-dashed border-muted-foreground/30 px-4 py-3 text-sm font-medium text-muted-foreground hover:border-blue-300 dark:hover:border-blue-500/50 hover:bg-blue-50/50 dark:hover:bg-blue-500/10 transition"
+            onClick={() => fileInput.current?.click()}
+          >
+            <ImagePlus className="w-4 h-4" />
+            {background.type === "image" ? "Upload another image" : "Upload an image"}
+          </button>
+          {imageError && (
+            <p className="text-sm font-medium text-red-600 dark:text-red-400">{imageError}</p>
+          )}
+          <p className="text-xs text-muted-foreground/80">
+            Images are scaled down and kept in this browser with the board.
+          </p>
+        </section>
+        <section className="flex flex-col gap-3 border-t-2 border-border pt-6">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Cards
+          </h3>
+          <div className="flex items-center justify-between gap-3 text-foreground/80">
+            Density
+            <div
+              className="flex items-center gap-0.5 rounded-xl border-2 border-border p-0.5"
+              role="radiogroup"
+              aria-label="Card density"
+            >
+              {CARD_DENSITIES.map((option) => (
+                <button
+                  key={option.id}
+                  className={`rounded-lg px-3 py-1 text-sm font-medium transition ${
+                    option.id === appearance.density
+                      ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300"
+                      : "text-muted-foreground hover:bg-muted"
+                  }`}
+                  onClick={() => onChange({ density: option.id })}
+                  role="radio"
+                  aria-checked={option.id === appearance.density}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center justify-between gap-3 text-foreground/80">
+            Show badges
+            <Switch
+              checked={appearance.showBadges}
+              onCheckedChange={(showBadges) => onChange({ showBadges })}
+              aria-label="Show badges"
+            />
+          </label>
+          <p className="text-xs text-muted-foreground/80">
+            Badges are a card's due date, priority, epic, assignee and checklist progress.
+          </p>
+        </section>
+        <section className="flex flex-col gap-3 border-t-2 border-border pt-6">
+          <div className="flex items-center justify-between gap-3">
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              List width
+            </h3>
+            <span className="text-sm tabular-nums text-muted-foreground">
+              {draftWidth ?? appearance.columnWidth}px
+            </span>
+          </div>
+          <Slider
+            min={COLUMN_WIDTH.min}
+            max={COLUMN_WIDTH.max}
+            step={COLUMN_WIDTH.step}
+            value={[draftWidth ?? appearance.columnWidth]}
+            onValueChange={([width]) => setDraftWidth(width)}
+            onValueCommit={([width]) => {
+              setDraftWidth(null);
+              if (width !== appearance.columnWidth) onChange({ columnWidth: width });
+            }}
+            aria-label="List width"
+          />
+          {appearance.columnWidth !== DEFAULT_APPEARANCE.columnWidth && (
+            <button
+              className="self-start text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+              onClick={() => onChange({ columnWidth: DEFAULT_APPEARANCE.columnWidth })}
+            >
+              Reset to {DEFAULT_APPEARANCE.columnWidth}px
+            </button>
+          )}
+        </section>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,223 @@
+import { useState, type ReactNode } from "react";
+import { ArchiveRestore, Columns3, Search, SquareKanban, Trash2 } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import { getArchivedColumns, getArchivedTasks, getRestoreColumn } from "@/lib/board/archive";
+import { matchesQuery, parseQuery } from "@/lib/board/query";
+import type { BoardData } from "@/lib/board/types";
+import { RelativeTime } from "./task-activity";
+
+const DEFAULT_AUTO_ARCHIVE_DAYS = 14;
+
+const parseDays = (value: string) => {
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 1 && days <= 365 ? days : null;
+};
+
+type ArchiveSheetProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  board: BoardData;
+  /** Who `assignee:@me` means in the archive search. */
+  me: string | null;
+  onRestoreTask: (taskId: string) => void;
+  onDeleteTask: (taskId: string) => void;
+  onRestoreColumn: (columnId: string) => void;
+  onDeleteColumn: (columnId: string) => void;
+  onChangeAutoArchive: (days: number | null) => void;
+};
+
+function ArchivedItem({
+  icon,
+  title,
+  detail,
+  at,
+  onRestore,
+  onDelete,
+}: {
+  icon: ReactNode;
+  title: string;
+  detail: string;
+  at: number;
+  onRestore: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <li className="flex items-start gap-3 rounded-xl border-2 border-border px-4 py-3">
+      <span className="mt-0.5 shrink-0 text-muted-foreground/80 [&_svg]:w-4 [&_svg]:h-4">{icon}</span>
+      <div className="flex-1 min-w-0">
+        <div className="font-medium text-foreground break-words">{title}</div>
+        <div className="text-xs text-muted-foreground/80">
+          {detail} · archived <RelativeTime at={at} />
+        </div>
+      </div>
+      <div className="flex shrink-0">
+        <button
+          className="p-1.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-500/20"
+          onClick={onRestore}
+          aria-label={`Restore "${title}"`}
+          title="Restore"
+        >
+          <ArchiveRestore className="w-4 h-4 text-blue-500" />
+        </button>
+        <button
+          className="p-1.5 rounded-full hover:bg-red-100 dark:hover:bg-red-500/20"
+          onClick={onDelete}
+          aria-label={`Delete "${title}" permanently`}
+          title="Delete permanently"
+        >
+          <Trash2 className="w-4 h-4 text-red-500" />
+        </button>
+      </div>
+    </li>
+  );
+}
+
+/** Archived cards and lists of the board, with restore and permanent delete. */
+export function ArchiveSheet({
+  open,
+  onOpenChange,
+  board,
+  me,
+  onRestoreTask,
+  onDeleteTask,
+  onRestoreColumn,
+  onDeleteColumn,
+  onChangeAutoArchive,
+}: ArchiveSheetProps) {
+  const [search, setSearch] = useState("");
+  const [days, setDays] = useState(String(board.autoArchiveDays ?? DEFAULT_AUTO_ARCHIVE_DAYS));
+
+  const query = parseQuery(search);
+  const context = { labels: board.labels, now: new Date(), me };
+  const needle = search.trim().toLowerCase();
+  const tasks = getArchivedTasks(board).filter((task) => matchesQuery(task, query, context));
+  const columns = getArchivedColumns(board).filter((column) =>
+    column.title.toLowerCase().includes(needle)
+  );
+  const doneColumn = board.columns[board.columnOrder[board.columnOrder.length - 1]];
+
+  const commitDays = (value: string) => {
+    setDays(value);
+    const parsed = parseDays(value);
+    if (parsed !== null && board.autoArchiveDays !== null) onChangeAutoArchive(parsed);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col gap-6 overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-2xl font-bold text-foreground font-display">Archive</SheetTitle>
+          <SheetDescription>
+            Archived cards and lists are hidden from the board until you restore them.
+          </SheetDescription>
+        </SheetHeader>
+        <div className="flex items-center gap-2 rounded-xl border-2 border-border px-3 py-2 focus-within:ring-2 focus-within:ring-blue-400 transition">
+          <Search className="w-4 h-4 shrink-0 text-muted-foreground/80" />
+          <input
+            className="min-w-0 flex-1 bg-transparent text-foreground focus:outline-none"
+            placeholder="Search the archive..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            aria-label="Search the archive"
+            spellCheck={false}
+          />
+        </div>
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Cards ({tasks.length})
+          </h3>
+          {tasks.length === 0 ? (
+            <p className="italic text-muted-foreground/80">
+              {search ? "No matching cards" : "No archived cards"}
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {tasks.map((task) => {
+                const from = board.columns[task.archived!.columnId];
+                const to = getRestoreColumn(board, task);
+                return (
+                  <ArchivedItem
+                    key={task.id}
+                    icon={<SquareKanban />}
+                    title={task.content}
+                    detail={
+                      from && to && from.id !== to.id
+                        ? `From ${from.title}, restores to ${to.title}`
+                        : `From ${from?.title ?? "a deleted list"}`
+                    }
+                    at={task.archived!.at}
+                    onRestore={() => onRestoreTask(task.id)}
+                    onDelete={() => onDeleteTask(task.id)}
+                  />
+                );
+              })}
+            </ul>
+          )}
+        </section>
+        <section className="flex flex-col gap-2">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Lists ({columns.length})
+          </h3>
+          {columns.length === 0 ? (
+            <p className="italic text-muted-foreground/80">
+              {search ? "No matching lists" : "No archived lists"}
+            </p>
+          ) : (
+            <ul className="flex flex-col gap-2">
+              {columns.map((column) => (
+                <ArchivedItem
+                  key={column.id}
+                  icon={<Columns3 />}
+                  title={column.title}
+                  detail={
+                    column.taskIds.length === 1 ? "1 card" : `${column.taskIds.length} cards`
+                  }
+                  at={column.archived!.at}
+                  onRestore={() => onRestoreColumn(column.id)}
+                  onDelete={() => onDeleteColumn(column.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </section>
+        <section className="flex flex-col gap-3 border-t-2 border-border pt-6">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Auto-archive
+          </h3>
+          <label className="flex items-center justify-between gap-3 text-foreground/80">
+            Archive finished cards automatically
+            <Switch
+              checked={board.autoArchiveDays !== null}
+              onCheckedChange={(checked) =>
+                onChangeAutoArchive(checked ? parseDays(days) ?? DEFAULT_AUTO_ARCHIVE_DAYS : null)
+              }
+              aria-label="Archive finished cards automatically"
+            />
+          </label>
+          {board.autoArchiveDays !== null && (
+            <label className="flex items-center gap-2 text-sm text-muted-foreground">
+              Cards in {doneColumn?.title ?? "the last list"} for
+              <input
+                type="number"
+                min={1}
+                max={365}
+                className="w-16 rounded-lg border-2 border-border px-2 py-1 text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400"
+                value={days}
+                onChange={(e) => commitDays(e.target.value)}
+                aria-label="Days before archiving"
+              />
+              days or more
+            </label>
+          )}
+        </section>
+      </SheetContent>
+    </Sheet>
+  );
+}
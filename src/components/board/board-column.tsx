@@ -0,0 +1,98 @@
+import {
+  Draggable,
+  type DraggableProvided,
+  Droppable,
+  type DroppableProvided,
+  type DroppableStateSnapshot,
+} from "react-beautiful-dnd";
+import type { BoardAppearance, Column, Label, Task } from "@/lib/board/types";
+import { getWipStatus } from "@/lib/board/wip";
+import { ColumnHeader, type ColumnActions } from "./column-header";
+import { TaskCard } from "./task-card";
+
+type BoardColumnProps = ColumnActions & {
+  column: Column;
+  tasks: Record<string, Task>;
+  labels: Label[];
+  /** The column's tasks that pass the current filter, in board order. */
+  visibleTaskIds: string[];
+  highlightTerms: string[];
+  index: number;
+  appearance: BoardAppearance;
+  onEditTask: (taskId: string) => void;
+  onArchiveTask: (taskId: string) => void;
+  onFocusTask: (taskId: string) => void;
+};
+
+export function BoardColumn({
+  column,
+  tasks,
+  labels,
+  visibleTaskIds,
+  highlightTerms,
+  index,
+  appearance,
+  onEditTask,
+  onArchiveTask,
+  onFocusTask,
+  ...actions
+}: BoardColumnProps) {
+  const hiddenCount = column.taskIds.length - visibleTaskIds.length;
+  const wipStatus = getWipStatus(column);
+
+  return (
+    <Draggable draggableId={column.id} index={index}>
+      {(dragProvided: DraggableProvided) => (
+        <div
+          ref={dragProvided.innerRef}
+          {...dragProvided.draggableProps}
+          style={{ ...dragProvided.draggableProps.style, width: appearance.columnWidth }}
+          className={`flex flex-col shrink-0 rounded-3xl border-2 ${column.border} ${column.gradient} ${column.shadow} transition-all duration-300 hover:scale-[1.015] hover:shadow-xl ${
+            wipStatus === "over" ? "ring-4 ring-red-300" : ""
+          }`}
+        >
+          <ColumnHeader
+            column={column}
+            hiddenCount={hiddenCount}
+            dragHandleProps={dragProvided.dragHandleProps}
+            className="rounded-t-3xl"
+            {...actions}
+          />
+          <Droppable droppableId={column.id} type="TASK">
+            {(provided: DroppableProvided, snapshot: DroppableStateSnapshot) => (
+              <div
+                ref={provided.innerRef}
+                {...provided.droppableProps}
+                className={`flex-1 px-5 pb-6 min-h-[80px] transition-all duration-200 ${
+                  snapshot.isDraggingOver ? "bg-card/60" : ""
+                }`}
+              >
+                {visibleTaskIds.length === 0 && (
+                  <div className="text-muted-foreground/80 text-center py-10 select-none italic font-medium">
+                    {hiddenCount > 0 ? "No matching tasks" : "No tasks"}
+                  </div>
+                )}
+                {visibleTaskIds.map((taskId, idx) => (
+                  <TaskCard
+                    key={taskId}
+                    task={tasks[taskId]}
+                    columnId={column.id}
+                    labels={labels}
+                    highlightTerms={highlightTerms}
+                    index={idx}
+                    density={appearance.density}
+                    showBadges={appearance.showBadges}
+                    onEdit={() => onEditTask(taskId)}
+                    onArchive={() => onArchiveTask(taskId)}
+                    onFocus={() => onFocusTask(taskId)}
+                  />
+                ))}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        </div>
+      )}
+    </Draggable>
+  );
+}
@@ -0,0 +1,243 @@
+import { useMemo, useState } from "react";
+import {
+  Copy,
+  LayoutGrid,
+  MoreHorizontal,
+  PanelLeft,
+  Pencil,
+  Plus,
+  Star,
+  StarOff,
+  Trash2,
+} from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupAction,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarRail,
+  useSidebar,
+} from "@/components/ui/sidebar";
+import { useRegisterCommands } from "@/hooks/use-commands";
+import type { Board, Workspace } from "@/lib/board/types";
+
+type BoardSidebarProps = {
+  workspace: Workspace;
+  onSelect: (boardId: string) => void;
+  onCreate: (name: string) => void;
+  onRename: (boardId: string, name: string) => void;
+  onDuplicate: (boardId: string) => void;
+  onToggleStar: (boardId: string) => void;
+  onDelete: (boardId: string) => void;
+};
+
+type NameInputProps = {
+  initialValue: string;
+  placeholder: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+};
+
+function NameInput({ initialValue, placeholder, onSubmit, onCancel }: NameInputProps) {
+  const [value, setValue] = useState(initialValue);
+  const submit = () => (value.trim() ? onSubmit(value.trim()) : onCancel());
+  return (
+    <SidebarInput
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => setValue(e.target.value)}
+      onBlur={submit}
+      onKeyDown={(e) => {
+        if (e.key === "Enter") submit();
+        if (e.key === "Escape") onCancel();
+      }}
+      autoFocus
+      maxLength={60}
+    />
+  );
+}
+
+export function BoardSidebar({
+  workspace,
+  onSelect,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onToggleStar,
+  onDelete,
+}: BoardSidebarProps) {
+  const [creating, setCreating] = useState(false);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+  const { toggleSidebar } = useSidebar();
+
+  useRegisterCommands(
+    useMemo(
+      () => [
+        {
+          id: "view:toggle-sidebar",
+          group: "View",
+          title: "Toggle sidebar",
+          icon: <PanelLeft />,
+          shortcut: "Ctrl+B",
+          run: toggleSidebar,
+        },
+      ],
+      [toggleSidebar]
+    )
+  );
+
+  const boards = workspace.boardOrder.map((id) => workspace.boards[id]);
+  const starred = boards.filter((board) => board.starred);
+  const canDelete = boards.length > 1;
+
+  const renderBoard = (board: Board, group: string) => (
+    <SidebarMenuItem key={`${group}-${board.id}`}>
+      {renamingId === board.id && group === "all" ? (
+        <NameInput
+          initialValue={board.name}
+          placeholder="Board name"
+          onSubmit={(name) => {
+            onRename(board.id, name);
+            setRenamingId(null);
+          }}
+          onCancel={() => setRenamingId(null)}
+        />
+      ) : (
+        <>
+          <SidebarMenuButton
+            isActive={board.id === workspace.activeBoardId}
+            onClick={() => onSelect(board.id)}
+            onDoubleClick={() => setRenamingId(board.id)}
+            tooltip={board.name}
+          >
+            {board.starred ? <Star className="fill-amber-400 text-amber-400" /> : <LayoutGrid />}
+            <span>{board.name}</span>
+          </SidebarMenuButton>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <SidebarMenuAction showOnHover aria-label={`Options for ${board.name}`}>
+                <MoreHorizontal />
+              </SidebarMenuAction>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent
+              side="right"
+              align="start"
+              onCloseAutoFocus={(e) => e.preventDefault()}
+            >
+              <DropdownMenuItem onSelect={() => setRenamingId(board.id)}>
+                <Pencil /> Rename
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onDuplicate(board.id)}>
+                <Copy /> Duplicate
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => onToggleStar(board.id)}>
+                {board.starred ? <StarOff /> : <Star />}
+                {board.starred ? "Unstar" : "Star"}
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+              <DropdownMenuItem
+                className="text-red-600 dark:text-red-400 focus:text-red-600"
+                disabled={!canDelete}
+                onSelect={() => setDeletingId(board.id)}
+              >
+                <Trash2 /> Delete board
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        </>
+      )}
+    </SidebarMenuItem>
+  );
+
+  const deleting = deletingId ? workspace.boards[deletingId] : null;
+
+  return (
+    <>
+      <Sidebar>
+        <SidebarHeader>
+          <div className="px-2 py-1.5 text-lg font-bold text-foreground font-display">Workspace</div>
+        </SidebarHeader>
+        <SidebarContent>
+          {starred.length > 0 && (
+            <SidebarGroup>
+              <SidebarGroupLabel>Starred</SidebarGroupLabel>
+              <SidebarGroupContent>
+                <SidebarMenu>{starred.map((board) => renderBoard(board, "starred"))}</SidebarMenu>
+              </SidebarGroupContent>
+            </SidebarGroup>
+          )}
+          <SidebarGroup>
+            <SidebarGroupLabel>Boards</SidebarGroupLabel>
+            <SidebarGroupAction title="New board" onClick={() => setCreating(true)}>
+              <Plus /> <span className="sr-only">New board</span>
+            </SidebarGroupAction>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {boards.map((board) => renderBoard(board, "all"))}
+                {creating && (
+                  <SidebarMenuItem>
+                    <NameInput
+                      initialValue=""
+                      placeholder="New board name"
+                      onSubmit={(name) => {
+                        onCreate(name);
+                        setCreating(false);
+                      }}
+                      onCancel={() => setCreating(false)}
+                    />
+                  </SidebarMenuItem>
+                )}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        </SidebarContent>
+        <SidebarRail />
+      </Sidebar>
+      {deleting && (
+        <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+          <div className="bg-card rounded-3xl shadow-2xl p-10 w-full max-w-md relative animate-fadeIn border-2 border-red-100 dark:border-red-500/30">
+            <h3 className="text-xl font-bold mb-4 text-foreground font-display">
+              Delete "{deleting.name}"?
+            </h3>
+            <p className="text-muted-foreground mb-7 text-lg">
+              The board and all of its lists and tasks will be removed.
+            </p>
+            <div className="flex justify-end gap-3">
+              <button
+                className="px-5 py-2.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition text-lg"
+                onClick={() => setDeletingId(null)}
+              >
+                Cancel
+              </button>
+              <button
+                className="px-5 py-2.5 rounded-xl bg-red-500 text-white font-semibold hover:bg-red-600 transition text-lg shadow"
+                onClick={() => {
+                  onDelete(deleting.id);
+                  setDeletingId(null);
+                }}
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,249 @@
+import { useMemo, useState } from "react";
+import { format, isSameMonth, isToday } from "date-fns";
+import { CalendarX2, ChevronLeft, ChevronRight } from "lucide-react";
+import {
+  DragDropContext,
+  Draggable,
+  Droppable,
+  type DraggableProvided,
+  type DraggableStateSnapshot,
+  type DroppableProvided,
+  type DroppableStateSnapshot,
+  type DropResult,
+} from "react-beautiful-dnd";
+import { Highlight } from "@/components/highlight";
+import {
+  CALENDAR_MODES,
+  getCalendarDays,
+  getCalendarTitle,
+  getTasksByDay,
+  shiftCalendar,
+  UNDATED,
+  type CalendarMode,
+} from "@/lib/board/calendar";
+import { toDueDate } from "@/lib/board/due";
+import type { BoardData, Column, Task } from "@/lib/board/types";
+
+type CalendarViewProps = {
+  board: BoardData;
+  /** The cards of each column that pass the current filter. */
+  visibleTaskIds: Record<string, string[]>;
+  highlightTerms: string[];
+  onEditTask: (taskId: string, columnId: string) => void;
+  onReschedule: (taskId: string, dueDate: string | null) => void;
+};
+
+function CalendarCard({
+  task,
+  column,
+  index,
+  highlightTerms,
+  onOpen,
+}: {
+  task: Task;
+  column: Column;
+  index: number;
+  highlightTerms: string[];
+  onOpen: () => void;
+}) {
+  return (
+    <Draggable draggableId={task.id} index={index}>
+      {(provided: DraggableProvided, snapshot: DraggableStateSnapshot) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          {...provided.dragHandleProps}
+          onClick={onOpen}
+          onKeyDown={(e) => {
+            // Space belongs to the drag handle; Enter opens the card.
+            if (e.key === "Enter") onOpen();
+          }}
+          title={`${task.content} · ${column.title}`}
+          className={`mb-1.5 flex items-center gap-1.5 rounded-lg border px-2 py-1 text-xs font-medium text-foreground cursor-pointer transition hover:shadow-md focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${column.border} ${column.gradient} ${
+            snapshot.isDragging ? "shadow-lg ring-2 ring-blue-400" : "shadow-sm"
+          }`}
+        >
+          <span className={`w-2 h-2 shrink-0 rounded-full ${column.accent}`} />
+          <span className="truncate">
+            <Highlight text={task.content} terms={highlightTerms} />
+          </span>
+        </div>
+      )}
+    </Draggable>
+  );
+}
+
+/**
+ * Cards on their due dates, a month or a week at a time. Dragging a card to
+ * another day reschedules it; the tray holds the cards with no due date.
+ */
+export function CalendarView({
+  board,
+  visibleTaskIds,
+  highlightTerms,
+  onEditTask,
+  onReschedule,
+}: CalendarViewProps) {
+  const [mode, setMode] = useState<CalendarMode>("month");
+  const [anchor, setAnchor] = useState(() => new Date());
+
+  const days = getCalendarDays(anchor, mode);
+  const tasksByDay = useMemo(() => getTasksByDay(board, visibleTaskIds), [board, visibleTaskIds]);
+  const columnOf = useMemo(() => {
+    const columns: Record<string, Column> = {};
+    board.columnOrder.forEach((columnId) =>
+      board.columns[columnId].taskIds.forEach((taskId) => {
+        columns[taskId] = board.columns[columnId];
+      })
+    );
+    return columns;
+  }, [board]);
+
+  const onDragEnd = ({ destination, source, draggableId }: DropResult) => {
+    if (!destination || destination.droppableId === source.droppableId) return;
+    onReschedule(draggableId, destination.droppableId === UNDATED ? null : destination.droppableId);
+  };
+
+  const renderCards = (taskIds: string[]) =>
+    taskIds.map((taskId, index) => (
+      <CalendarCard
+        key={taskId}
+        task={board.tasks[taskId]}
+        column={columnOf[taskId]}
+        index={index}
+        highlightTerms={highlightTerms}
+        onOpen={() => onEditTask(taskId, columnOf[taskId].id)}
+      />
+    ));
+
+  const undated = tasksByDay[UNDATED];
+
+  return (
+    <DragDropContext onDragEnd={onDragEnd}>
+      <div className="flex items-start gap-6">
+        <div className="flex-1 min-w-0 flex flex-col gap-4 rounded-3xl border-2 border-border bg-card/90 p-6 shadow-md">
+          <div className="flex flex-wrap items-center gap-3">
+            <div className="flex items-center gap-1">
+              <button
+                className="p-2 rounded-full hover:bg-muted transition"
+                onClick={() => setAnchor((prev) => shiftCalendar(prev, mode, -1))}
+                aria-label={`Previous ${mode}`}
+              >
+                <ChevronLeft className="w-5 h-5 text-muted-foreground" />
+              </button>
+              <button
+                className="p-2 rounded-full hover:bg-muted transition"
+                onClick={() => setAnchor((prev) => shiftCalendar(prev, mode, 1))}
+                aria-label={`Next ${mode}`}
+              >
+                <ChevronRight className="w-5 h-5 text-muted-foreground" />
+              </button>
+            </div>
+            <h2 className="text-2xl font-bold text-foreground font-display">
+              {getCalendarTitle(anchor, mode)}
+            </h2>
+            <button
+              className="px-3 py-1.5 rounded-xl border-2 border-border text-sm font-medium text-foreground/80 hover:bg-muted transition"
+              onClick={() => setAnchor(new Date())}
+            >
+              Today
+            </button>
+            <div
+              className="ml-auto flex items-center gap-0.5 rounded-xl border-2 border-border p-0.5"
+              role="radiogroup"
+              aria-label="Calendar range"
+            >
+              {CALENDAR_MODES.map((option) => (
+                <button
+                  key={option.id}
+                  className={`rounded-lg px-3 py-1 text-sm font-medium transition ${
+                    option.id === mode ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300" : "text-muted-foreground hover:bg-muted"
+                  }`}
+                  onClick={() => setMode(option.id)}
+                  role="radio"
+                  aria-checked={option.id === mode}
+                >
+                  {option.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-7 gap-px overflow-hidden rounded-2xl border-2 border-border bg-border">
+            {days.slice(0, 7).map((day) => (
+              <div
+                key={day.toISOString()}
+                className="bg-muted/50 px-2 py-1.5 text-center text-xs font-semibold uppercase tracking-wide text-muted-foreground"
+              >
+                {format(day, "EEE")}
+              </div>
+            ))}
+            {days.map((day) => {
+              const dayId = toDueDate(day);
+              const outside = mode === "month" && !isSameMonth(day, anchor);
+              return (
+                <Droppable key={dayId} droppableId={dayId} type="CALENDAR">
+                  {(provided: DroppableProvided, snapshot: DroppableStateSnapshot) => (
+                    <div
+                      ref={provided.innerRef}
+                      {...provided.droppableProps}
+                      className={`flex min-w-0 flex-col p-1.5 transition-colors ${
+                        mode === "month" ? "min-h-[120px]" : "min-h-[50vh]"
+                      } ${
+                        snapshot.isDraggingOver ? "bg-blue-50 dark:bg-blue-500/10" : outside ? "bg-muted/50" : "bg-card"
+                      }`}
+                      aria-label={format(day, "EEEE, MMMM d")}
+                    >
+                      <span
+                        className={`mb-1 flex w-7 h-7 items-center justify-center self-end rounded-full text-sm font-semibold ${
+                          isToday(day)
+                            ? "bg-blue-500 text-white"
+                            : outside
+                              ? "text-muted-foreground/50"
+                              : "text-muted-foreground"
+                        }`}
+                      >
+                        {format(day, "d")}
+                      </span>
+                      {renderCards(tasksByDay[dayId] ?? [])}
+                      {provided.placeholder}
+                    </div>
+                  )}
+                </Droppable>
+              );
+            })}
+          </div>
+        </div>
+        <aside className="w-72 shrink-0 flex flex-col gap-3 rounded-3xl border-2 border-border bg-card/90 p-5 shadow-md">
+          <div className="flex items-center gap-2">
+            <CalendarX2 className="w-4 h-4 text-muted-foreground/80" />
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              No due date
+            </span>
+            <span className="ml-auto rounded-full bg-muted px-2 py-0.5 text-xs font-semibold text-muted-foreground">
+              {undated.length}
+            </span>
+          </div>
+          <Droppable droppableId={UNDATED} type="CALENDAR">
+            {(provided: DroppableProvided, snapshot: DroppableStateSnapshot) => (
+              <div
+                ref={provided.innerRef}
+                {...provided.droppableProps}
+                className={`min-h-[96px] rounded-2xl p-1.5 transition-colors ${
+                  snapshot.isDraggingOver ? "bg-blue-50 dark:bg-blue-500/10" : ""
+                }`}
+              >
+                {undated.length === 0 && !snapshot.isDraggingOver && (
+                  <p className="py-6 text-center text-sm italic text-muted-foreground/80">
+                    Every card has a due date. Drop one here to clear it.
+                  </p>
+                )}
+                {renderCards(undated)}
+                {provided.placeholder}
+              </div>
+            )}
+          </Droppable>
+        </aside>
+      </div>
+    </DragDropContext>
+  );
+}
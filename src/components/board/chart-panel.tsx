@@ -0,0 +1,32 @@
+import type { ReactNode } from "react";
+
+type ChartPanelProps = {
+  title: string;
+  description: string;
+  /** Shown instead of the chart when there is nothing to plot. */
+  empty: string | null;
+  /** Controls beside the title, such as an export button. */
+  actions?: ReactNode;
+  children: ReactNode;
+};
+
+export function ChartPanel({ title, description, empty, actions, children }: ChartPanelProps) {
+  return (
+    <section className="flex flex-col gap-3 rounded-3xl border-2 border-border bg-card/90 p-6 shadow-md">
+      <div className="flex flex-wrap items-start gap-3">
+        <div className="flex-1 min-w-0">
+          <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">{title}</h3>
+          <p className="text-sm text-muted-foreground/80">{description}</p>
+        </div>
+        {actions}
+      </div>
+      {empty ? (
+        <p className="flex h-[220px] items-center justify-center text-center text-sm italic text-muted-foreground/80">
+          {empty}
+        </p>
+      ) : (
+        children
+      )}
+    </section>
+  );
+}
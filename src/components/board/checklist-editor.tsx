@@ -0,0 +1,264 @@
+import { useState } from "react";
+import { CalendarDays, CopyPlus, GripVertical, ListChecks, Plus, Trash2, X } from "lucide-react";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import {
+  createChecklist,
+  createChecklistItem,
+  moveChecklistItem,
+  removeChecklistItem,
+  updateChecklist,
+  updateChecklistItem,
+} from "@/lib/board/checklists";
+import { formatDueDate, parseDueDate, toDueDate } from "@/lib/board/due";
+import type { Checklist, ChecklistItem } from "@/lib/board/types";
+
+type ChecklistEditorProps = {
+  checklists: Checklist[];
+  onChange: (checklists: Checklist[]) => void;
+  /** Turns an item into a card of its own; it has already been removed here. */
+  onConvert: (item: ChecklistItem) => void;
+};
+
+type DragState = { checklistId: string; itemId: string };
+
+export function ChecklistProgress({ done, total }: { done: number; total: number }) {
+  return (
+    <div className="flex items-center gap-2">
+      <Progress
+        value={total > 0 ? (done / total) * 100 : 0}
+        className="h-1.5 bg-muted [&>div]:bg-emerald-500"
+        aria-label={`${done} of ${total} done`}
+      />
+      <span className="text-xs font-semibold text-muted-foreground tabular-nums">
+        {done}/{total}
+      </span>
+    </div>
+  );
+}
+
+function DueDateButton({
+  dueDate,
+  onChange,
+}: {
+  dueDate: string | null;
+  onChange: (dueDate: string | null) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          className={`flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-semibold transition ${
+            dueDate ? "bg-muted text-foreground/80" : "text-muted-foreground/80 hover:bg-muted"
+          }`}
+          aria-label={dueDate ? `Due ${formatDueDate(dueDate)}` : "Set due date"}
+        >
+          <CalendarDays className="w-3.5 h-3.5" />
+          {dueDate && formatDueDate(dueDate)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={dueDate ? parseDueDate(dueDate) : undefined}
+          defaultMonth={dueDate ? parseDueDate(dueDate) : undefined}
+          onSelect={(date) => {
+            onChange(date ? toDueDate(date) : null);
+            setOpen(false);
+          }}
+          initialFocus
+        />
+        {dueDate && (
+          <button
+            className="w-full border-t px-3 py-2 text-sm text-muted-foreground hover:bg-muted/50"
+            onClick={() => {
+              onChange(null);
+              setOpen(false);
+            }}
+          >
+            Clear due date
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+/**
+ * Edits a task's checklists: items can be checked, renamed, given a due
+ * date, dragged (or moved with Alt+Up/Down) into a new order, and turned
+ * into cards.
+ */
+export function ChecklistEditor({ checklists, onChange, onConvert }: ChecklistEditorProps) {
+  const [newItems, setNewItems] = useState<Record<string, string>>({});
+  const [dragging, setDragging] = useState<DragState | null>(null);
+  // Rows only become draggable from their handle, so text in them stays selectable.
+  const [grabbedId, setGrabbedId] = useState<string | null>(null);
+
+  const addItem = (checklistId: string) => {
+    const text = newItems[checklistId]?.trim();
+    if (!text) return;
+    onChange(
+      updateChecklist(checklists, checklistId, (checklist) => ({
+        ...checklist,
+        items: [...checklist.items, createChecklistItem(text)],
+      }))
+    );
+    setNewItems((prev) => ({ ...prev, [checklistId]: "" }));
+  };
+
+  const convert = (checklistId: string, item: ChecklistItem) => {
+    onChange(removeChecklistItem(checklists, checklistId, item.id));
+    onConvert(item);
+  };
+
+  return (
+    <div className="flex flex-col gap-5">
+      {checklists.map((checklist) => {
+        const done = checklist.items.filter((item) => item.done).length;
+        return (
+          <div key={checklist.id} className="flex flex-col gap-2">
+            <div className="flex items-center gap-2">
+              <ListChecks className="w-4 h-4 shrink-0 text-muted-foreground/80" />
+              <input
+                className="flex-1 min-w-0 rounded-lg px-2 py-1 font-semibold text-foreground hover:bg-muted/50 focus:bg-card focus:outline-none focus:ring-2 focus:ring-blue-400"
+                value={checklist.title}
+                onChange={(e) =>
+                  onChange(
+                    updateChecklist(checklists, checklist.id, (c) => ({ ...c, title: e.target.value }))
+                  )
+                }
+                aria-label="Checklist title"
+                maxLength={100}
+              />
+              <button
+                className="p-1.5 rounded-full hover:bg-red-100 dark:hover:bg-red-500/20"
+                onClick={() => onChange(checklists.filter((c) => c.id !== checklist.id))}
+                aria-label={`Delete checklist ${checklist.title}`}
+              >
+                <Trash2 className="w-4 h-4 text-red-500" />
+              </button>
+            </div>
+            {checklist.items.length > 0 && (
+              <ChecklistProgress done={done} total={checklist.items.length} />
+            )}
+            <ul className="flex flex-col">
+              {checklist.items.map((item, index) => (
+                <li
+                  key={item.id}
+                  className={`group/item flex items-center gap-2 rounded-lg px-1 py-1 hover:bg-muted/50 ${
+                    dragging?.itemId === item.id ? "opacity-40" : ""
+                  }`}
+                  draggable={grabbedId === item.id}
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragging({ checklistId: checklist.id, itemId: item.id });
+                  }}
+                  onDragOver={(e) => {
+                    if (!dragging || dragging.checklistId !== checklist.id) return;
+                    e.preventDefault();
+                    if (dragging.itemId !== item.id) {
+                      onChange(moveChecklistItem(checklists, checklist.id, dragging.itemId, index));
+                    }
+                  }}
+                  onDrop={(e) => e.preventDefault()}
+                  onDragEnd={() => {
+                    setDragging(null);
+                    setGrabbedId(null);
+                  }}
+                >
+                  <GripVertical
+                    className="w-4 h-4 shrink-0 cursor-grab text-muted-foreground/50"
+                    onPointerDown={() => setGrabbedId(item.id)}
+                    onPointerUp={() => setGrabbedId(null)}
+                  />
+                  <Checkbox
+                    checked={item.done}
+                    onCheckedChange={(checked) =>
+                      onChange(
+                        updateChecklistItem(checklists, checklist.id, item.id, { done: checked === true })
+                      )
+                    }
+                    className="border-muted-foreground/30 data-[state=checked]:bg-emerald-500 data-[state=checked]:border-emerald-500 data-[state=checked]:text-white"
+                    aria-label={`Done: ${item.text}`}
+                  />
+                  <input
+                    className={`flex-1 min-w-0 bg-transparent rounded px-1 focus:outline-none focus:ring-2 focus:ring-blue-400 ${
+                      item.done ? "text-muted-foreground/80 line-through" : "text-foreground"
+                    }`}
+                    value={item.text}
+                    onChange={(e) =>
+                      onChange(
+                        updateChecklistItem(checklists, checklist.id, item.id, { text: e.target.value })
+                      )
+                    }
+                    onKeyDown={(e) => {
+                      if (!e.altKey || (e.key !== "ArrowUp" && e.key !== "ArrowDown")) return;
+                      e.preventDefault();
+                      const to = index + (e.key === "ArrowUp" ? -1 : 1);
+                      onChange(moveChecklistItem(checklists, checklist.id, item.id, to));
+                    }}
+                    aria-label="Item"
+                    maxLength={300}
+                  />
+                  <DueDateButton
+                    dueDate={item.dueDate}
+                    onChange={(dueDate) =>
+                      onChange(updateChecklistItem(checklists, checklist.id, item.id, { dueDate }))
+                    }
+                  />
+                  <div className="flex opacity-0 group-hover/item:opacity-100 group-focus-within/item:opacity-100 transition">
+                    <button
+                      className="p-1 rounded-full hover:bg-blue-100 dark:hover:bg-blue-500/20"
+                      onClick={() => convert(checklist.id, item)}
+                      aria-label={`Convert "${item.text}" to a card`}
+                      title="Convert to card"
+                    >
+                      <CopyPlus className="w-4 h-4 text-blue-500" />
+                    </button>
+                    <button
+                      className="p-1 rounded-full hover:bg-red-100 dark:hover:bg-red-500/20"
+                      onClick={() => onChange(removeChecklistItem(checklists, checklist.id, item.id))}
+                      aria-label={`Delete "${item.text}"`}
+                    >
+                      <X className="w-4 h-4 text-red-500" />
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <div className="flex gap-2 pl-7">
+              <input
+                className="flex-1 min-w-0 border-2 border-border rounded-xl px-3 py-1.5 focus:outline-none focus:ring-2 focus:ring-blue-400 text-foreground transition"
+                placeholder="Add an item..."
+                value={newItems[checklist.id] ?? ""}
+                onChange={(e) => setNewItems((prev) => ({ ...prev, [checklist.id]: e.target.value }))}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") addItem(checklist.id);
+                }}
+                aria-label={`New item in ${checklist.title}`}
+                maxLength={300}
+              />
+              <button
+                className="px-3 py-1.5 rounded-xl bg-blue-50 dark:bg-blue-500/10 text-blue-600 dark:text-blue-400 font-medium hover:bg-blue-100 dark:hover:bg-blue-500/20 transition"
+                onClick={() => addItem(checklist.id)}
+              >
+                Add
+              </button>
+            </div>
+          </div>
+        );
+      })}
+      <button
+        className="flex items-center gap-2 self-start rounded-xl border-2 border-dashed border-border px-3 py-1.5 text-muted-foreground hover:border-blue-300 dark:hover:border-blue-500/50 hover:bg-blue-50/50 dark:hover:bg-blue-500/10 transition"
+        onClick={() => onChange([...checklists, createChecklist()])}
+      >
+        <Plus className="w-4 h-4" />
+        Add checklist
+      </button>
+    </div>
+  );
+}
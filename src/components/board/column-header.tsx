@@ -0,0 +1,169 @@
+import { useState, type CSSProperties } from "react";
+import { Archive, Check, Gauge, MoreHorizontal, Palette, Pencil, Plus, Trash2 } from "lucide-react";
+import type { DraggableProvidedDragHandleProps } from "react-beautiful-dnd";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { COLUMN_THEMES, findColumnTheme, type ColumnTheme } from "@/lib/board/palette";
+import type { Column } from "@/lib/board/types";
+import { getWipStatus, type WipStatus } from "@/lib/board/wip";
+
+const WIP_BADGE: Record<WipStatus, string> = {
+  under: "bg-card/70 text-muted-foreground",
+  at: "bg-amber-100 dark:bg-amber-500/20 text-amber-700 dark:text-amber-300",
+  over: "bg-red-100 dark:bg-red-500/20 text-red-700 dark:text-red-400",
+};
+
+export type ColumnActions = {
+  onAddTask: () => void;
+  onRename: (title: string) => void;
+  onRecolor: (theme: ColumnTheme) => void;
+  onEditWipLimit: () => void;
+  onArchive: () => void;
+  onDelete: () => void;
+};
+
+type ColumnHeaderProps = ColumnActions & {
+  column: Column;
+  /** Cards in the column hidden by the current search. */
+  hiddenCount: number;
+  /** Makes the header the handle for dragging the column, when given. */
+  dragHandleProps?: DraggableProvidedDragHandleProps | null;
+  className?: string;
+  style?: CSSProperties;
+};
+
+/** A column's title, counts and menu, on the board and above swimlanes. */
+export function ColumnHeader({
+  column,
+  hiddenCount,
+  dragHandleProps,
+  className = "",
+  style,
+  onAddTask,
+  onRename,
+  onRecolor,
+  onEditWipLimit,
+  onArchive,
+  onDelete,
+}: ColumnHeaderProps) {
+  const [draftTitle, setDraftTitle] = useState<string | null>(null);
+  const currentTheme = findColumnTheme(column);
+  const wipStatus = getWipStatus(column);
+
+  const commitTitle = () => {
+    if (draftTitle === null) return;
+    const title = draftTitle.trim();
+    if (title && title !== column.title) onRename(title);
+    setDraftTitle(null);
+  };
+
+  return (
+    <div
+      tabIndex={0}
+      {...dragHandleProps}
+      data-column-id={column.id}
+      style={style}
+      className={`flex items-center justify-between gap-2 px-7 py-5 focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-blue-400 ${className}`}
+    >
+      <div className="flex items-center gap-3 min-w-0">
+        <span className={`w-4 h-4 shrink-0 rounded-full ${column.accent} shadow-md`}></span>
+        {draftTitle === null ? (
+          <h2
+            className="text-2xl font-bold text-foreground font-display drop-shadow-sm truncate"
+            onDoubleClick={() => setDraftTitle(column.title)}
+          >
+            {column.title}
+          </h2>
+        ) : (
+          <input
+            className="min-w-0 flex-1 rounded-lg border-2 border-blue-300 dark:border-blue-500/50 bg-card/90 px-2 py-0.5 text-xl font-bold text-foreground font-display focus:outline-none focus:ring-2 focus:ring-blue-400"
+            value={draftTitle}
+            onChange={(e) => setDraftTitle(e.target.value)}
+            onBlur={commitTitle}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitTitle();
+              if (e.key === "Escape") setDraftTitle(null);
+            }}
+            aria-label="Column title"
+            autoFocus
+            maxLength={60}
+          />
+        )}
+      </div>
+      <div className="flex items-center gap-1.5 shrink-0">
+        {hiddenCount > 0 && (
+          <span
+            className="rounded-full bg-card/70 px-2 py-0.5 text-xs font-semibold text-muted-foreground"
+            title="Cards hidden by the current search"
+          >
+            {hiddenCount} hidden
+          </span>
+        )}
+        {column.wipLimit && wipStatus && (
+          <span
+            className={`rounded-full px-2 py-0.5 text-xs font-semibold tabular-nums ${WIP_BADGE[wipStatus]}`}
+            title={`Work-in-progress limit (${
+              column.wipLimit.policy === "block" ? "blocks new cards" : "warns"
+            })`}
+          >
+            {column.taskIds.length}/{column.wipLimit.limit}
+          </span>
+        )}
+        <button
+          className="p-2 rounded-full bg-card/70 hover:bg-blue-100 dark:hover:bg-blue-500/20 shadow transition"
+          onClick={onAddTask}
+          aria-label="Add Task"
+        >
+          <Plus className="w-5 h-5 text-blue-500" />
+        </button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button
+              className="p-2 rounded-full bg-card/70 hover:bg-muted shadow transition"
+              aria-label="Column options"
+            >
+              <MoreHorizontal className="w-5 h-5 text-muted-foreground" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" onCloseAutoFocus={(e) => e.preventDefault()}>
+            <DropdownMenuItem onSelect={() => setDraftTitle(column.title)}>
+              <Pencil /> Rename
+            </DropdownMenuItem>
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger>
+                <Palette /> Color
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {COLUMN_THEMES.map((theme) => (
+                  <DropdownMenuItem key={theme.id} onSelect={() => onRecolor(theme)}>
+                    <span className={`w-3.5 h-3.5 rounded-full ${theme.style.accent}`} />
+                    {theme.name}
+                    {currentTheme?.id === theme.id && <Check className="ml-auto" />}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+            <DropdownMenuItem onSelect={onEditWipLimit}>
+              <Gauge /> WIP limit…
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={onArchive}>
+              <Archive /> Archive list
+            </DropdownMenuItem>
+            <DropdownMenuItem className="text-red-600 dark:text-red-400 focus:text-red-600" onSelect={onDelete}>
+              <Trash2 /> Delete list
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,85 @@
+import { useState } from "react";
+import type { Column } from "@/lib/board/types";
+
+type DeleteColumnDialogProps = {
+  column: Column;
+  /** Columns the deleted column's tasks can be moved to. */
+  targets: Column[];
+  onCancel: () => void;
+  onConfirm: (moveTasksTo?: string) => void;
+};
+
+export function DeleteColumnDialog({ column, targets, onCancel, onConfirm }: DeleteColumnDialogProps) {
+  const taskCount = column.taskIds.length;
+  const canMove = taskCount > 0 && targets.length > 0;
+  const [mode, setMode] = useState<"move" | "delete">(canMove ? "move" : "delete");
+  const [targetId, setTargetId] = useState(targets[0]?.id ?? "");
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center">
+      <div className="bg-card rounded-3xl shadow-2xl p-10 w-full max-w-md relative animate-fadeIn border-2 border-red-100 dark:border-red-500/30">
+        <h3 className="text-xl font-bold mb-4 text-foreground font-display">
+          Delete "{column.title}"?
+        </h3>
+        {taskCount === 0 ? (
+          <p className="text-muted-foreground mb-7 text-lg">This list is empty.</p>
+        ) : (
+          <div className="flex flex-col gap-3 mb-7 text-lg text-foreground/80">
+            <p className="text-muted-foreground">
+              It contains {taskCount} {taskCount === 1 ? "task" : "tasks"}. What should happen to{" "}
+              {taskCount === 1 ? "it" : "them"}?
+            </p>
+            {canMove && (
+              <label className="flex items-center gap-3">
+                <input
+                  type="radio"
+                  name="delete-column-mode"
+                  checked={mode === "move"}
+                  onChange={() => setMode("move")}
+                />
+                Move to
+                <select
+                  className="flex-1 border-2 border-border rounded-xl px-3 py-1.5 text-base focus:outline-none focus:ring-2 focus:ring-blue-400"
+                  value={targetId}
+                  onChange={(e) => {
+                    setTargetId(e.target.value);
+                    setMode("move");
+                  }}
+                >
+                  {targets.map((target) => (
+                    <option key={target.id} value={target.id}>
+                      {target.title}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-3">
+              <input
+                type="radio"
+                name="delete-column-mode"
+                checked={mode === "delete"}
+                onChange={() => setMode("delete")}
+              />
+              Delete {taskCount === 1 ? "it" : "them"} too
+            </label>
+          </div>
+        )}
+        <div className="flex justify-end gap-3">
+          <button
+            className="px-5 py-2.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition text-lg"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            className="px-5 py-2.5 rounded-xl bg-red-500 text-white font-semibold hover:bg-red-600 transition text-lg shadow"
+            onClick={() => onConfirm(mode === "move" && canMove ? targetId : undefined)}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
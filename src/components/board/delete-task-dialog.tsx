@@ -0,0 +1,45 @@
+import type { Task } from "@/lib/board/types";
+
+type DeleteTaskDialogProps = {
+  task: Task;
+  onCancel: () => void;
+  onConfirm: () => void;
+};
+
+/** Confirms deleting a card for good, rather than archiving it. */
+export function DeleteTaskDialog({ task, onCancel, onConfirm }: DeleteTaskDialogProps) {
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-black/40 flex items-center justify-center"
+      role="alertdialog"
+      aria-modal
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onCancel();
+      }}
+    >
+      <div className="bg-card rounded-3xl shadow-2xl p-10 w-full max-w-md relative animate-fadeIn border-2 border-red-100 dark:border-red-500/30">
+        <h3 className="text-xl font-bold mb-4 text-foreground font-display">
+          Delete "{task.content}"?
+        </h3>
+        <p className="text-muted-foreground mb-7 text-lg">
+          The card is removed for good rather than archived. You can undo this with Ctrl+Z.
+        </p>
+        <div className="flex justify-end gap-3">
+          <button
+            className="px-5 py-2.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition text-lg"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+          <button
+            className="px-5 py-2.5 rounded-xl bg-red-500 text-white font-semibold hover:bg-red-600 transition text-lg shadow"
+            onClick={onConfirm}
+            autoFocus
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+import { useMemo, useState } from "react";
+import { CalendarRange, Download } from "lucide-react";
+import type { DateRange as DayRange } from "react-day-picker";
+import { Area, AreaChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { Calendar } from "@/components/ui/calendar";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { formatDueDate, parseDueDate, toDueDate } from "@/lib/board/due";
+import {
+  burnChartCsv,
+  cumulativeFlowCsv,
+  getBurnChart,
+  getBurnScopes,
+  getCumulativeFlow,
+  getFlowSeries,
+  getRecentRange,
+  RANGE_PRESETS,
+  type DateRange,
+} from "@/lib/board/flow";
+import { getChartFileName } from "@/lib/board/transfer";
+import type { BoardData } from "@/lib/board/types";
+import { downloadFile } from "@/lib/download";
+import { ChartPanel } from "./chart-panel";
+
+type BurnMode = "burndown" | "burnup";
+
+const BURN_MODES: { id: BurnMode; name: string }[] = [
+  { id: "burndown", name: "Burndown" },
+  { id: "burnup", name: "Burnup" },
+];
+
+const burnConfig = {
+  remaining: { label: "Remaining", color: "hsl(var(--chart-1))" },
+  ideal: { label: "Ideal", color: "#94a3b8" },
+  scope: { label: "Scope", color: "#94a3b8" },
+  done: { label: "Done", color: "hsl(var(--chart-2))" },
+} satisfies ChartConfig;
+
+const axisProps = { tickLine: false, axisLine: false, tickMargin: 8 };
+
+const formatTick = (date: string) => formatDueDate(date);
+
+function RangePicker({
+  value,
+  onChange,
+}: {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+}) {
+  const [open, setOpen] = useState(false);
+  // The first click of a new range, until the second one ends it.
+  const [pending, setPending] = useState<DayRange | undefined>();
+
+  const select = (range: DateRange) => {
+    onChange(range);
+    setPending(undefined);
+    setOpen(false);
+  };
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        setPending(undefined);
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button className="flex items-center gap-2 rounded-xl border-2 border-border bg-card/90 px-3 py-1.5 text-sm font-medium text-foreground/80 hover:bg-muted transition">
+          <CalendarRange className="w-4 h-4" />
+          {formatDueDate(value.from)} – {formatDueDate(value.to)}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="flex w-auto gap-2 p-2">
+        <div className="flex flex-col gap-1 border-r border-border pr-2">
+          {RANGE_PRESETS.map((preset) => (
+            <button
+              key={preset.days}
+              className="rounded-lg px-3 py-1.5 text-left text-sm text-foreground/80 hover:bg-muted transition"
+              onClick={() => select(getRecentRange(preset.days))}
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+        <Calendar
+          mode="range"
+          numberOfMonths={2}
+          selected={pending ?? { from: parseDueDate(value.from), to: parseDueDate(value.to) }}
+          defaultMonth={parseDueDate(value.from)}
+          onSelect={(range, day) => {
+            // Every pick after a full range starts a new one.
+            if (!pending) return setPending({ from: day, to: undefined });
+            if (range?.from && range.to) {
+              select({ from: toDueDate(range.from), to: toDueDate(range.to) });
+            }
+          }}
+          disabled={{ after: new Date() }}
+          initialFocus
+        />
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ExportButton({ onExport }: { onExport: () => void }) {
+  return (
+    <button
+      className="flex items-center gap-1.5 rounded-xl border-2 border-border px-3 py-1.5 text-sm font-medium text-foreground/80 hover:bg-muted transition"
+      onClick={onExport}
+      title="Download the chart's data as CSV"
+    >
+      <Download className="w-4 h-4" />
+      CSV
+    </button>
+  );
+}
+
+/**
+ * The cumulative flow diagram and a burndown or burnup chart, over a chosen
+ * range of days, each with its data as a CSV download.
+ */
+export function FlowCharts({ board, boardName }: { board: BoardData; boardName: string }) {
+  const [range, setRange] = useState(() => getRecentRange(30));
+  const [scopeId, setScopeId] = useState("all");
+  const [burnMode, setBurnMode] = useState<BurnMode>("burndown");
+
+  const series = useMemo(() => getFlowSeries(board), [board]);
+  const flow = useMemo(() => getCumulativeFlow(board, range), [board, range]);
+  const scopes = useMemo(() => getBurnScopes(board), [board]);
+  const scope = scopes.find((option) => option.id === scopeId) ?? scopes[0];
+  const burn = useMemo(() => getBurnChart(board, scope.taskIds, range), [board, scope, range]);
+
+  const flowConfig = Object.fromEntries(
+    series.map((s) => [s.columnId, { label: s.title, color: s.color }])
+  ) satisfies ChartConfig;
+  const flowData = flow.map((day) => ({ date: day.date, ...day.counts }));
+
+  const exportChart = (chart: string, contents: string) =>
+    downloadFile(getChartFileName(boardName, chart, range.from, range.to), contents, "text/csv");
+
+  return (
+    <div className="flex flex-col gap-6">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-2xl font-bold text-foreground font-display">Flow</h2>
+        <div className="ml-auto">
+          <RangePicker value={range} onChange={setRange} />
+        </div>
+      </div>
+      <ChartPanel
+        title="Cumulative flow"
+        description="Cards in each list at the end of every day; a widening band is a queue."
+        empty={series.length > 0 ? null : "This board has no lists."}
+        actions={
+          <ExportButton
+            onExport={() => exportChart("cumulative-flow", cumulativeFlowCsv(flow, series))}
+          />
+        }
+      >
+        <ChartContainer config={flowConfig} className="aspect-auto h-[300px] w-full">
+          <AreaChart data={flowData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickFormatter={formatTick} minTickGap={24} {...axisProps} />
+            <YAxis allowDecimals={false} width={28} {...axisProps} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={formatTick} />} />
+            {series.map((s) => (
+              <Area
+                key={s.columnId}
+                dataKey={s.columnId}
+                type="linear"
+                stackId="flow"
+                stroke={`var(--color-${s.columnId})`}
+                fill={`var(--color-${s.columnId})`}
+                fillOpacity={0.5}
+              />
+            ))}
+            <ChartLegend content={<ChartLegendContent />} />
+          </AreaChart>
+        </ChartContainer>
+      </ChartPanel>
+      <ChartPanel
+        title={BURN_MODES.find((mode) => mode.id === burnMode)?.name ?? ""}
+        description={
+          burnMode === "burndown"
+            ? "Cards of the set still to finish, against a steady pace to none by the last day."
+            : "Cards of the set finished, against how many there were."
+        }
+        empty={null}
+        actions={
+          <div className="flex flex-wrap items-center gap-2">
+            <select
+              className="rounded-xl border-2 border-border px-3 py-1.5 text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+              value={scope.id}
+              onChange={(e) => setScopeId(e.target.value)}
+              aria-label="Cards to follow"
+            >
+              {scopes.map((option) => (
+                <option key={option.id} value={option.id}>
+                  {option.name}
+                </option>
+              ))}
+            </select>
+            <div
+              className="flex items-center gap-0.5 rounded-xl border-2 border-border p-0.5"
+              role="radiogroup"
+              aria-label="Chart"
+            >
+              {BURN_MODES.map((mode) => (
+                <button
+                  key={mode.id}
+                  className={`rounded-lg px-3 py-1 text-sm font-medium transition ${
+                    mode.id === burnMode ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300" : "text-muted-foreground hover:bg-muted"
+                  }`}
+                  onClick={() => setBurnMode(mode.id)}
+                  role="radio"
+                  aria-checked={mode.id === burnMode}
+                >
+                  {mode.name}
+                </button>
+              ))}
+            </div>
+            <ExportButton onExport={() => exportChart(burnMode, burnChartCsv(burn))} />
+          </div>
+        }
+      >
+        <ChartContainer config={burnConfig} className="aspect-auto h-[300px] w-full">
+          <LineChart data={burn}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="date" tickFormatter={formatTick} minTickGap={24} {...axisProps} />
+            <YAxis allowDecimals={false} width={28} {...axisProps} />
+            <ChartTooltip content={<ChartTooltipContent labelFormatter={formatTick} />} />
+            {burnMode === "burndown" ? (
+              <>
+                <Line
+                  dataKey="ideal"
+                  stroke="var(--color-ideal)"
+                  strokeDasharray="6 4"
+                  dot={false}
+                />
+                <Line
+                  dataKey="remaining"
+                  stroke="var(--color-remaining)"
+                  strokeWidth={2}
+                  dot={false}
+                />
+              </>
+            ) : (
+              <>
+                <Line
+                  dataKey="scope"
+                  stroke="var(--color-scope)"
+                  strokeDasharray="6 4"
+                  dot={false}
+                />
+                <Line dataKey="done" stroke="var(--color-done)" strokeWidth={2} dot={false} />
+              </>
+            )}
+            <ChartLegend content={<ChartLegendContent />} />
+          </LineChart>
+        </ChartContainer>
+      </ChartPanel>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useMemo, useRef, useState } from "react";
+import { FileUp, Upload } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import {
+  countBoardContents,
+  getCollidingTaskIds,
+  mergeBoardData,
+  parseBoardFile,
+  summarizeImport,
+  type CollisionStrategy,
+  type ImportedBoard,
+  type ImportMode,
+  type ImportSummary,
+} from "@/lib/board/transfer";
+import type { BoardData } from "@/lib/board/types";
+
+const MODES: { id: ImportMode; name: string; description: string }[] = [
+  { id: "merge", name: "Merge", description: "Add the imported lists, labels and tasks to this board" },
+  { id: "replace", name: "Replace", description: "Swap this board's contents for the imported board" },
+];
+
+const COLLISIONS: { id: CollisionStrategy; name: string }[] = [
+  { id: "copy", name: "Keep both" },
+  { id: "overwrite", name: "Overwrite existing" },
+  { id: "skip", name: "Skip" },
+];
+
+const SUMMARY_LINES: [keyof ImportSummary, string, string][] = [
+  ["tasksAdded", "task added", "tasks added"],
+  ["tasksUpdated", "task updated", "tasks updated"],
+  ["tasksRemoved", "task removed", "tasks removed"],
+  ["columnsAdded", "list added", "lists added"],
+  ["columnsRemoved", "list removed", "lists removed"],
+  ["labelsAdded", "label added", "labels added"],
+];
+
+type ImportBoardDialogProps = {
+  board: BoardData;
+  onImport: (data: BoardData, mode: ImportMode) => void;
+  onClose: () => void;
+};
+
+export function ImportBoardDialog({ board, onImport, onClose }: ImportBoardDialogProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [imported, setImported] = useState<ImportedBoard | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [collisions, setCollisions] = useState<CollisionStrategy>("copy");
+
+  const readFile = async (file: File) => {
+    setFileName(file.name);
+    setImported(null);
+    setError(null);
+    try {
+      setImported(parseBoardFile(await file.text()));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "This file can't be imported.");
+    }
+  };
+
+  const collisionCount = imported ? getCollidingTaskIds(board, imported.data).length : 0;
+  const result = useMemo(() => {
+    if (!imported) return null;
+    return mode === "replace" ? imported.data : mergeBoardData(board, imported.data, collisions);
+  }, [board, imported, mode, collisions]);
+  const summary = result ? summarizeImport(board, result) : null;
+  const changes = summary ? SUMMARY_LINES.filter(([key]) => summary[key] > 0) : [];
+  const contents = imported ? countBoardContents(imported.data) : null;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-xl rounded-3xl sm:rounded-3xl p-10 border-2 border-blue-100 dark:border-blue-500/30 max-h-[90vh] overflow-y-auto">
+        <DialogTitle className="text-2xl font-bold text-foreground font-display">Import board</DialogTitle>
+        <DialogDescription className="-mt-2 text-muted-foreground/80">
+          From a JSON file exported by this app or by Trello.
+        </DialogDescription>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) readFile(file);
+            e.target.value = "";
+          }}
+        />
+        <button
+          className="flex flex-col items-center gap-2 rounded-2xl border-2 border-dashed border-muted-foreground/30 px-6 py-8 text-muted-foreground hover:border-blue-300 dark:hover:border-blue-500/50 hover:bg-blue-50/50 dark:hover:bg-blue-500/10 transition"
+          onClick={() => fileInput.current?.click()}
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => {
+            e.preventDefault();
+            const file = e.dataTransfer.files[0];
+            if (file) readFile(file);
+          }}
+        >
+          <FileUp className="w-8 h-8 text-muted-foreground/80" />
+          <span className="font-medium">{fileName ?? "Choose a file or drop it here"}</span>
+        </button>
+        {error && <p className="text-sm font-medium text-red-600 dark:text-red-400">{error}</p>}
+        {imported && summary && contents && (
+          <div className="flex flex-col gap-5">
+            <p className="text-foreground/80">
+              <span className="font-semibold">{imported.name}</span> has {contents.tasks} tasks in{" "}
+              {contents.columns} lists
+              {contents.archivedTasks + contents.archivedColumns > 0 &&
+                `, plus ${contents.archivedTasks} archived tasks and ` +
+                  `${contents.archivedColumns} archived lists`}
+              .
+            </p>
+            {imported.notes.length > 0 && (
+              <div className="rounded-xl border-2 border-amber-100 dark:border-amber-500/30 bg-amber-50 dark:bg-amber-500/10 px-4 py-3 text-sm text-amber-800 dark:text-amber-300">
+                <div className="mb-1 font-semibold">Not everything could be imported</div>
+                <ul className="list-disc pl-5">
+                  {imported.notes.map((note) => (
+                    <li key={note}>{note}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            <div className="flex flex-col gap-2" role="radiogroup" aria-label="Import mode">
+              {MODES.map((option) => (
+                <button
+                  key={option.id}
+                  className={`rounded-xl border-2 px-4 py-3 text-left transition ${
+                    mode === option.id ? "border-blue-400 bg-blue-50 dark:bg-blue-500/10" : "border-border hover:bg-muted/50"
+                  }`}
+                  onClick={() => setMode(option.id)}
+                  role="radio"
+                  aria-checked={mode === option.id}
+                >
+                  <div className="font-semibold text-foreground">{option.name}</div>
+                  <div className="text-sm text-muted-foreground">{option.description}</div>
+                </button>
+              ))}
+            </div>
+            {mode === "merge" && collisionCount > 0 && (
+              <div className="flex flex-col gap-2">
+                <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                  {collisionCount} {collisionCount === 1 ? "task is" : "tasks are"} already on this board
+                </span>
+                <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Existing tasks">
+                  {COLLISIONS.map((option) => (
+                    <button
+                      key={option.id}
+                      className={`rounded-full border px-3 py-1 text-sm font-semibold transition ${
+                        collisions === option.id
+                          ? "border-blue-300 dark:border-blue-500/50 bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300"
+                          : "border-border text-muted-foreground hover:bg-muted/50"
+                      }`}
+                      onClick={() => setCollisions(option.id)}
+                      role="radio"
+                      aria-checked={collisions === option.id}
+                    >
+                      {option.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div className="rounded-xl bg-muted/50 px-4 py-3 text-sm text-foreground/80">
+              {changes.length > 0 ? (
+                <ul className="flex flex-col gap-1">
+                  {changes.map(([key, one, many]) => (
+                    <li key={key} className={key.endsWith("Removed") ? "text-red-600 dark:text-red-400" : undefined}>
+                      {summary[key]} {summary[key] === 1 ? one : many}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                "Nothing will change."
+              )}
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end gap-3 mt-2">
+          <button
+            className="px-5 py-2.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition text-lg"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            className={`px-5 py-2.5 rounded-xl font-semibold flex items-center gap-2 text-lg transition shadow ${
+              result && changes.length > 0
+                ? "bg-blue-500 text-white hover:bg-blue-600"
+                : "bg-blue-200 dark:bg-blue-500/30 text-white cursor-not-allowed"
+            }`}
+            onClick={() => result && onImport(result, mode)}
+            disabled={!result || changes.length === 0}
+          >
+            <Upload className="w-5 h-5" />
+            Import
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
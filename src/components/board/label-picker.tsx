@@ -0,0 +1,136 @@
+import { useState } from "react";
+import { Check, Plus, Tag, Trash2 } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { createId } from "@/lib/board/operations";
+import { getLabelColor, LABEL_COLORS } from "@/lib/board/palette";
+import type { Label } from "@/lib/board/types";
+
+type LabelPickerProps = {
+  labels: Label[];
+  selectedIds: string[];
+  onChange: (labelIds: string[]) => void;
+  onCreateLabel: (label: Label) => void;
+  onDeleteLabel: (labelId: string) => void;
+};
+
+export function LabelBadge({ label }: { label: Label }) {
+  return (
+    <span
+      className={`inline-flex items-center rounded-full px-2.5 py-0.5 text-xs font-semibold ${getLabelColor(label.color).badge}`}
+    >
+      {label.name}
+    </span>
+  );
+}
+
+export function LabelPicker({
+  labels,
+  selectedIds,
+  onChange,
+  onCreateLabel,
+  onDeleteLabel,
+}: LabelPickerProps) {
+  const [name, setName] = useState("");
+  const [color, setColor] = useState(LABEL_COLORS[0].id);
+
+  const toggle = (labelId: string) =>
+    onChange(
+      selectedIds.includes(labelId)
+        ? selectedIds.filter((id) => id !== labelId)
+        : [...selectedIds, labelId]
+    );
+
+  const create = () => {
+    if (!name.trim()) return;
+    const label = { id: createId("label"), name: name.trim(), color };
+    onCreateLabel(label);
+    onChange([...selectedIds, label.id]);
+    setName("");
+  };
+
+  const selected = labels.filter((label) => selectedIds.includes(label.id));
+
+  return (
+    <div className="flex flex-col gap-2">
+      {selected.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {selected.map((label) => (
+            <LabelBadge key={label.id} label={label} />
+          ))}
+        </div>
+      )}
+      <Popover>
+        <PopoverTrigger asChild>
+          <button className="flex items-center gap-2 rounded-xl border-2 border-border px-3 py-2 text-foreground/80 hover:bg-muted/50 transition">
+            <Tag className="w-4 h-4" />
+            Edit labels
+          </button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 p-3">
+          <div className="flex flex-col gap-1 max-h-60 overflow-y-auto">
+            {labels.length === 0 && (
+              <div className="py-2 text-center text-sm italic text-muted-foreground/80">No labels yet</div>
+            )}
+            {labels.map((label) => (
+              <div key={label.id} className="group flex items-center gap-2">
+                <button
+                  className="flex flex-1 items-center gap-2 rounded-lg px-1.5 py-1 hover:bg-muted"
+                  onClick={() => toggle(label.id)}
+                  role="checkbox"
+                  aria-checked={selectedIds.includes(label.id)}
+                >
+                  <span className="w-4">
+                    {selectedIds.includes(label.id) && <Check className="w-4 h-4 text-blue-500" />}
+                  </span>
+                  <LabelBadge label={label} />
+                </button>
+                <button
+                  className="p-1 rounded-full opacity-0 group-hover:opacity-100 hover:bg-red-100 dark:hover:bg-red-500/20 transition"
+                  onClick={() => onDeleteLabel(label.id)}
+                  aria-label={`Delete label ${label.name}`}
+                  title="Delete from board"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-red-500" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex flex-col gap-2 border-t border-border pt-3">
+            <input
+              className="w-full rounded-lg border-2 border-border px-2.5 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-400"
+              placeholder="New label name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") create();
+              }}
+              maxLength={30}
+            />
+            <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Label color">
+              {LABEL_COLORS.map((option) => (
+                <button
+                  key={option.id}
+                  className={`w-6 h-6 rounded-full ${option.badge} ${
+                    option.id === color ? "ring-2 ring-offset-1 ring-offset-background ring-muted-foreground" : ""
+                  }`}
+                  onClick={() => setColor(option.id)}
+                  role="radio"
+                  aria-checked={option.id === color}
+                  aria-label={option.name}
+                />
+              ))}
+            </div>
+            <button
+              className="flex items-center justify-center gap-1.5 rounded-lg bg-blue-500 px-3 py-1.5 text-sm font-semibold text-white hover:bg-blue-600 disabled:bg-blue-200 dark:disabled:bg-blue-500/30 transition"
+              onClick={create}
+              disabled={!name.trim()}
+            >
+              <Plus className="w-4 h-4" />
+              Create label
+            </button>
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
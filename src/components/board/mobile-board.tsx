@@ -0,0 +1,161 @@
+import { useEffect, useRef, useState } from "react";
+import { Droppable, type DroppableProvided } from "react-beautiful-dnd";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  type CarouselApi,
+} from "@/components/ui/carousel";
+import type { ColumnTheme } from "@/lib/board/palette";
+import type { BoardData } from "@/lib/board/types";
+import { getWipStatus } from "@/lib/board/wip";
+import { AddColumn } from "./add-column";
+import { ColumnHeader, type ColumnActions } from "./column-header";
+import { MoveCardSheet } from "./move-card-sheet";
+import { TaskCard } from "./task-card";
+
+type MobileBoardProps = {
+  board: BoardData;
+  /** The tasks of each column that pass the current filter, in board order. */
+  visibleTaskIds: Record<string, string[]>;
+  highlightTerms: string[];
+  getColumnActions: (columnId: string) => ColumnActions;
+  onEditTask: (taskId: string, columnId: string) => void;
+  onArchiveTask: (taskId: string) => void;
+  onFocusTask: (taskId: string) => void;
+  onMoveTask: (taskId: string, columnId: string) => void;
+  onAddColumn: (title: string, theme: ColumnTheme) => void;
+};
+
+/**
+ * The board on a phone: one list per screen, swiped between or picked from
+ * the tabs above. Cards are moved by holding them and choosing a list.
+ */
+export function MobileBoard({
+  board,
+  visibleTaskIds,
+  highlightTerms,
+  getColumnActions,
+  onEditTask,
+  onArchiveTask,
+  onFocusTask,
+  onMoveTask,
+  onAddColumn,
+}: MobileBoardProps) {
+  const [api, setApi] = useState<CarouselApi>();
+  const [current, setCurrent] = useState(0);
+  const [moving, setMoving] = useState<{ taskId: string; columnId: string } | null>(null);
+  const tabs = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => setCurrent(api.selectedScrollSnap());
+    onSelect();
+    api.on("select", onSelect).on("reInit", onSelect);
+    return () => {
+      api.off("select", onSelect).off("reInit", onSelect);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    tabs.current
+      ?.querySelector('[aria-selected="true"]')
+      ?.scrollIntoView({ block: "nearest", inline: "nearest", behavior: "smooth" });
+  }, [current]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div ref={tabs} className="flex gap-2 overflow-x-auto pb-1" role="tablist" aria-label="Lists">
+        {board.columnOrder.map((columnId, index) => {
+          const column = board.columns[columnId];
+          const selected = index === current;
+          return (
+            <button
+              key={columnId}
+              className={`flex shrink-0 items-center gap-2 rounded-full border-2 px-3 py-1.5 text-sm font-semibold transition ${
+                selected
+                  ? `${column.border} bg-card text-foreground shadow`
+                  : "border-transparent bg-card/50 text-muted-foreground"
+              }`}
+              onClick={() => api?.scrollTo(index)}
+              role="tab"
+              aria-selected={selected}
+            >
+              <span className={`w-2.5 h-2.5 rounded-full ${column.accent}`} />
+              {column.title}
+              <span className="tabular-nums text-muted-foreground/80">
+                {visibleTaskIds[columnId].length}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <Carousel setApi={setApi} opts={{ align: "start" }}>
+        <CarouselContent>
+          {board.columnOrder.map((columnId) => {
+            const column = board.columns[columnId];
+            const hiddenCount = column.taskIds.length - visibleTaskIds[columnId].length;
+            return (
+              <CarouselItem key={columnId}>
+                <div
+                  className={`flex flex-col rounded-3xl border-2 ${column.border} ${column.gradient} ${column.shadow} ${
+                    getWipStatus(column) === "over" ? "ring-4 ring-red-300" : ""
+                  }`}
+                >
+                  <ColumnHeader
+                    column={column}
+                    hiddenCount={hiddenCount}
+                    className="rounded-t-3xl"
+                    {...getColumnActions(columnId)}
+                  />
+                  <Droppable droppableId={columnId} type="TASK" isDropDisabled>
+                    {(provided: DroppableProvided) => (
+                      <div
+                        ref={provided.innerRef}
+                        {...provided.droppableProps}
+                        className="flex-1 px-4 pb-5 min-h-[80px]"
+                      >
+                        {visibleTaskIds[columnId].length === 0 && (
+                          <div className="text-muted-foreground/80 text-center py-10 select-none italic font-medium">
+                            {hiddenCount > 0 ? "No matching tasks" : "No tasks"}
+                          </div>
+                        )}
+                        {visibleTaskIds[columnId].map((taskId, index) => (
+                          <TaskCard
+                            key={taskId}
+                            task={board.tasks[taskId]}
+                            columnId={columnId}
+                            labels={board.labels}
+                            highlightTerms={highlightTerms}
+                            index={index}
+                            density={board.appearance.density}
+                            showBadges={board.appearance.showBadges}
+                            onEdit={() => onEditTask(taskId, columnId)}
+                            onArchive={() => onArchiveTask(taskId)}
+                            onFocus={() => onFocusTask(taskId)}
+                            onLongPress={() => setMoving({ taskId, columnId })}
+                          />
+                        ))}
+                        {provided.placeholder}
+                      </div>
+                    )}
+                  </Droppable>
+                </div>
+              </CarouselItem>
+            );
+          })}
+          <CarouselItem>
+            <AddColumn onAdd={onAddColumn} />
+          </CarouselItem>
+        </CarouselContent>
+      </Carousel>
+      <MoveCardSheet
+        board={board}
+        task={moving ? (board.tasks[moving.taskId] ?? null) : null}
+        columnId={moving?.columnId ?? null}
+        onMove={(columnId) => moving && onMoveTask(moving.taskId, columnId)}
+        onClose={() => setMoving(null)}
+      />
+    </div>
+  );
+}
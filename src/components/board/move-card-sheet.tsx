@@ -0,0 +1,65 @@
+import { Check } from "lucide-react";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import type { BoardData, Task } from "@/lib/board/types";
+
+type MoveCardSheetProps = {
+  board: BoardData;
+  /** The card being moved, or null while the sheet is closed. */
+  task: Task | null;
+  /** The list the card is in now. */
+  columnId: string | null;
+  onMove: (columnId: string) => void;
+  onClose: () => void;
+};
+
+/** Picks a list to send a card to, for screens too narrow to drag across. */
+export function MoveCardSheet({ board, task, columnId, onMove, onClose }: MoveCardSheetProps) {
+  return (
+    <Sheet open={task !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent side="bottom" className="flex max-h-[80vh] flex-col gap-4 rounded-t-3xl">
+        <SheetHeader className="text-left">
+          <SheetTitle className="text-xl font-bold text-foreground font-display">Move card</SheetTitle>
+          <SheetDescription className="truncate">{task?.content}</SheetDescription>
+        </SheetHeader>
+        <ul className="flex flex-col gap-2 overflow-y-auto">
+          {board.columnOrder.map((id) => {
+            const column = board.columns[id];
+            const current = id === columnId;
+            return (
+              <li key={id}>
+                <button
+                  className={`flex w-full items-center gap-3 rounded-xl border-2 px-4 py-3 text-left transition ${
+                    current
+                      ? "border-blue-300 dark:border-blue-500/50 bg-blue-50 dark:bg-blue-500/10"
+                      : "border-border hover:bg-muted"
+                  }`}
+                  onClick={() => {
+                    if (!current) onMove(id);
+                    onClose();
+                  }}
+                  aria-current={current}
+                >
+                  <span className={`w-3 h-3 shrink-0 rounded-full ${column.accent}`} />
+                  <span className="flex-1 min-w-0 truncate font-medium text-foreground">
+                    {column.title}
+                  </span>
+                  <span className="text-sm tabular-nums text-muted-foreground">
+                    {column.taskIds.length}
+                    {column.wipLimit && ` / ${column.wipLimit.limit}`}
+                  </span>
+                  {current && <Check className="w-4 h-4 text-blue-500" />}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+}
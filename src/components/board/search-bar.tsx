@@ -0,0 +1,91 @@
+import { forwardRef } from "react";
+import { CircleHelp, Search, X } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+
+const SYNTAX_HELP: [string, string][] = [
+  ["login bug", "Title or description contains both words"],
+  ['"exact phrase"', "Contains the phrase"],
+  ["label:bug,design", "Has any of these labels"],
+  ["priority:high", "low, medium, high or urgent"],
+  ['assignee:"Ada L"', "Assigned to any of these people"],
+  ["assignee:@me", "Assigned to you, once your name is set"],
+  ["epic:onboarding", "In any of these epics"],
+  ["due:<7d", "Due within 7 days (also >, <=, >=, w for weeks)"],
+  ["due:today", "Due today (also due:none, due:any)"],
+  ["is:overdue", "Past its due date"],
+  ["has:description", "Also due, labels, priority, checklist, assignee, epic"],
+  ["-label:bug", "Prefix any term with - to exclude"],
+];
+
+type SearchBarProps = {
+  value: string;
+  onChange: (value: string) => void;
+  errors: string[];
+  /** Cards hidden by the current query, across all columns. */
+  hiddenCount: number;
+};
+
+export const SearchBar = forwardRef<HTMLInputElement, SearchBarProps>(
+  ({ value, onChange, errors, hiddenCount }, ref) => (
+    <div className="relative flex flex-col gap-1 w-full max-w-md">
+      <div className="flex items-center gap-2 rounded-xl border-2 border-border bg-card/90 px-3 py-2 focus-within:ring-2 focus-within:ring-blue-400 transition">
+        <Search className="w-5 h-5 shrink-0 text-muted-foreground/80" />
+        <input
+          ref={ref}
+          className="min-w-0 flex-1 bg-transparent text-foreground focus:outline-none"
+          placeholder="Search or filter, e.g. label:bug due:<7d"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              onChange("");
+              e.currentTarget.blur();
+            }
+          }}
+          aria-label="Search tasks"
+          spellCheck={false}
+        />
+        {value && (
+          <>
+            {hiddenCount > 0 && (
+              <span className="shrink-0 text-xs font-semibold text-muted-foreground/80">{hiddenCount} hidden</span>
+            )}
+            <button
+              className="p-1 rounded-full hover:bg-muted"
+              onClick={() => onChange("")}
+              aria-label="Clear search"
+            >
+              <X className="w-4 h-4 text-muted-foreground/80" />
+            </button>
+          </>
+        )}
+        <Popover>
+          <PopoverTrigger asChild>
+            <button className="p-1 rounded-full hover:bg-muted" aria-label="Search syntax">
+              <CircleHelp className="w-4 h-4 text-muted-foreground/80" />
+            </button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-96">
+            <div className="mb-2 font-semibold text-foreground">Search syntax</div>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1.5 text-sm">
+              {SYNTAX_HELP.map(([example, meaning]) => (
+                <div key={example} className="contents">
+                  <dt>
+                    <code className="rounded bg-muted px-1.5 py-0.5 font-mono text-xs">{example}</code>
+                  </dt>
+                  <dd className="text-muted-foreground">{meaning}</dd>
+                </div>
+              ))}
+            </dl>
+          </PopoverContent>
+        </Popover>
+      </div>
+      {errors.length > 0 && (
+        <div className="absolute top-full left-0 mt-1 text-xs font-medium text-amber-600">
+          {errors.join(" · ")}
+        </div>
+      )}
+    </div>
+  )
+);
+SearchBar.displayName = "SearchBar";
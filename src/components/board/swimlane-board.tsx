@@ -0,0 +1,326 @@
+import { useState } from "react";
+import {
+  ArrowDown,
+  ArrowUp,
+  Check,
+  ChevronDown,
+  ChevronRight,
+  MoreHorizontal,
+  Pencil,
+  Plus,
+  Trash2,
+  X,
+} from "lucide-react";
+import {
+  Droppable,
+  type DroppableProvided,
+  type DroppableStateSnapshot,
+} from "react-beautiful-dnd";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { getCellId, NO_LANE, type Swimlane, type SwimlaneField } from "@/lib/board/swimlanes";
+import type { BoardData } from "@/lib/board/types";
+import { getWipStatus } from "@/lib/board/wip";
+import { ColumnHeader, type ColumnActions } from "./column-header";
+import { TaskCard } from "./task-card";
+
+export type LaneActions = {
+  onRenameLane: (laneId: string, title: string) => void;
+  onMoveLane: (laneId: string, offset: -1 | 1) => void;
+  onDeleteLane: (laneId: string) => void;
+  onAddLane: (title: string) => void;
+};
+
+type SwimlaneBoardProps = LaneActions & {
+  board: BoardData;
+  field: SwimlaneField;
+  lanes: Swimlane[];
+  /** The cards of each cell that pass the current filter, keyed by `getCellId`. */
+  cells: Record<string, string[]>;
+  highlightTerms: string[];
+  collapsedLaneIds: string[];
+  onToggleLane: (laneId: string) => void;
+  getColumnActions: (columnId: string) => ColumnActions;
+  onEditTask: (taskId: string, columnId: string) => void;
+  onArchiveTask: (taskId: string) => void;
+  onFocusTask: (taskId: string) => void;
+};
+
+function LaneTitleInput({
+  initialTitle,
+  placeholder,
+  onSubmit,
+  onCancel,
+}: {
+  initialTitle: string;
+  placeholder: string;
+  onSubmit: (title: string) => void;
+  onCancel: () => void;
+}) {
+  const [title, setTitle] = useState(initialTitle);
+  const submit = () => {
+    if (title.trim()) onSubmit(title.trim());
+    else onCancel();
+  };
+
+  return (
+    <div className="flex items-center gap-1.5">
+      <input
+        className="w-64 rounded-lg border-2 border-blue-300 dark:border-blue-500/50 bg-card/90 px-2 py-1 font-semibold text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400"
+        placeholder={placeholder}
+        value={title}
+        onChange={(e) => setTitle(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") submit();
+          if (e.key === "Escape") onCancel();
+        }}
+        aria-label="Lane title"
+        autoFocus
+        maxLength={60}
+      />
+      <button
+        className="p-1.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-500/20"
+        onClick={submit}
+        aria-label="Save lane"
+      >
+        <Check className="w-4 h-4 text-blue-500" />
+      </button>
+      <button
+        className="p-1.5 rounded-full hover:bg-border"
+        onClick={onCancel}
+        aria-label="Cancel"
+      >
+        <X className="w-4 h-4 text-muted-foreground" />
+      </button>
+    </div>
+  );
+}
+
+function LaneHeader({
+  lane,
+  count,
+  collapsed,
+  editable,
+  isFirst,
+  isLast,
+  onToggle,
+  onRename,
+  onMove,
+  onDelete,
+}: {
+  lane: Swimlane;
+  count: number;
+  collapsed: boolean;
+  /** Manual lanes can be renamed, reordered and deleted. */
+  editable: boolean;
+  isFirst: boolean;
+  isLast: boolean;
+  onToggle: () => void;
+  onRename: (title: string) => void;
+  onMove: (offset: -1 | 1) => void;
+  onDelete: () => void;
+}) {
+  const [renaming, setRenaming] = useState(false);
+  const Chevron = collapsed ? ChevronRight : ChevronDown;
+
+  return (
+    <div className="sticky left-0 flex w-fit items-center gap-2">
+      {renaming ? (
+        <LaneTitleInput
+          initialTitle={lane.title}
+          placeholder="Lane title..."
+          onSubmit={(title) => {
+            if (title !== lane.title) onRename(title);
+            setRenaming(false);
+          }}
+          onCancel={() => setRenaming(false)}
+        />
+      ) : (
+        <button
+          className="flex items-center gap-2 rounded-xl px-2 py-1 text-lg font-semibold text-foreground hover:bg-card/60 transition"
+          onClick={onToggle}
+          aria-expanded={!collapsed}
+        >
+          <Chevron className="w-5 h-5 text-muted-foreground/80" />
+          {lane.badge ? (
+            <span className={`rounded-full px-2.5 py-0.5 text-sm ${lane.badge}`}>{lane.title}</span>
+          ) : (
+            <span className={lane.id === NO_LANE ? "italic text-muted-foreground" : ""}>{lane.title}</span>
+          )}
+          <span className="rounded-full bg-card/70 px-2 py-0.5 text-xs font-semibold text-muted-foreground">
+            {count}
+          </span>
+        </button>
+      )}
+      {editable && !renaming && (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <button className="p-1.5 rounded-full hover:bg-card/60" aria-label="Lane options">
+              <MoreHorizontal className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start" onCloseAutoFocus={(e) => e.preventDefault()}>
+            <DropdownMenuItem onSelect={() => setRenaming(true)}>
+              <Pencil /> Rename
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={isFirst} onSelect={() => onMove(-1)}>
+              <ArrowUp /> Move up
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={isLast} onSelect={() => onMove(1)}>
+              <ArrowDown /> Move down
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem className="text-red-600 dark:text-red-400 focus:text-red-600" onSelect={onDelete}>
+              <Trash2 /> Delete lane
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+    </div>
+  );
+}
+
+/**
+ * The board split into swimlanes: column headers across the top, then one
+ * row of cells per lane. Each cell is its own drop target, so a drag can
+ * change the card's column, its lane, or both.
+ */
+export function SwimlaneBoard({
+  board,
+  field,
+  lanes,
+  cells,
+  highlightTerms,
+  collapsedLaneIds,
+  onToggleLane,
+  getColumnActions,
+  onEditTask,
+  onArchiveTask,
+  onFocusTask,
+  onRenameLane,
+  onMoveLane,
+  onDeleteLane,
+  onAddLane,
+}: SwimlaneBoardProps) {
+  const [addingLane, setAddingLane] = useState(false);
+  const manual = field === "manual";
+  const { columnWidth, density, showBadges } = board.appearance;
+
+  return (
+    <div className="overflow-x-auto pb-4">
+      <div className="flex w-max flex-col gap-6">
+        <div className="flex items-start gap-8">
+          {board.columnOrder.map((columnId) => {
+            const column = board.columns[columnId];
+            const visible = lanes.reduce(
+              (sum, lane) => sum + cells[getCellId(columnId, lane.id)].length,
+              0
+            );
+            return (
+              <ColumnHeader
+                key={columnId}
+                column={column}
+                hiddenCount={column.taskIds.length - visible}
+                style={{ width: columnWidth }}
+                className={`shrink-0 rounded-3xl border-2 ${column.border} ${column.gradient} ${
+                  column.shadow
+                } ${getWipStatus(column) === "over" ? "ring-4 ring-red-300" : ""}`}
+                {...getColumnActions(columnId)}
+              />
+            );
+          })}
+        </div>
+        {lanes.map((lane, laneIndex) => {
+          const collapsed = collapsedLaneIds.includes(lane.id);
+          const count = board.columnOrder.reduce(
+            (sum, columnId) => sum + cells[getCellId(columnId, lane.id)].length,
+            0
+          );
+          return (
+            <section key={lane.id} className="flex flex-col gap-3" aria-label={lane.title}>
+              <LaneHeader
+                lane={lane}
+                count={count}
+                collapsed={collapsed}
+                editable={manual && lane.id !== NO_LANE}
+                isFirst={laneIndex === 0}
+                isLast={laneIndex === board.lanes.length - 1}
+                onToggle={() => onToggleLane(lane.id)}
+                onRename={(title) => onRenameLane(lane.id, title)}
+                onMove={(offset) => onMoveLane(lane.id, offset)}
+                onDelete={() => onDeleteLane(lane.id)}
+              />
+              {!collapsed && (
+                <div className="flex items-stretch gap-8">
+                  {board.columnOrder.map((columnId) => {
+                    const column = board.columns[columnId];
+                    const cellId = getCellId(columnId, lane.id);
+                    return (
+                      <Droppable key={cellId} droppableId={cellId} type="TASK">
+                        {(provided: DroppableProvided, snapshot: DroppableStateSnapshot) => (
+                          <div
+                            ref={provided.innerRef}
+                            {...provided.droppableProps}
+                            style={{ width: columnWidth }}
+                            className={`shrink-0 rounded-3xl border-2 ${column.border} px-5 pt-5 min-h-[96px] transition-all duration-200 ${
+                              snapshot.isDraggingOver ? "bg-card/70" : "bg-card/30"
+                            }`}
+                          >
+                            {cells[cellId].map((taskId, index) => (
+                              <TaskCard
+                                key={taskId}
+                                task={board.tasks[taskId]}
+                                columnId={columnId}
+                                labels={board.labels}
+                                highlightTerms={highlightTerms}
+                                index={index}
+                                density={density}
+                                showBadges={showBadges}
+                                onEdit={() => onEditTask(taskId, columnId)}
+                                onArchive={() => onArchiveTask(taskId)}
+                                onFocus={() => onFocusTask(taskId)}
+                              />
+                            ))}
+                            {provided.placeholder}
+                          </div>
+                        )}
+                      </Droppable>
+                    );
+                  })}
+                </div>
+              )}
+            </section>
+          );
+        })}
+        {manual && (
+          <div className="sticky left-0 w-fit">
+            {addingLane ? (
+              <LaneTitleInput
+                initialTitle=""
+                placeholder="New lane title..."
+                onSubmit={(title) => {
+                  onAddLane(title);
+                  setAddingLane(false);
+                }}
+                onCancel={() => setAddingLane(false)}
+              />
+            ) : (
+              <button
+                className="flex items-center gap-2 rounded-xl border-2 border-dashed border-muted-foreground/30 px-4 py-2 font-semibold text-muted-foreground hover:bg-card/70 hover:border-blue-300 dark:hover:border-blue-500/50 hover:text-blue-500 transition"
+                onClick={() => setAddingLane(true)}
+              >
+                <Plus className="w-4 h-4" />
+                Add lane
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
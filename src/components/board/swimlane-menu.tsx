@@ -0,0 +1,49 @@
+import { Rows3 } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { parseSwimlaneField, SWIMLANE_FIELDS, type SwimlaneField } from "@/lib/board/swimlanes";
+
+type SwimlaneMenuProps = {
+  value: SwimlaneField | null;
+  onChange: (field: SwimlaneField | null) => void;
+};
+
+export function SwimlaneMenu({ value, onChange }: SwimlaneMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className={`p-2 rounded-full transition ${
+            value ? "bg-blue-100 dark:bg-blue-500/20 hover:bg-blue-200 dark:hover:bg-blue-500/30" : "hover:bg-muted"
+          }`}
+          aria-label="Swimlanes"
+          title="Swimlanes"
+        >
+          <Rows3 className={`w-5 h-5 ${value ? "text-blue-600 dark:text-blue-400" : "text-muted-foreground"}`} />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Group cards into lanes by</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup
+          value={value ?? ""}
+          onValueChange={(next) => onChange(parseSwimlaneField(next))}
+        >
+          <DropdownMenuRadioItem value="">No swimlanes</DropdownMenuRadioItem>
+          {SWIMLANE_FIELDS.map((field) => (
+            <DropdownMenuRadioItem key={field.id} value={field.id}>
+              {field.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,92 @@
+import type { KeyboardEvent } from "react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { getPageLinks, PAGE_SIZES } from "@/lib/board/table";
+
+type TablePaginationProps = {
+  /** 0-based. */
+  page: number;
+  pageCount: number;
+  pageSize: number;
+  rowCount: number;
+  onPageChange: (page: number) => void;
+  onPageSizeChange: (pageSize: number) => void;
+};
+
+export function TablePagination({
+  page,
+  pageCount,
+  pageSize,
+  rowCount,
+  onPageChange,
+  onPageSizeChange,
+}: TablePaginationProps) {
+  const first = rowCount === 0 ? 0 : page * pageSize + 1;
+  const last = Math.min(rowCount, (page + 1) * pageSize);
+  // The links are anchors without an href, so they need to be made buttons.
+  const link = (target: number, disabled = false) => ({
+    role: "button",
+    tabIndex: disabled ? -1 : 0,
+    "aria-disabled": disabled,
+    className: disabled ? "pointer-events-none opacity-40" : "cursor-pointer",
+    onClick: () => onPageChange(target),
+    onKeyDown: (e: KeyboardEvent) => {
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        onPageChange(target);
+      }
+    },
+  });
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-4 px-2 text-sm text-muted-foreground">
+      <span>
+        {first}–{last} of {rowCount}
+      </span>
+      {pageCount > 1 && (
+        <Pagination className="mx-0 w-auto">
+          <PaginationContent>
+            <PaginationItem>
+              <PaginationPrevious {...link(page - 1, page === 0)} />
+            </PaginationItem>
+            {getPageLinks(page, pageCount).map((target, i) => (
+              <PaginationItem key={target ?? `gap-${i}`}>
+                {target === null ? (
+                  <PaginationEllipsis />
+                ) : (
+                  <PaginationLink isActive={target === page} {...link(target)}>
+                    {target + 1}
+                  </PaginationLink>
+                )}
+              </PaginationItem>
+            ))}
+            <PaginationItem>
+              <PaginationNext {...link(page + 1, page === pageCount - 1)} />
+            </PaginationItem>
+          </PaginationContent>
+        </Pagination>
+      )}
+      <label className="flex items-center gap-2">
+        Rows per page
+        <select
+          className="rounded-lg border-2 border-border bg-card px-2 py-1 text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400"
+          value={pageSize}
+          onChange={(e) => onPageSizeChange(Number(e.target.value))}
+        >
+          {PAGE_SIZES.map((size) => (
+            <option key={size} value={size}>
+              {size}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { formatDistanceToNow, format } from "date-fns";
+import { History, MessageSquare, Pencil, Trash2 } from "lucide-react";
+import { Markdown } from "@/components/markdown";
+import { describeActivity, getTimeline } from "@/lib/board/activity";
+import type { Comment, Task } from "@/lib/board/types";
+
+type TaskActivityProps = {
+  task: Task;
+  onAddComment: (text: string) => void;
+  onUpdateComment: (commentId: string, text: string) => void;
+  onDeleteComment: (commentId: string) => void;
+};
+
+export function RelativeTime({ at }: { at: number }) {
+  return (
+    <time dateTime={new Date(at).toISOString()} title={format(at, "PPpp")}>
+      {formatDistanceToNow(at, { addSuffix: true })}
+    </time>
+  );
+}
+
+function CommentEditor({
+  initialText = "",
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: {
+  initialText?: string;
+  submitLabel: string;
+  onSubmit: (text: string) => void;
+  onCancel?: () => void;
+}) {
+  const [text, setText] = useState(initialText);
+  const canSubmit = text.trim() !== "" && text.trim() !== initialText.trim();
+
+  const submit = () => {
+    if (!canSubmit) return;
+    onSubmit(text.trim());
+    setText("");
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <textarea
+        className="w-full min-h-[80px] border-2 border-border rounded-xl p-3 focus:outline-none focus:ring-2 focus:ring-blue-400 text-foreground resize-y transition font-sans"
+        placeholder="Write a comment... Markdown is supported."
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) submit();
+        }}
+        aria-label={submitLabel}
+        maxLength={5000}
+        autoFocus={Boolean(onCancel)}
+      />
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <button
+            className="px-3 py-1.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition"
+            onClick={onCancel}
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          className={`px-3 py-1.5 rounded-xl font-semibold transition ${
+            canSubmit ? "bg-blue-500 text-white hover:bg-blue-600" : "bg-blue-200 dark:bg-blue-500/30 text-white cursor-not-allowed"
+          }`}
+          onClick={submit}
+          disabled={!canSubmit}
+        >
+          {submitLabel}
+        </button>
+      </div>
+    </div>
+  );
+}
+
+function CommentItem({
+  comment,
+  onUpdate,
+  onDelete,
+}: {
+  comment: Comment;
+  onUpdate: (text: string) => void;
+  onDelete: () => void;
+}) {
+  const [editing, setEditing] = useState(false);
+
+  return (
+    <li className="flex gap-3">
+      <MessageSquare className="w-4 h-4 mt-3 shrink-0 text-blue-400" />
+      <div className="group/comment flex-1 min-w-0 rounded-xl border-2 border-border px-4 py-3">
+        <div className="flex items-center gap-2 text-xs text-muted-foreground/80">
+          <RelativeTime at={comment.createdAt} />
+          {comment.editedAt !== null && (
+            <span title={format(comment.editedAt, "PPpp")}>(edited)</span>
+          )}
+          {!editing && (
+            <div className="ml-auto flex opacity-0 group-hover/comment:opacity-100 group-focus-within/comment:opacity-100 transition">
+              <button
+                className="p-1 rounded-full hover:bg-blue-100 dark:hover:bg-blue-500/20"
+                onClick={() => setEditing(true)}
+                aria-label="Edit comment"
+              >
+                <Pencil className="w-3.5 h-3.5 text-blue-500" />
+              </button>
+              <button
+                className="p-1 rounded-full hover:bg-red-100 dark:hover:bg-red-500/20"
+                onClick={onDelete}
+                aria-label="Delete comment"
+              >
+                <Trash2 className="w-3.5 h-3.5 text-red-500" />
+              </button>
+            </div>
+          )}
+        </div>
+        {editing ? (
+          <div className="mt-2">
+            <CommentEditor
+              initialText={comment.text}
+              submitLabel="Save comment"
+              onSubmit={(text) => {
+                onUpdate(text);
+                setEditing(false);
+              }}
+              onCancel={() => setEditing(false)}
+            />
+          </div>
+        ) : (
+          <div className="mt-1">
+            <Markdown source={comment.text} />
+          </div>
+        )}
+      </div>
+    </li>
+  );
+}
+
+/** The card's comment thread and what happened to it, oldest first. */
+export function TaskActivity({
+  task,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
+}: TaskActivityProps) {
+  const timeline = getTimeline(task);
+
+  return (
+    <div className="flex flex-col gap-4">
+      {timeline.length > 0 && (
+        <ol className="flex flex-col gap-3">
+          {timeline.map((item) =>
+            item.kind === "comment" ? (
+              <CommentItem
+                key={item.comment.id}
+                comment={item.comment}
+                onUpdate={(text) => onUpdateComment(item.comment.id, text)}
+                onDelete={() => onDeleteComment(item.comment.id)}
+              />
+            ) : (
+              <li key={item.entry.id} className="flex gap-3 text-sm text-muted-foreground">
+                <History className="w-4 h-4 mt-0.5 shrink-0 text-muted-foreground/50" />
+                <span className="flex-1 min-w-0">
+                  {describeActivity(item.entry)}{" "}
+                  <span className="text-xs text-muted-foreground/80">
+                    <RelativeTime at={item.at} />
+                  </span>
+                </span>
+              </li>
+            )
+          )}
+        </ol>
+      )}
+      <CommentEditor submitLabel="Comment" onSubmit={onAddComment} />
+    </div>
+  );
+}
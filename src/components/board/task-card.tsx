@@ -0,0 +1,167 @@
+import { AlignLeft, Archive, CalendarDays, Edit } from "lucide-react";
+import {
+  Draggable,
+  type DraggableProvided,
+  type DraggableStateSnapshot,
+} from "react-beautiful-dnd";
+import { Highlight } from "@/components/highlight";
+import { useLongPress } from "@/hooks/use-long-press";
+import { getCardDensity } from "@/lib/board/appearance";
+import { getChecklistProgress } from "@/lib/board/checklists";
+import { DUE_BADGE, formatDueDate, getDueStatus } from "@/lib/board/due";
+import { getPriority } from "@/lib/board/priority";
+import type { CardDensity, Label, Task } from "@/lib/board/types";
+import { ChecklistProgress } from "./checklist-editor";
+import { LabelBadge } from "./label-picker";
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((word) => word[0].toUpperCase())
+    .join("");
+
+type TaskCardProps = {
+  task: Task;
+  columnId: string;
+  /** The board's labels; the task's `labelIds` are resolved against these. */
+  labels: Label[];
+  /** Text to mark in the title, from the current search. */
+  highlightTerms: string[];
+  index: number;
+  density: CardDensity;
+  /** Off to show just the labels and title. */
+  showBadges: boolean;
+  onEdit: () => void;
+  onArchive: () => void;
+  onFocus: () => void;
+  /** When given, holding the card calls this and the card can't be dragged. */
+  onLongPress?: () => void;
+};
+
+export function TaskCard({
+  task,
+  columnId,
+  labels,
+  highlightTerms,
+  index,
+  density,
+  showBadges,
+  onEdit,
+  onArchive,
+  onFocus,
+  onLongPress,
+}: TaskCardProps) {
+  const taskLabels = labels.filter((label) => task.labelIds.includes(label.id));
+  const hasBadges =
+    showBadges &&
+    Boolean(task.dueDate || task.priority || task.epic || task.assignee || task.description.trim());
+  const progress = getChecklistProgress(task);
+  const spacing = getCardDensity(density);
+  const longPress = useLongPress(onLongPress);
+
+  return (
+    <Draggable draggableId={task.id} index={index} isDragDisabled={Boolean(onLongPress)}>
+      {(provided: DraggableProvided, snapshot: DraggableStateSnapshot) => (
+        <div
+          ref={provided.innerRef}
+          {...provided.draggableProps}
+          {...provided.dragHandleProps}
+          {...longPress}
+          data-task-id={task.id}
+          data-column-id={columnId}
+          onClick={onEdit}
+          onFocus={(e) => {
+            if (e.target === e.currentTarget) onFocus();
+          }}
+          className={`group bg-card rounded-2xl shadow-md ${spacing.card} flex items-start border border-border transition-all duration-200 cursor-pointer hover:shadow-lg hover:-translate-y-1 hover:border-blue-200 dark:hover:border-blue-500/40 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${
+            snapshot.isDragging ? "ring-2 ring-blue-400 scale-105 shadow-xl" : ""
+          } ${onLongPress ? "select-none [-webkit-touch-callout:none]" : ""}`}
+          style={{
+            ...provided.draggableProps.style,
+            boxShadow: snapshot.isDragging
+              ? "0 12px 32px 0 rgba(56, 189, 248, 0.18)"
+              : "0 2px 8px 0 rgba(0,0,0,0.06)",
+          }}
+        >
+          <div className="flex-1 min-w-0">
+            {taskLabels.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                {taskLabels.map((label) => (
+                  <LabelBadge key={label.id} label={label} />
+                ))}
+              </div>
+            )}
+            <div className={`text-foreground font-medium break-words ${spacing.title} font-sans`}>
+              <Highlight text={task.content} terms={highlightTerms} />
+            </div>
+            {hasBadges && (
+              <div className={`flex flex-wrap items-center gap-1.5 ${spacing.gap} text-xs font-semibold`}>
+                {task.dueDate && (
+                  <span
+                    className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 ${
+                      DUE_BADGE[getDueStatus(task.dueDate)]
+                    }`}
+                  >
+                    <CalendarDays className="w-3.5 h-3.5" />
+                    {formatDueDate(task.dueDate)}
+                  </span>
+                )}
+                {task.priority && (
+                  <span className={`rounded-full border px-2 py-0.5 ${getPriority(task.priority).badge}`}>
+                    {getPriority(task.priority).name}
+                  </span>
+                )}
+                {task.epic && (
+                  <span className="rounded-full border px-2 py-0.5 bg-indigo-50 dark:bg-indigo-500/10 text-indigo-700 dark:text-indigo-300 border-indigo-200 dark:border-indigo-500/30">
+                    {task.epic}
+                  </span>
+                )}
+                {task.description.trim() && (
+                  <AlignLeft className="w-4 h-4 text-muted-foreground/80" aria-label="Has description" />
+                )}
+                {task.assignee && (
+                  <span
+                    className="ml-auto flex w-6 h-6 items-center justify-center rounded-full bg-foreground/80 text-[10px] text-background"
+                    title={`Assigned to ${task.assignee}`}
+                    aria-label={`Assigned to ${task.assignee}`}
+                  >
+                    {getInitials(task.assignee)}
+                  </span>
+                )}
+              </div>
+            )}
+            {showBadges && progress.total > 0 && (
+              <div className={spacing.gap}>
+                <ChecklistProgress {...progress} />
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col gap-2 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition">
+            <button
+              className="p-1.5 rounded-full hover:bg-blue-100 dark:hover:bg-blue-500/20"
+              onClick={(e) => {
+                e.stopPropagation();
+                onEdit();
+              }}
+              aria-label="Edit"
+            >
+              <Edit className="w-4 h-4 text-blue-500" />
+            </button>
+            <button
+              className="p-1.5 rounded-full hover:bg-muted"
+              onClick={(e) => {
+                e.stopPropagation();
+                onArchive();
+              }}
+              aria-label="Archive"
+            >
+              <Archive className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </div>
+        </div>
+      )}
+    </Draggable>
+  );
+}
@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { CalendarDays, CalendarRange, Check, X } from "lucide-react";
+import { Markdown } from "@/components/markdown";
+import { Calendar } from "@/components/ui/calendar";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import { Drawer, DrawerContent, DrawerDescription, DrawerTitle } from "@/components/ui/drawer";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { formatDueDate, parseDueDate, toDueDate } from "@/lib/board/due";
+import { PRIORITIES } from "@/lib/board/priority";
+import type { ChecklistItem, Label, Lane, Task } from "@/lib/board/types";
+import { ChecklistEditor } from "./checklist-editor";
+import { LabelPicker } from "./label-picker";
+import { TaskActivity } from "./task-activity";
+
+/** The fields edited here; comments are saved as they are posted. */
+export type TaskDraft = Omit<
+  Task,
+  "id" | "comments" | "createdAt" | "activity" | "columnEntries" | "archived"
+>;
+
+type TaskDetailDialogProps = {
+  /** The task being edited; omitted when adding a new card. */
+  task?: Task;
+  columnTitle: string;
+  labels: Label[];
+  /** Names already in use on the board, suggested as you type. */
+  assignees: string[];
+  epics: string[];
+  lanes: Lane[];
+  /** Cards this one can wait on; those already waiting on it are left out. */
+  dependencyOptions: Task[];
+  /** Opens as a drawer from the bottom of the screen, for phones. */
+  asDrawer?: boolean;
+  /** `converted` are checklist items to add as cards below the task. */
+  onSave: (draft: TaskDraft, converted: ChecklistItem[]) => void;
+  onClose: () => void;
+  onCreateLabel: (label: Label) => void;
+  onDeleteLabel: (labelId: string) => void;
+  onAddComment: (text: string) => void;
+  onUpdateComment: (commentId: string, text: string) => void;
+  onDeleteComment: (commentId: string) => void;
+};
+
+const toDraft = (task?: Task): TaskDraft => ({
+  content: task?.content ?? "",
+  description: task?.description ?? "",
+  dueDate: task?.dueDate ?? null,
+  startDate: task?.startDate ?? null,
+  endDate: task?.endDate ?? null,
+  dependsOn: task?.dependsOn ?? [],
+  priority: task?.priority ?? null,
+  labelIds: task?.labelIds ?? [],
+  assignee: task?.assignee ?? null,
+  epic: task?.epic ?? null,
+  laneId: task?.laneId ?? null,
+  checklists: task?.checklists ?? [],
+});
+
+export function TaskDetailDialog({
+  task,
+  columnTitle,
+  labels,
+  assignees,
+  epics,
+  lanes,
+  dependencyOptions,
+  asDrawer = false,
+  onSave,
+  onClose,
+  onCreateLabel,
+  onDeleteLabel,
+  onAddComment,
+  onUpdateComment,
+  onDeleteComment,
+}: TaskDetailDialogProps) {
+  const [draft, setDraft] = useState<TaskDraft>(() => toDraft(task));
+  const [previewing, setPreviewing] = useState(false);
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [scheduleOpen, setScheduleOpen] = useState(false);
+  const [converted, setConverted] = useState<ChecklistItem[]>([]);
+
+  const update = (patch: Partial<TaskDraft>) => setDraft((prev) => ({ ...prev, ...patch }));
+  const canSave = draft.content.trim() !== "";
+
+  const save = () => {
+    if (!canSave) return;
+    onSave(
+      {
+        ...draft,
+        content: draft.content.trim(),
+        assignee: draft.assignee?.trim() || null,
+        epic: draft.epic?.trim() || null,
+      },
+      converted
+    );
+  };
+
+  const title = task ? "Edit Task" : "Add Task";
+  // On a phone the keyboard would cover a card that was only opened to read.
+  const focusTitle = !asDrawer || !task;
+  const body = (
+    <>
+      <div className="grid gap-8 md:grid-cols-[1fr_220px]">
+        <div className="flex flex-col gap-5 min-w-0">
+          <input
+            className="w-full border-2 border-border rounded-xl px-4 py-3 focus:outline-none focus:ring-2 focus:ring-blue-400 text-foreground text-lg font-semibold transition font-sans"
+            placeholder="Task title..."
+            value={draft.content}
+            onChange={(e) => update({ content: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save();
+            }}
+            aria-label="Title"
+            autoFocus={focusTitle}
+            maxLength={300}
+          />
+          <div className="flex flex-col gap-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                Description
+              </span>
+              <div className="flex rounded-lg bg-muted p-0.5 text-sm">
+                {(["Write", "Preview"] as const).map((mode) => (
+                  <button
+                    key={mode}
+                    className={`rounded-md px-3 py-1 transition ${
+                      previewing === (mode === "Preview")
+                        ? "bg-card text-foreground shadow-sm"
+                        : "text-muted-foreground hover:text-foreground"
+                    }`}
+                    onClick={() => setPreviewing(mode === "Preview")}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {previewing ? (
+              <div className="min-h-[180px] rounded-xl border-2 border-border p-4">
+                {draft.description.trim() ? (
+                  <Markdown source={draft.description} />
+                ) : (
+                  <span className="italic text-muted-foreground/80">Nothing to preview</span>
+                )}
+              </div>
+            ) : (
+              <textarea
+                className="w-full min-h-[180px] border-2 border-border rounded-xl p-4 focus:outline-none focus:ring-2 focus:ring-blue-400 text-foreground resize-y transition font-sans"
+                placeholder="Add a more detailed description... Markdown is supported."
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                aria-label="Description"
+              />
+            )}
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              Checklists
+            </span>
+            <ChecklistEditor
+              checklists={draft.checklists}
+              onChange={(checklists) => update({ checklists })}
+              onConvert={(item) => setConverted((prev) => [...prev, item])}
+            />
+            {converted.length > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {converted.length === 1 ? "1 item becomes a card" : `${converted.length} items become cards`}{" "}
+                in {columnTitle} when you save.
+              </p>
+            )}
+          </div>
+        </div>
+        <div className="flex flex-col gap-6">
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Due date</span>
+            <div className="flex items-center gap-1.5">
+              <Popover open={calendarOpen} onOpenChange={setCalendarOpen}>
+                <PopoverTrigger asChild>
+                  <button className="flex flex-1 items-center gap-2 rounded-xl border-2 border-border px-3 py-2 text-foreground/80 hover:bg-muted/50 transition">
+                    <CalendarDays className="w-4 h-4" />
+                    {draft.dueDate ? formatDueDate(draft.dueDate) : "Set due date"}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-auto p-0">
+                  <Calendar
+                    mode="single"
+                    selected={draft.dueDate ? parseDueDate(draft.dueDate) : undefined}
+                    defaultMonth={draft.dueDate ? parseDueDate(draft.dueDate) : undefined}
+                    onSelect={(date) => {
+                      update({ dueDate: date ? toDueDate(date) : null });
+                      setCalendarOpen(false);
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {draft.dueDate && (
+                <button
+                  className="p-2 rounded-full hover:bg-muted"
+                  onClick={() => update({ dueDate: null })}
+                  aria-label="Clear due date"
+                >
+                  <X className="w-4 h-4 text-muted-foreground/80" />
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Schedule</span>
+            <div className="flex items-center gap-1.5">
+              <Popover open={scheduleOpen} onOpenChange={setScheduleOpen}>
+                <PopoverTrigger asChild>
+                  <button className="flex flex-1 items-center gap-2 rounded-xl border-2 border-border px-3 py-2 text-left text-foreground/80 hover:bg-muted/50 transition">
+                    <CalendarRange className="w-4 h-4 shrink-0" />
+                    {draft.startDate && draft.endDate
+                      ? `${formatDueDate(draft.startDate)} – ${formatDueDate(draft.endDate)}`
+                      : "Set start and end"}
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="start" className="w-auto p-0">
+                  <Calendar
+                    mode="range"
+                    selected={
+                      draft.startDate && draft.endDate
+                        ? { from: parseDueDate(draft.startDate), to: parseDueDate(draft.endDate) }
+                        : undefined
+                    }
+                    defaultMonth={draft.startDate ? parseDueDate(draft.startDate) : undefined}
+                    onSelect={(range) => {
+                      // The first click picks a one-day schedule; the second stretches it.
+                      const from = range?.from ? toDueDate(range.from) : null;
+                      update({ startDate: from, endDate: range?.to ? toDueDate(range.to) : from });
+                    }}
+                    initialFocus
+                  />
+                </PopoverContent>
+              </Popover>
+              {draft.startDate && (
+                <button
+                  className="p-2 rounded-full hover:bg-muted"
+                  onClick={() => update({ startDate: null, endDate: null })}
+                  aria-label="Clear schedule"
+                >
+                  <X className="w-4 h-4 text-muted-foreground/80" />
+                </button>
+              )}
+            </div>
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Priority</span>
+            <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Priority">
+              {PRIORITIES.map((priority) => (
+                <button
+                  key={priority.id}
+                  className={`rounded-full border px-3 py-1 text-sm font-semibold transition ${priority.badge} ${
+                    draft.priority === priority.id ? "ring-2 ring-offset-1 ring-offset-background ring-muted-foreground" : "opacity-70 hover:opacity-100"
+                  }`}
+                  onClick={() =>
+                    update({ priority: draft.priority === priority.id ? null : priority.id })
+                  }
+                  role="radio"
+                  aria-checked={draft.priority === priority.id}
+                >
+                  {priority.name}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Assignee</span>
+            <input
+              className="w-full rounded-xl border-2 border-border px-3 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+              list="task-assignees"
+              placeholder="Unassigned"
+              value={draft.assignee ?? ""}
+              onChange={(e) => update({ assignee: e.target.value || null })}
+              aria-label="Assignee"
+              maxLength={80}
+            />
+            <datalist id="task-assignees">
+              {assignees.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Epic</span>
+            <input
+              className="w-full rounded-xl border-2 border-border px-3 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+              list="task-epics"
+              placeholder="No epic"
+              value={draft.epic ?? ""}
+              onChange={(e) => update({ epic: e.target.value || null })}
+              aria-label="Epic"
+              maxLength={80}
+            />
+            <datalist id="task-epics">
+              {epics.map((name) => (
+                <option key={name} value={name} />
+              ))}
+            </datalist>
+          </div>
+          {lanes.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Lane</span>
+              <select
+                className="w-full rounded-xl border-2 border-border px-3 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+                value={draft.laneId ?? ""}
+                onChange={(e) => update({ laneId: e.target.value || null })}
+                aria-label="Lane"
+              >
+                <option value="">No lane</option>
+                {lanes.map((lane) => (
+                  <option key={lane.id} value={lane.id}>
+                    {lane.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Labels</span>
+            <LabelPicker
+              labels={labels}
+              selectedIds={draft.labelIds}
+              onChange={(labelIds) => update({ labelIds })}
+              onCreateLabel={onCreateLabel}
+              onDeleteLabel={(labelId) => {
+                update({ labelIds: draft.labelIds.filter((id) => id !== labelId) });
+                onDeleteLabel(labelId);
+              }}
+            />
+          </div>
+          <div className="flex flex-col gap-2">
+            <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">Depends on</span>
+            {draft.dependsOn.map((taskId) => (
+              <div key={taskId} className="flex items-center gap-1.5 rounded-lg bg-muted/50 px-2.5 py-1.5 text-sm text-foreground">
+                <span className="flex-1 truncate">
+                  {dependencyOptions.find((option) => option.id === taskId)?.content ?? (
+                    <span className="italic text-muted-foreground/80">An archived card</span>
+                  )}
+                </span>
+                <button
+                  className="p-0.5 rounded-full hover:bg-border"
+                  onClick={() => update({ dependsOn: draft.dependsOn.filter((id) => id !== taskId) })}
+                  aria-label="Remove dependency"
+                >
+                  <X className="w-3.5 h-3.5 text-muted-foreground" />
+                </button>
+              </div>
+            ))}
+            <select
+              className="w-full rounded-xl border-2 border-border px-3 py-2 text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400 transition"
+              value=""
+              onChange={(e) => update({ dependsOn: [...draft.dependsOn, e.target.value] })}
+              aria-label="Add a dependency"
+            >
+              <option value="" disabled>
+                Add a card…
+              </option>
+              {dependencyOptions
+                .filter((option) => !draft.dependsOn.includes(option.id))
+                .map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.content}
+                  </option>
+                ))}
+            </select>
+          </div>
+        </div>
+      </div>
+      {task && (
+        <div className="flex flex-col gap-3 border-t-2 border-border pt-6">
+          <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Comments and activity
+          </span>
+          <TaskActivity
+            task={task}
+            onAddComment={onAddComment}
+            onUpdateComment={onUpdateComment}
+            onDeleteComment={onDeleteComment}
+          />
+        </div>
+      )}
+      <div className="flex justify-end gap-3 mt-4">
+        <button
+          className="px-5 py-2.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition text-lg"
+          onClick={onClose}
+        >
+          Cancel
+        </button>
+        <button
+          className={`px-5 py-2.5 rounded-xl font-semibold flex items-center gap-2 text-lg transition shadow ${
+            canSave ? "bg-blue-500 text-white hover:bg-blue-600" : "bg-blue-200 dark:bg-blue-500/30 text-white cursor-not-allowed"
+          }`}
+          onClick={save}
+          disabled={!canSave}
+        >
+          <Check className="w-5 h-5" />
+          Save
+        </button>
+      </div>
+    </>
+  );
+
+  if (asDrawer) {
+    return (
+      <Drawer open onOpenChange={(open) => !open && onClose()}>
+        <DrawerContent className="max-h-[92vh] rounded-t-3xl border-2 border-blue-100 dark:border-blue-500/30 bg-card">
+          <div className="flex flex-col gap-4 overflow-y-auto px-5 pb-6 pt-4">
+            <DrawerTitle className="text-2xl font-bold text-foreground font-display">{title}</DrawerTitle>
+            <DrawerDescription className="-mt-2 text-muted-foreground/80">in {columnTitle}</DrawerDescription>
+            {body}
+          </div>
+        </DrawerContent>
+      </Drawer>
+    );
+  }
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl rounded-3xl sm:rounded-3xl p-10 border-2 border-blue-100 dark:border-blue-500/30 max-h-[90vh] overflow-y-auto">
+        <DialogTitle className="text-2xl font-bold text-foreground font-display">{title}</DialogTitle>
+        <DialogDescription className="-mt-2 text-muted-foreground/80">in {columnTitle}</DialogDescription>
+        {body}
+      </DialogContent>
+    </Dialog>
+  );
+}
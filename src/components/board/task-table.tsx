@@ -0,0 +1,610 @@
+import { useMemo, useState, type ReactNode } from "react";
+import { format } from "date-fns";
+import {
+  Archive,
+  ArrowDown,
+  ArrowRight,
+  ArrowUp,
+  ArrowUpDown,
+  CalendarDays,
+  ChevronDown,
+  Edit,
+  Flag,
+  Tag,
+  X,
+} from "lucide-react";
+import { Highlight } from "@/components/highlight";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { DUE_BADGE, formatDueDate, getDueStatus, parseDueDate, toDueDate } from "@/lib/board/due";
+import { getPriority, PRIORITIES } from "@/lib/board/priority";
+import {
+  getPageCount,
+  getTablePage,
+  groupTableRows,
+  PAGE_SIZES,
+  sortTableRows,
+  type TableRow as TaskRow,
+  type TableSort,
+  type TableSortKey,
+} from "@/lib/board/table";
+import type { BoardData, Label, Priority, Task } from "@/lib/board/types";
+import { LabelBadge } from "./label-picker";
+import { TablePagination } from "./table-pagination";
+
+type TaskTableProps = {
+  board: BoardData;
+  /** The cards that pass the current filter, in board order. */
+  rows: TaskRow[];
+  highlightTerms: string[];
+  onEditTask: (taskId: string, columnId: string) => void;
+  onUpdateTasks: (taskIds: string[], update: (task: Task) => Partial<Omit<Task, "id">>) => void;
+  onMoveTasks: (taskIds: string[], columnId: string) => void;
+  onArchiveTasks: (taskIds: string[]) => void;
+};
+
+const COLUMNS: { key: TableSortKey; title: string; className: string }[] = [
+  { key: "title", title: "Title", className: "min-w-[240px]" },
+  { key: "status", title: "List", className: "w-40" },
+  { key: "labels", title: "Labels", className: "w-48" },
+  { key: "due", title: "Due", className: "w-36" },
+  { key: "priority", title: "Priority", className: "w-32" },
+  { key: "created", title: "Created", className: "w-32" },
+];
+
+const CELL_BUTTON =
+  "flex w-full items-center gap-1.5 rounded-lg px-2 py-1 text-left hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 transition";
+
+function SortableHead({
+  title,
+  sortKey,
+  sort,
+  className,
+  onSort,
+}: {
+  title: string;
+  sortKey: TableSortKey;
+  sort: TableSort | null;
+  className: string;
+  onSort: (key: TableSortKey) => void;
+}) {
+  const direction = sort?.key === sortKey ? sort.direction : null;
+  const Icon = direction === "asc" ? ArrowUp : direction === "desc" ? ArrowDown : ArrowUpDown;
+  return (
+    <TableHead
+      className={className}
+      aria-sort={direction === "asc" ? "ascending" : direction === "desc" ? "descending" : "none"}
+    >
+      <button
+        className="flex items-center gap-1.5 text-xs font-semibold uppercase tracking-wide text-muted-foreground hover:text-foreground transition"
+        onClick={() => onSort(sortKey)}
+      >
+        {title}
+        <Icon className={`w-3.5 h-3.5 ${direction ? "text-blue-500" : "text-muted-foreground/50"}`} />
+      </button>
+    </TableHead>
+  );
+}
+
+function TitleCell({
+  task,
+  highlightTerms,
+  onRename,
+  onOpen,
+}: {
+  task: Task;
+  highlightTerms: string[];
+  onRename: (content: string) => void;
+  onOpen: () => void;
+}) {
+  const [draft, setDraft] = useState<string | null>(null);
+  const commit = () => {
+    if (draft === null) return;
+    if (draft.trim() && draft.trim() !== task.content) onRename(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="group flex items-center gap-1">
+      {draft === null ? (
+        <button
+          className={`${CELL_BUTTON} font-medium text-foreground`}
+          onClick={() => setDraft(task.content)}
+          title="Rename"
+        >
+          <Highlight text={task.content} terms={highlightTerms} />
+        </button>
+      ) : (
+        <input
+          className="w-full rounded-lg border-2 border-blue-300 dark:border-blue-500/50 px-2 py-0.5 font-medium text-foreground focus:outline-none focus:ring-2 focus:ring-blue-400"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={commit}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") commit();
+            if (e.key === "Escape") setDraft(null);
+          }}
+          aria-label="Title"
+          autoFocus
+        />
+      )}
+      <button
+        className="p-1.5 rounded-full opacity-0 group-hover:opacity-100 focus:opacity-100 hover:bg-blue-100 dark:hover:bg-blue-500/20 transition"
+        onClick={onOpen}
+        aria-label={`Open "${task.content}"`}
+        title="Open"
+      >
+        <Edit className="w-4 h-4 text-blue-500" />
+      </button>
+    </div>
+  );
+}
+
+function LabelsCell({
+  task,
+  labels,
+  onChange,
+}: {
+  task: Task;
+  labels: Label[];
+  onChange: (labelIds: string[]) => void;
+}) {
+  const taskLabels = labels.filter((label) => task.labelIds.includes(label.id));
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className={`${CELL_BUTTON} flex-wrap`} aria-label="Labels">
+          {taskLabels.length > 0 ? (
+            taskLabels.map((label) => <LabelBadge key={label.id} label={label} />)
+          ) : (
+            <span className="text-muted-foreground/50">—</span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        {labels.length === 0 && (
+          <div className="px-2 py-1.5 text-sm italic text-muted-foreground/80">No labels yet</div>
+        )}
+        {labels.map((label) => (
+          <DropdownMenuCheckboxItem
+            key={label.id}
+            checked={task.labelIds.includes(label.id)}
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) =>
+              onChange(
+                checked
+                  ? [...task.labelIds, label.id]
+                  : task.labelIds.filter((id) => id !== label.id)
+              )
+            }
+          >
+            <LabelBadge label={label} />
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function DueCell({ task, onChange }: { task: Task; onChange: (dueDate: string | null) => void }) {
+  const [open, setOpen] = useState(false);
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button className={CELL_BUTTON} aria-label="Due date">
+          {task.dueDate ? (
+            <span
+              className={`inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-semibold ${
+                DUE_BADGE[getDueStatus(task.dueDate)]
+              }`}
+            >
+              <CalendarDays className="w-3.5 h-3.5" />
+              {formatDueDate(task.dueDate)}
+            </span>
+          ) : (
+            <span className="text-muted-foreground/50">—</span>
+          )}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-auto p-0">
+        <Calendar
+          mode="single"
+          selected={task.dueDate ? parseDueDate(task.dueDate) : undefined}
+          defaultMonth={task.dueDate ? parseDueDate(task.dueDate) : undefined}
+          onSelect={(date) => {
+            onChange(date ? toDueDate(date) : null);
+            setOpen(false);
+          }}
+          initialFocus
+        />
+        {task.dueDate && (
+          <button
+            className="w-full border-t border-border px-3 py-2 text-sm text-muted-foreground hover:bg-muted/50"
+            onClick={() => {
+              onChange(null);
+              setOpen(false);
+            }}
+          >
+            Clear due date
+          </button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function PriorityMenu({
+  value,
+  onChange,
+  children,
+}: {
+  value: Priority | null;
+  onChange: (priority: Priority | null) => void;
+  children: ReactNode;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuRadioGroup
+          value={value ?? ""}
+          onValueChange={(next) => onChange(next ? (next as Priority) : null)}
+        >
+          {PRIORITIES.map((priority) => (
+            <DropdownMenuRadioItem key={priority.id} value={priority.id}>
+              <span className={`rounded-full border px-2 py-0.5 text-xs font-semibold ${priority.badge}`}>
+                {priority.name}
+              </span>
+            </DropdownMenuRadioItem>
+          ))}
+          <DropdownMenuRadioItem value="">No priority</DropdownMenuRadioItem>
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+function ColumnMenu({
+  board,
+  value,
+  onChange,
+  children,
+}: {
+  board: BoardData;
+  value: string | null;
+  onChange: (columnId: string) => void;
+  children: ReactNode;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>{children}</DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuRadioGroup value={value ?? ""} onValueChange={onChange}>
+          {board.columnOrder.map((columnId) => (
+            <DropdownMenuRadioItem key={columnId} value={columnId}>
+              <span className={`w-2.5 h-2.5 rounded-full ${board.columns[columnId].accent}`} />
+              {board.columns[columnId].title}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+const BULK_BUTTON =
+  "flex items-center gap-1.5 rounded-xl border-2 border-border bg-card px-3 py-1.5 text-sm font-medium text-foreground/80 hover:bg-muted transition";
+
+/**
+ * Every card on the board in rows: sortable by any column, optionally grouped
+ * by list, edited in place, and selectable for bulk changes.
+ */
+export function TaskTable({
+  board,
+  rows,
+  highlightTerms,
+  onEditTask,
+  onUpdateTasks,
+  onMoveTasks,
+  onArchiveTasks,
+}: TaskTableProps) {
+  const [sort, setSort] = useState<TableSort | null>(null);
+  const [grouped, setGrouped] = useState(true);
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+  const [selection, setSelection] = useState<string[]>([]);
+
+  const groups = useMemo(() => {
+    const sorted = sort ? sortTableRows(board, rows, sort) : rows;
+    return grouped ? groupTableRows(board, sorted) : [{ column: null, rows: sorted }];
+  }, [board, rows, sort, grouped]);
+  const pageCount = getPageCount(rows.length, pageSize);
+  // Filtering or archiving can leave fewer pages than the one we were on.
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageGroups = getTablePage(groups, currentPage, pageSize);
+  const pageTaskIds = pageGroups.flatMap((group) => group.rows.map((row) => row.task.id));
+
+  // Cards filtered out or archived drop out of the selection.
+  const selectedIds = selection.filter((taskId) => rows.some((row) => row.task.id === taskId));
+  const selectedOnPage = pageTaskIds.filter((taskId) => selectedIds.includes(taskId));
+  const selectedTasks = selectedIds.map((taskId) => board.tasks[taskId]);
+
+  const toggleSort = (key: TableSortKey) => {
+    // Each click goes ascending, descending, then back to board order.
+    setSort((prev) =>
+      prev?.key !== key
+        ? { key, direction: "asc" }
+        : prev.direction === "asc"
+          ? { key, direction: "desc" }
+          : null
+    );
+    setPage(0);
+  };
+
+  const toggleSelected = (taskId: string, selected: boolean) =>
+    setSelection((prev) =>
+      selected ? [...prev, taskId] : prev.filter((id) => id !== taskId)
+    );
+
+  const togglePage = (selected: boolean) =>
+    setSelection((prev) =>
+      selected
+        ? [...prev, ...pageTaskIds.filter((id) => !prev.includes(id))]
+        : prev.filter((id) => !pageTaskIds.includes(id))
+    );
+
+  const update = (taskId: string, patch: Partial<Omit<Task, "id">>) =>
+    onUpdateTasks([taskId], () => patch);
+
+  return (
+    <div className="flex flex-col gap-4 rounded-3xl border-2 border-border bg-card/90 p-6 shadow-md">
+      <div className="flex min-h-9 flex-wrap items-center gap-3">
+        {selectedIds.length > 0 ? (
+          <>
+            <span className="text-sm font-semibold text-foreground">
+              {selectedIds.length} selected
+            </span>
+            <ColumnMenu
+              board={board}
+              value={null}
+              onChange={(columnId) => onMoveTasks(selectedIds, columnId)}
+            >
+              <button className={BULK_BUTTON}>
+                <ArrowRight className="w-4 h-4" />
+                Move to
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+            </ColumnMenu>
+            <PriorityMenu
+              value={null}
+              onChange={(priority) => onUpdateTasks(selectedIds, () => ({ priority }))}
+            >
+              <button className={BULK_BUTTON}>
+                <Flag className="w-4 h-4" />
+                Priority
+                <ChevronDown className="w-3.5 h-3.5" />
+              </button>
+            </PriorityMenu>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <button className={BULK_BUTTON}>
+                  <Tag className="w-4 h-4" />
+                  Labels
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="start">
+                {board.labels.length === 0 && (
+                  <div className="px-2 py-1.5 text-sm italic text-muted-foreground/80">No labels yet</div>
+                )}
+                {board.labels.map((label) => {
+                  const count = selectedTasks.filter((task) => task.labelIds.includes(label.id))
+                    .length;
+                  // Ticked when every selected card has it; choosing it
+                  // gives it to all of them, or takes it from all of them.
+                  const all = count === selectedTasks.length;
+                  return (
+                    <DropdownMenuCheckboxItem
+                      key={label.id}
+                      checked={all ? true : count > 0 ? "indeterminate" : false}
+                      onSelect={(e) => e.preventDefault()}
+                      onCheckedChange={() =>
+                        onUpdateTasks(selectedIds, (task) => ({
+                          labelIds: all
+                            ? task.labelIds.filter((id) => id !== label.id)
+                            : task.labelIds.includes(label.id)
+                              ? task.labelIds
+                              : [...task.labelIds, label.id],
+                        }))
+                      }
+                    >
+                      <LabelBadge label={label} />
+                    </DropdownMenuCheckboxItem>
+                  );
+                })}
+              </DropdownMenuContent>
+            </DropdownMenu>
+            <button className={BULK_BUTTON} onClick={() => onArchiveTasks(selectedIds)}>
+              <Archive className="w-4 h-4" />
+              Archive
+            </button>
+            <button
+              className="p-1.5 rounded-full hover:bg-muted"
+              onClick={() => setSelection([])}
+              aria-label="Clear selection"
+              title="Clear selection"
+            >
+              <X className="w-4 h-4 text-muted-foreground" />
+            </button>
+          </>
+        ) : (
+          <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            {rows.length === 1 ? "1 card" : `${rows.length} cards`}
+          </span>
+        )}
+        <label className="ml-auto flex items-center gap-2 text-sm font-medium text-foreground/80">
+          <Switch checked={grouped} onCheckedChange={setGrouped} />
+          Group by list
+        </label>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow className="hover:bg-transparent">
+            <TableHead className="w-10">
+              <Checkbox
+                checked={
+                  selectedOnPage.length === 0
+                    ? false
+                    : selectedOnPage.length === pageTaskIds.length
+                      ? true
+                      : "indeterminate"
+                }
+                onCheckedChange={(checked) => togglePage(checked === true)}
+                disabled={pageTaskIds.length === 0}
+                aria-label="Select all on this page"
+              />
+            </TableHead>
+            {COLUMNS.map((column) => (
+              <SortableHead
+                key={column.key}
+                title={column.title}
+                sortKey={column.key}
+                sort={sort}
+                className={column.className}
+                onSort={toggleSort}
+              />
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 && (
+            <TableRow className="hover:bg-transparent">
+              <TableCell colSpan={COLUMNS.length + 1} className="py-10 text-center italic text-muted-foreground/80">
+                No cards to show
+              </TableCell>
+            </TableRow>
+          )}
+          {pageGroups.flatMap((group) => [
+            ...(group.column
+              ? [
+                  <TableRow key={`group-${group.column.id}`} className="hover:bg-transparent">
+                    <TableCell colSpan={COLUMNS.length + 1} className="pt-5">
+                      <div className="flex items-center gap-2 font-display font-semibold text-foreground">
+                        <span className={`w-3 h-3 rounded-full ${group.column.accent}`} />
+                        {group.column.title}
+                        <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                          {groups.find((g) => g.column?.id === group.column?.id)?.rows.length}
+                        </span>
+                      </div>
+                    </TableCell>
+                  </TableRow>,
+                ]
+              : []),
+            ...group.rows.map(({ task, column }) => {
+              const selected = selectedIds.includes(task.id);
+              return (
+                <TableRow key={task.id} data-state={selected ? "selected" : undefined}>
+                  <TableCell>
+                    <Checkbox
+                      checked={selected}
+                      onCheckedChange={(checked) => toggleSelected(task.id, checked === true)}
+                      aria-label={`Select "${task.content}"`}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <TitleCell
+                      task={task}
+                      highlightTerms={highlightTerms}
+                      onRename={(content) => update(task.id, { content })}
+                      onOpen={() => onEditTask(task.id, column.id)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <ColumnMenu
+                      board={board}
+                      value={column.id}
+                      onChange={(columnId) => onMoveTasks([task.id], columnId)}
+                    >
+                      <button className={`${CELL_BUTTON} text-foreground`} aria-label="List">
+                        <span className={`w-2.5 h-2.5 shrink-0 rounded-full ${column.accent}`} />
+                        <span className="truncate">{column.title}</span>
+                      </button>
+                    </ColumnMenu>
+                  </TableCell>
+                  <TableCell>
+                    <LabelsCell
+                      task={task}
+                      labels={board.labels}
+                      onChange={(labelIds) => update(task.id, { labelIds })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <DueCell task={task} onChange={(dueDate) => update(task.id, { dueDate })} />
+                  </TableCell>
+                  <TableCell>
+                    <PriorityMenu
+                      value={task.priority}
+                      onChange={(priority) => update(task.id, { priority })}
+                    >
+                      <button className={CELL_BUTTON} aria-label="Priority">
+                        {task.priority ? (
+                          <span
+                            className={`rounded-full border px-2 py-0.5 text-xs font-semibold ${
+                              getPriority(task.priority).badge
+                            }`}
+                          >
+                            {getPriority(task.priority).name}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground/50">—</span>
+                        )}
+                      </button>
+                    </PriorityMenu>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {task.createdAt ? (
+                      <span title={format(task.createdAt, "PPpp")}>
+                        {format(task.createdAt, "MMM d, yyyy")}
+                      </span>
+                    ) : (
+                      <span className="text-muted-foreground/50">—</span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            }),
+          ])}
+        </TableBody>
+      </Table>
+      <TablePagination
+        page={currentPage}
+        pageCount={pageCount}
+        pageSize={pageSize}
+        rowCount={rows.length}
+        onPageChange={setPage}
+        onPageSizeChange={(size) => {
+          setPageSize(size);
+          setPage(0);
+        }}
+      />
+    </div>
+  );
+}
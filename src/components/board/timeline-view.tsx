@@ -0,0 +1,378 @@
+import { useEffect, useMemo, useRef, useState, type PointerEvent } from "react";
+import { addDays, differenceInCalendarDays, format, isWeekend } from "date-fns";
+import { CalendarClock } from "lucide-react";
+import { Highlight } from "@/components/highlight";
+import {
+  editSchedule,
+  getDayOffset,
+  getDependencyLinks,
+  getOffsetDate,
+  getSchedule,
+  getTimelineGroups,
+  getTimelineRange,
+  TIMELINE_GROUPINGS,
+  type Schedule,
+  type ScheduleEdit,
+  type TimelineGrouping,
+} from "@/lib/board/timeline";
+import { formatDueDate } from "@/lib/board/due";
+import type { BoardData, Column, Task } from "@/lib/board/types";
+
+type TimelineViewProps = {
+  board: BoardData;
+  /** The cards of each column that pass the current filter. */
+  visibleTaskIds: Record<string, string[]>;
+  highlightTerms: string[];
+  onEditTask: (taskId: string, columnId: string) => void;
+  onSchedule: (taskId: string, schedule: Schedule) => void;
+};
+
+const DAY_WIDTH = 36;
+const ROW_HEIGHT = 44;
+const GROUP_HEIGHT = 40;
+const HEADER_HEIGHT = 52;
+const NAME_WIDTH = 260;
+
+type Drag = { taskId: string; edit: ScheduleEdit; originX: number; days: number };
+
+/**
+ * Cards as bars over the days they are planned for. Bars are dragged to
+ * move them and by their ends to change how long they take; arrows run from
+ * each card to those that depend on it.
+ */
+export function TimelineView({
+  board,
+  visibleTaskIds,
+  highlightTerms,
+  onEditTask,
+  onSchedule,
+}: TimelineViewProps) {
+  const [grouping, setGrouping] = useState<TimelineGrouping>("column");
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const groups = useMemo(
+    () => getTimelineGroups(board, visibleTaskIds, grouping),
+    [board, visibleTaskIds, grouping]
+  );
+  const taskIds = groups.flatMap((group) => group.taskIds);
+  const today = new Date();
+  const range = getTimelineRange(taskIds.map((id) => board.tasks[id]), today);
+  const todayOffset = differenceInCalendarDays(today, range.start);
+  const width = range.days * DAY_WIDTH;
+
+  const columnOf = useMemo(() => {
+    const columns: Record<string, Column> = {};
+    board.columnOrder.forEach((columnId) =>
+      board.columns[columnId].taskIds.forEach((taskId) => {
+        columns[taskId] = board.columns[columnId];
+      })
+    );
+    return columns;
+  }, [board]);
+
+  // Opens scrolled to today, a few days in from the left.
+  const scrolled = useRef(false);
+  useEffect(() => {
+    if (scrolled.current || !scrollRef.current) return;
+    scrolled.current = true;
+    scrollRef.current.scrollTo({ left: Math.max(0, (todayOffset - 3) * DAY_WIDTH) });
+  }, [todayOffset]);
+
+  /** The schedule as drawn: mid-drag, where the bar has been dragged to. */
+  const getShownSchedule = (task: Task) => {
+    const schedule = getSchedule(task);
+    if (!schedule || drag?.taskId !== task.id) return schedule;
+    return editSchedule(schedule, drag.edit, drag.days);
+  };
+
+  // Where each card's row is, for the dependency arrows.
+  const rowTops: Record<string, number> = {};
+  let height = 0;
+  groups.forEach((group) => {
+    height += GROUP_HEIGHT;
+    group.taskIds.forEach((taskId) => {
+      rowTops[taskId] = height;
+      height += ROW_HEIGHT;
+    });
+  });
+  const links = getDependencyLinks(board.tasks, taskIds, getShownSchedule);
+
+  const startDrag = (e: PointerEvent<HTMLDivElement>, taskId: string) => {
+    if (e.button !== 0) return;
+    const edge = (e.target as HTMLElement).dataset.edge as ScheduleEdit | undefined;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ taskId, edit: edge ?? "move", originX: e.clientX, days: 0 });
+  };
+
+  const moveDrag = (e: PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const days = Math.round((e.clientX - drag.originX) / DAY_WIDTH);
+    if (days !== drag.days) setDrag({ ...drag, days });
+  };
+
+  const endDrag = (task: Task) => {
+    if (!drag) return;
+    const schedule = getSchedule(task);
+    if (drag.days !== 0 && schedule) {
+      onSchedule(task.id, editSchedule(schedule, drag.edit, drag.days));
+    } else if (drag.edit === "move") {
+      // A bar clicked without moving opens the card.
+      onEditTask(task.id, columnOf[task.id].id);
+    }
+    setDrag(null);
+  };
+
+  const renderBar = (task: Task) => {
+    const schedule = getShownSchedule(task);
+    const column = columnOf[task.id];
+    if (!schedule) {
+      return (
+        <button
+          className="absolute inset-0 text-left text-xs italic text-muted-foreground/80 opacity-0 hover:opacity-100 focus:opacity-100 transition"
+          style={{ paddingLeft: Math.max(0, todayOffset) * DAY_WIDTH }}
+          onClick={(e) => {
+            // Schedules the card for the day that was clicked; a click from
+            // the keyboard has no position, and schedules it for today.
+            const box = e.currentTarget.getBoundingClientRect();
+            const offset = e.clientX ? Math.floor((e.clientX - box.left) / DAY_WIDTH) : todayOffset;
+            const day = getOffsetDate(range.start, offset);
+            onSchedule(task.id, { startDate: day, endDate: day });
+          }}
+        >
+          Click a day to schedule
+        </button>
+      );
+    }
+    const start = getDayOffset(range.start, schedule.startDate);
+    const length = getDayOffset(range.start, schedule.endDate) - start + 1;
+    const dates = `${formatDueDate(schedule.startDate)} – ${formatDueDate(schedule.endDate)}`;
+    const dragging = drag?.taskId === task.id;
+    return (
+      <div
+        role="button"
+        tabIndex={0}
+        className={`group absolute top-1.5 flex items-center rounded-lg border-2 text-xs font-semibold text-foreground select-none touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400 ${column.border} ${column.gradient} ${
+          dragging ? "cursor-grabbing shadow-lg ring-2 ring-blue-400 z-10" : "cursor-grab shadow-sm hover:shadow-md"
+        }`}
+        style={{ left: start * DAY_WIDTH, width: length * DAY_WIDTH, height: ROW_HEIGHT - 12 }}
+        title={`${task.content}: ${dates}`}
+        aria-label={`${task.content}, ${dates}`}
+        onPointerDown={(e) => startDrag(e, task.id)}
+        onPointerMove={moveDrag}
+        onPointerUp={() => endDrag(task)}
+        onPointerCancel={() => setDrag(null)}
+        onKeyDown={(e) => {
+          // Arrows move the bar a day; with Shift they change its end.
+          if (e.key === "Enter") {
+            onEditTask(task.id, column.id);
+          } else if (e.key === "ArrowLeft" || e.key === "ArrowRight") {
+            e.preventDefault();
+            const edit = e.shiftKey ? "end" : "move";
+            onSchedule(task.id, editSchedule(schedule, edit, e.key === "ArrowLeft" ? -1 : 1));
+          }
+        }}
+      >
+        <span
+          data-edge="start"
+          className="absolute inset-y-0 left-0 w-2 cursor-ew-resize rounded-l-md group-hover:bg-black/10"
+        />
+        <span className={`ml-2.5 w-2 h-2 shrink-0 rounded-full ${column.accent}`} />
+        <span className="truncate px-1.5 pointer-events-none">
+          <Highlight text={task.content} terms={highlightTerms} />
+        </span>
+        <span
+          data-edge="end"
+          className="absolute inset-y-0 right-0 w-2 cursor-ew-resize rounded-r-md group-hover:bg-black/10"
+        />
+      </div>
+    );
+  };
+
+  const days = Array.from({ length: range.days }, (_, i) => addDays(range.start, i));
+
+  return (
+    <div className="flex flex-col gap-4 rounded-3xl border-2 border-border bg-card/90 p-6 shadow-md">
+      <div className="flex flex-wrap items-center gap-3">
+        <CalendarClock className="w-5 h-5 text-muted-foreground/80" />
+        <h2 className="text-2xl font-bold text-foreground font-display">Timeline</h2>
+        <button
+          className="px-3 py-1.5 rounded-xl border-2 border-border text-sm font-medium text-foreground/80 hover:bg-muted transition"
+          onClick={() =>
+            scrollRef.current?.scrollTo({
+              left: Math.max(0, (todayOffset - 3) * DAY_WIDTH),
+              behavior: "smooth",
+            })
+          }
+        >
+          Today
+        </button>
+        <div className="ml-auto flex items-center gap-2 text-sm font-medium text-muted-foreground">
+          Group by
+          <div
+            className="flex items-center gap-0.5 rounded-xl border-2 border-border p-0.5"
+            role="radiogroup"
+            aria-label="Group by"
+          >
+            {TIMELINE_GROUPINGS.map((option) => (
+              <button
+                key={option.id}
+                className={`rounded-lg px-3 py-1 transition ${
+                  option.id === grouping ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300" : "hover:bg-muted"
+                }`}
+                onClick={() => setGrouping(option.id)}
+                role="radio"
+                aria-checked={option.id === grouping}
+              >
+                {option.name}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+      {groups.length === 0 ? (
+        <p className="py-10 text-center italic text-muted-foreground/80">No cards to show</p>
+      ) : (
+        <div ref={scrollRef} className="overflow-x-auto rounded-2xl border-2 border-border">
+          <div className="relative" style={{ width: NAME_WIDTH + width }}>
+            <div className="flex bg-muted/50" style={{ height: HEADER_HEIGHT }}>
+              <div
+                className="sticky left-0 z-10 flex items-end border-r-2 border-border bg-muted/50 px-4 pb-2 text-xs font-semibold uppercase tracking-wide text-muted-foreground"
+                style={{ width: NAME_WIDTH, minWidth: NAME_WIDTH }}
+              >
+                Card
+              </div>
+              {days.map((day, i) => (
+                <div
+                  key={i}
+                  className={`relative flex flex-col items-center justify-end border-b-2 border-border pb-1.5 text-xs ${
+                    isWeekend(day) ? "text-muted-foreground/50" : "text-muted-foreground"
+                  }`}
+                  style={{ width: DAY_WIDTH, minWidth: DAY_WIDTH }}
+                >
+                  {(i === 0 || day.getDate() === 1) && (
+                    <span className="absolute left-1 top-1.5 whitespace-nowrap font-semibold text-foreground/80">
+                      {format(day, "MMM yyyy")}
+                    </span>
+                  )}
+                  <span className={i === todayOffset ? "rounded-full bg-blue-500 px-1.5 text-white" : ""}>
+                    {format(day, "d")}
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="relative">
+              {/* Weekends, and the line for today */}
+              <div className="pointer-events-none absolute inset-y-0" style={{ left: NAME_WIDTH, width }}>
+                {days.map(
+                  (day, i) =>
+                    isWeekend(day) && (
+                      <div
+                        key={i}
+                        className="absolute inset-y-0 bg-muted/70"
+                        style={{ left: i * DAY_WIDTH, width: DAY_WIDTH }}
+                      />
+                    )
+                )}
+                {todayOffset >= 0 && todayOffset < range.days && (
+                  <div
+                    className="absolute inset-y-0 z-10 w-0.5 bg-red-400"
+                    style={{ left: (todayOffset + 0.5) * DAY_WIDTH }}
+                    aria-label="Today"
+                  />
+                )}
+              </div>
+              {groups.map((group) => (
+                <div key={group.id}>
+                  <div className="flex items-center" style={{ height: GROUP_HEIGHT }}>
+                    <div
+                      className="sticky left-0 z-10 flex h-full items-center gap-2 border-r-2 border-border bg-card/95 px-4 font-display font-semibold text-foreground"
+                      style={{ width: NAME_WIDTH, minWidth: NAME_WIDTH }}
+                    >
+                      {group.accent && <span className={`w-3 h-3 rounded-full ${group.accent}`} />}
+                      {group.badge ? (
+                        <span className={`rounded-full px-2.5 py-0.5 text-sm ${group.badge}`}>
+                          {group.title}
+                        </span>
+                      ) : (
+                        <span className="truncate">{group.title}</span>
+                      )}
+                      <span className="rounded-full bg-muted px-2 py-0.5 text-xs text-muted-foreground">
+                        {group.taskIds.length}
+                      </span>
+                    </div>
+                  </div>
+                  {group.taskIds.map((taskId) => {
+                    const task = board.tasks[taskId];
+                    return (
+                      <div
+                        key={taskId}
+                        className="flex border-t border-border"
+                        style={{ height: ROW_HEIGHT }}
+                      >
+                        <button
+                          className="sticky left-0 z-10 flex items-center truncate border-r-2 border-border bg-card/95 px-4 text-left text-sm font-medium text-foreground hover:text-blue-600 dark:hover:text-blue-400 transition"
+                          style={{ width: NAME_WIDTH, minWidth: NAME_WIDTH }}
+                          onClick={() => onEditTask(taskId, columnOf[taskId].id)}
+                        >
+                          <span className="truncate">
+                            <Highlight text={task.content} terms={highlightTerms} />
+                          </span>
+                        </button>
+                        <div className="relative" style={{ width }}>
+                          {renderBar(task)}
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ))}
+              <svg
+                className="pointer-events-none absolute top-0 overflow-visible"
+                style={{ left: NAME_WIDTH }}
+                width={width}
+                height={height}
+                aria-hidden
+              >
+                <defs>
+                  {["slate", "red"].map((color) => (
+                    <marker
+                      key={color}
+                      id={`timeline-arrow-${color}`}
+                      viewBox="0 0 8 8"
+                      refX="7"
+                      refY="4"
+                      markerWidth="8"
+                      markerHeight="8"
+                      orient="auto"
+                    >
+                      <path d="M0,0 L8,4 L0,8 z" className={color === "red" ? "fill-red-500" : "fill-muted-foreground"} />
+                    </marker>
+                  ))}
+                </defs>
+                {links.map((link) => {
+                  const from = getShownSchedule(board.tasks[link.from])!;
+                  const to = getShownSchedule(board.tasks[link.to])!;
+                  const x1 = (getDayOffset(range.start, from.endDate) + 1) * DAY_WIDTH;
+                  const y1 = rowTops[link.from] + ROW_HEIGHT / 2;
+                  const x2 = getDayOffset(range.start, to.startDate) * DAY_WIDTH;
+                  const y2 = rowTops[link.to] + ROW_HEIGHT / 2;
+                  const bend = Math.max(16, Math.abs(x2 - x1) / 2);
+                  return (
+                    <path
+                      key={`${link.from}-${link.to}`}
+                      d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                      className={`fill-none stroke-2 ${link.late ? "stroke-red-500" : "stroke-muted-foreground"}`}
+                      strokeDasharray={link.late ? "4 3" : undefined}
+                      markerEnd={`url(#timeline-arrow-${link.late ? "red" : "slate"})`}
+                    />
+                  );
+                })}
+              </svg>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
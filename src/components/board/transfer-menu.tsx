@@ -0,0 +1,47 @@
+import { ArrowDownUp, FileJson, FileSpreadsheet, FileText, FileUp } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { ExportFormat } from "@/lib/board/transfer";
+
+type TransferMenuProps = {
+  onExport: (format: ExportFormat) => void;
+  onImport: () => void;
+};
+
+export function TransferMenu({ onExport, onImport }: TransferMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="p-2 rounded-full hover:bg-muted transition"
+          aria-label="Import or export"
+          title="Import or export"
+        >
+          <ArrowDownUp className="w-5 h-5 text-muted-foreground" />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Export board</DropdownMenuLabel>
+        <DropdownMenuItem onSelect={() => onExport("json")}>
+          <FileJson /> JSON (can be imported again)
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onExport("csv")}>
+          <FileSpreadsheet /> CSV spreadsheet
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => onExport("markdown")}>
+          <FileText /> Markdown checklist
+        </DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={onImport}>
+          <FileUp /> Import from file or Trello…
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
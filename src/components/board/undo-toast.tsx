@@ -0,0 +1,25 @@
+import toast, { type Toast } from "react-hot-toast";
+
+type UndoToastProps = {
+  toast: Toast;
+  message: string;
+  onUndo: () => void;
+};
+
+/** Toast body for `toast((t) => <UndoToast toast={t} ... />)`. */
+export function UndoToast({ toast: t, message, onUndo }: UndoToastProps) {
+  return (
+    <span className="flex items-center gap-4">
+      {message}
+      <button
+        className="rounded-lg bg-muted px-3 py-1 text-sm font-semibold text-blue-600 dark:text-blue-400 hover:bg-blue-100 dark:hover:bg-blue-500/20 transition"
+        onClick={() => {
+          onUndo();
+          toast.dismiss(t.id);
+        }}
+      >
+        Undo
+      </button>
+    </span>
+  );
+}
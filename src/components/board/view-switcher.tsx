@@ -0,0 +1,56 @@
+import {
+  BarChart3,
+  CalendarDays,
+  Columns3,
+  GanttChart,
+  Table2,
+  type LucideIcon,
+} from "lucide-react";
+import { BOARD_VIEWS, type BoardView } from "@/lib/board/views";
+
+const VIEW_ICONS: Record<BoardView, LucideIcon> = {
+  board: Columns3,
+  table: Table2,
+  calendar: CalendarDays,
+  timeline: GanttChart,
+  analytics: BarChart3,
+};
+
+export function ViewIcon({ view, className }: { view: BoardView; className?: string }) {
+  const Icon = VIEW_ICONS[view];
+  return <Icon className={className} />;
+}
+
+type ViewSwitcherProps = {
+  value: BoardView;
+  onChange: (view: BoardView) => void;
+};
+
+export function ViewSwitcher({ value, onChange }: ViewSwitcherProps) {
+  return (
+    <div
+      className="flex items-center gap-0.5 rounded-xl border-2 border-border bg-card/90 p-0.5"
+      role="radiogroup"
+      aria-label="View"
+    >
+      {BOARD_VIEWS.map((view) => {
+        const selected = view.id === value;
+        return (
+          <button
+            key={view.id}
+            className={`flex items-center gap-1.5 rounded-lg px-2.5 py-1.5 text-sm font-medium transition ${
+              selected ? "bg-blue-100 dark:bg-blue-500/20 text-blue-700 dark:text-blue-300" : "text-muted-foreground hover:bg-muted"
+            }`}
+            onClick={() => onChange(view.id)}
+            role="radio"
+            aria-checked={selected}
+            title={`${view.name} view`}
+          >
+            <ViewIcon view={view.id} className="w-4 h-4" />
+            {view.name}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
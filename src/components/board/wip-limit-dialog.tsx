@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+import type { Column, WipLimit, WipPolicy } from "@/lib/board/types";
+import { WIP_POLICIES } from "@/lib/board/wip";
+
+type WipLimitDialogProps = {
+  column: Column;
+  onSave: (wipLimit: WipLimit | null) => void;
+  onClose: () => void;
+};
+
+export function WipLimitDialog({ column, onSave, onClose }: WipLimitDialogProps) {
+  const [limit, setLimit] = useState(String(column.wipLimit?.limit ?? ""));
+  const [policy, setPolicy] = useState<WipPolicy>(column.wipLimit?.policy ?? "warn");
+
+  const parsed = Number(limit);
+  const valid = limit.trim() === "" || (Number.isInteger(parsed) && parsed >= 1 && parsed <= 999);
+
+  const save = () => {
+    if (!valid) return;
+    onSave(limit.trim() === "" ? null : { limit: parsed, policy });
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md rounded-3xl sm:rounded-3xl p-10 border-2 border-blue-100 dark:border-blue-500/30">
+        <DialogTitle className="text-xl font-bold text-foreground font-display">
+          Work-in-progress limit
+        </DialogTitle>
+        <DialogDescription className="-mt-2 text-muted-foreground/80">
+          for {column.title}, which has {column.taskIds.length}{" "}
+          {column.taskIds.length === 1 ? "card" : "cards"} now
+        </DialogDescription>
+        <div className="flex flex-col gap-2">
+          <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            Maximum cards
+          </span>
+          <input
+            type="number"
+            min={1}
+            max={999}
+            className="w-full border-2 border-border rounded-xl px-4 py-2.5 focus:outline-none focus:ring-2 focus:ring-blue-400 text-foreground transition"
+            placeholder="No limit"
+            value={limit}
+            onChange={(e) => setLimit(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") save();
+            }}
+            aria-label="Maximum cards"
+            aria-invalid={!valid}
+            autoFocus
+          />
+          {!valid && <p className="text-sm text-red-600 dark:text-red-400">Enter a whole number from 1 to 999.</p>}
+        </div>
+        <div className="flex flex-col gap-2" role="radiogroup" aria-label="When the limit is reached">
+          <span className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+            When the limit is reached
+          </span>
+          {WIP_POLICIES.map((option) => (
+            <label key={option.id} className="flex items-start gap-3 text-foreground/80">
+              <input
+                type="radio"
+                name="wip-policy"
+                className="mt-1.5"
+                checked={policy === option.id}
+                onChange={() => setPolicy(option.id)}
+              />
+              <span>
+                <span className="font-medium text-foreground">{option.name}</span>
+                <span className="block text-sm text-muted-foreground/80">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </div>
+        <div className="flex justify-end gap-3 mt-2">
+          {column.wipLimit && (
+            <button
+              className="mr-auto px-5 py-2.5 rounded-xl text-muted-foreground font-medium hover:bg-muted transition"
+              onClick={() => onSave(null)}
+            >
+              Remove limit
+            </button>
+          )}
+          <button
+            className="px-5 py-2.5 rounded-xl bg-secondary text-secondary-foreground font-medium hover:bg-secondary/80 transition"
+            onClick={onClose}
+          >
+            Cancel
+          </button>
+          <button
+            className={`px-5 py-2.5 rounded-xl font-semibold transition shadow ${
+              valid ? "bg-blue-500 text-white hover:bg-blue-600" : "bg-blue-200 dark:bg-blue-500/30 text-white cursor-not-allowed"
+            }`}
+            onClick={save}
+            disabled={!valid}
+          >
+            Save
+          </button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import { useState } from "react";
+import {
+  Command as CommandRoot,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { useCommands } from "@/hooks/use-commands";
+import type { Command } from "@/lib/commands";
+
+type CommandPaletteProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+const titleOf = (command: Command, input: string) =>
+  typeof command.title === "function" ? command.title(input) : command.title;
+
+export function CommandPalette({ open, onOpenChange }: CommandPaletteProps) {
+  const commands = useCommands();
+  const [input, setInput] = useState("");
+  const typed = input.trim();
+
+  const groups = new Map<string, Command[]>();
+  commands.forEach((command) => {
+    if (command.takesInput && !typed) return;
+    groups.set(command.group, [...(groups.get(command.group) ?? []), command]);
+  });
+
+  // cmdk matches on `value`, which must be unique; number repeated titles
+  // (two cards with the same name) instead of mixing ids into the search.
+  const usedValues = new Map<string, number>();
+  const valueOf = (title: string) => {
+    const count = usedValues.get(title) ?? 0;
+    usedValues.set(title, count + 1);
+    return count === 0 ? title : `${title} (${count + 1})`;
+  };
+
+  const close = () => {
+    onOpenChange(false);
+    setInput("");
+  };
+
+  const run = (command: Command) => {
+    close();
+    command.run(typed);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => (next ? onOpenChange(true) : close())}>
+      <DialogContent className="overflow-hidden p-0 max-w-xl rounded-2xl sm:rounded-2xl">
+        <DialogTitle className="sr-only">Command palette</DialogTitle>
+        <CommandRoot
+          loop
+          className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2.5 [&_[cmdk-item]_svg]:h-4 [&_[cmdk-item]_svg]:w-4"
+        >
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder="Type a command or search cards..."
+          />
+          <CommandList className="max-h-[420px]">
+            <CommandEmpty>No matching commands.</CommandEmpty>
+            {Array.from(groups, ([group, items]) => (
+              <CommandGroup key={group} heading={group}>
+                {items.map((command) => {
+                  const title = titleOf(command, typed);
+                  return (
+                    <CommandItem
+                      key={command.id}
+                      value={valueOf(title)}
+                      keywords={command.keywords}
+                      onSelect={() => run(command)}
+                    >
+                      {command.icon}
+                      <span className="truncate">{title}</span>
+                      {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+                    </CommandItem>
+                  );
+                })}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </CommandRoot>
+      </DialogContent>
+    </Dialog>
+  );
+}
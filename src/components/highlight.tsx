@@ -0,0 +1,27 @@
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+type HighlightProps = {
+  text: string;
+  /** Case-insensitive substrings to mark. */
+  terms: string[];
+};
+
+export function Highlight({ text, terms }: HighlightProps) {
+  const needles = terms.filter(Boolean);
+  if (needles.length === 0) return <>{text}</>;
+  const pattern = new RegExp(`(${needles.map(escapeRegExp).join("|")})`, "gi");
+  // With a capturing group, split() puts the matches at the odd indexes.
+  return (
+    <>
+      {text.split(pattern).map((part, i) =>
+        i % 2 === 1 ? (
+          <mark key={i} className="rounded bg-yellow-200 dark:bg-yellow-500/40 px-0.5 text-inherit">
+            {part}
+          </mark>
+        ) : (
+          part
+        )
+      )}
+    </>
+  );
+}
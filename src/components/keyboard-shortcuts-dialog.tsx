@@ -0,0 +1,80 @@
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from "@/components/ui/dialog";
+
+const SHORTCUTS: { group: string; items: [keys: string[], description: string][] }[] = [
+  {
+    group: "Navigate",
+    items: [
+      [["↑", "↓", "←", "→"], "Move focus between cards and lists"],
+      [["/"], "Search the board"],
+      [["Ctrl", "K"], "Open the command palette"],
+      [["Ctrl", "B"], "Toggle the sidebar"],
+      [["?"], "Show this list"],
+    ],
+  },
+  {
+    group: "Cards",
+    items: [
+      [["N"], "New card in the focused list"],
+      [["E"], "Edit the focused card (also Enter)"],
+      [["Delete"], "Delete the focused card (also Backspace), after confirming"],
+      [["A"], "Archive the focused card"],
+      [["["], "Move the card to the previous list"],
+      [["]"], "Move the card to the next list"],
+      [["Shift", "↑ ↓ ← →"], "Move the card up, down or across lists"],
+      [["Space"], "Pick up the card to drag it with the arrow keys"],
+    ],
+  },
+  {
+    group: "History",
+    items: [
+      [["Ctrl", "Z"], "Undo"],
+      [["Ctrl", "Shift", "Z"], "Redo (also Ctrl+Y)"],
+    ],
+  },
+];
+
+type KeyboardShortcutsDialogProps = {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+};
+
+export function KeyboardShortcutsDialog({ open, onOpenChange }: KeyboardShortcutsDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl rounded-3xl sm:rounded-3xl p-10 border-2 border-blue-100 dark:border-blue-500/30 max-h-[90vh] overflow-y-auto">
+        <DialogTitle className="text-2xl font-bold text-foreground font-display">
+          Keyboard shortcuts
+        </DialogTitle>
+        <DialogDescription className="-mt-2 text-muted-foreground/80">
+          Use Cmd instead of Ctrl on a Mac.
+        </DialogDescription>
+        <div className="grid gap-6 sm:grid-cols-2">
+          {SHORTCUTS.map(({ group, items }) => (
+            <section key={group} className={group === "Cards" ? "sm:row-span-2" : undefined}>
+              <h3 className="mb-2 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                {group}
+              </h3>
+              <dl className="flex flex-col gap-2 text-sm">
+                {items.map(([keys, description]) => (
+                  <div key={description} className="flex items-center justify-between gap-4">
+                    <dt className="text-foreground/80">{description}</dt>
+                    <dd className="flex shrink-0 gap-1">
+                      {keys.map((key) => (
+                        <kbd
+                          key={key}
+                          className="min-w-[1.5rem] rounded-md border border-border bg-muted/50 px-1.5 py-0.5 text-center font-sans text-xs font-semibold text-foreground/80 shadow-sm"
+                        >
+                          {key}
+                        </kbd>
+                      ))}
+                    </dd>
+                  </div>
+                ))}
+              </dl>
+            </section>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
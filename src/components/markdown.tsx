@@ -0,0 +1,178 @@
+import type { ReactNode } from "react";
+import { cn } from "@/lib/utils";
+
+// A deliberately small Markdown renderer for card descriptions: headings,
+// lists (including `- [ ]` items), quotes, fenced code, and inline code,
+// bold, italic and links. Output is built from React elements, never HTML
+// strings, so user text cannot inject markup.
+
+const INLINE_PATTERN = /(`[^`]+`)|(\*\*[^*]+\*\*)|(\*[^*\s][^*]*\*|_[^_\s][^_]*_)|\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+const isSafeHref = (href: string) => /^(https?:|mailto:)/i.test(href);
+
+function renderInline(text: string, keyPrefix: string): ReactNode[] {
+  const nodes: ReactNode[] = [];
+  let last = 0;
+  let match: RegExpExecArray | null;
+  // Fresh instance per call: the nested calls below would otherwise move a
+  // shared `lastIndex`.
+  const pattern = new RegExp(INLINE_PATTERN);
+  while ((match = pattern.exec(text))) {
+    if (match.index > last) nodes.push(text.slice(last, match.index));
+    const key = `${keyPrefix}-${match.index}`;
+    const [token, code, bold, italic, linkText, href] = match;
+    if (code) {
+      nodes.push(
+        <code key={key} className="rounded bg-muted px-1 py-0.5 font-mono text-[0.9em]">
+          {code.slice(1, -1)}
+        </code>
+      );
+    } else if (bold) {
+      nodes.push(<strong key={key}>{renderInline(bold.slice(2, -2), key)}</strong>);
+    } else if (italic) {
+      nodes.push(<em key={key}>{renderInline(italic.slice(1, -1), key)}</em>);
+    } else if (linkText && href && isSafeHref(href)) {
+      nodes.push(
+        <a key={key} href={href} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 underline">
+          {linkText}
+        </a>
+      );
+    } else {
+      nodes.push(token);
+    }
+    last = match.index + token.length;
+  }
+  if (last < text.length) nodes.push(text.slice(last));
+  return nodes;
+}
+
+type Block =
+  | { kind: "heading"; level: number; text: string }
+  | { kind: "code"; text: string }
+  | { kind: "quote"; lines: string[] }
+  | { kind: "list"; ordered: boolean; items: string[] }
+  | { kind: "paragraph"; lines: string[] };
+
+const LIST_ITEM = /^\s*([-*+]|\d+[.)])\s+(.*)$/;
+
+function parseBlocks(source: string): Block[] {
+  const lines = source.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: Block[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i += 1;
+      continue;
+    }
+    if (line.startsWith("```")) {
+      const code: string[] = [];
+      i += 1;
+      while (i < lines.length && !lines[i].startsWith("```")) code.push(lines[i++]);
+      i += 1;
+      blocks.push({ kind: "code", text: code.join("\n") });
+      continue;
+    }
+    const heading = /^(#{1,3})\s+(.*)$/.exec(line);
+    if (heading) {
+      blocks.push({ kind: "heading", level: heading[1].length, text: heading[2] });
+      i += 1;
+      continue;
+    }
+    if (line.startsWith(">")) {
+      const quote: string[] = [];
+      while (i < lines.length && lines[i].startsWith(">")) quote.push(lines[i++].replace(/^>\s?/, ""));
+      blocks.push({ kind: "quote", lines: quote });
+      continue;
+    }
+    const item = LIST_ITEM.exec(line);
+    if (item) {
+      const ordered = /\d/.test(item[1]);
+      const items: string[] = [];
+      let next: RegExpExecArray | null;
+      while (i < lines.length && (next = LIST_ITEM.exec(lines[i])) && /\d/.test(next[1]) === ordered) {
+        items.push(next[2]);
+        i += 1;
+      }
+      blocks.push({ kind: "list", ordered, items });
+      continue;
+    }
+    const paragraph: string[] = [];
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !lines[i].startsWith("```") &&
+      !lines[i].startsWith(">") &&
+      !/^#{1,3}\s/.test(lines[i]) &&
+      !LIST_ITEM.test(lines[i])
+    ) {
+      paragraph.push(lines[i++]);
+    }
+    blocks.push({ kind: "paragraph", lines: paragraph });
+  }
+  return blocks;
+}
+
+const withBreaks = (lines: string[], key: string) =>
+  lines.flatMap((line, i) => [
+    ...(i > 0 ? [<br key={`${key}-br-${i}`} />] : []),
+    ...renderInline(line, `${key}-${i}`),
+  ]);
+
+function renderListItem(text: string, key: string) {
+  const checkbox = /^\[([ xX])\]\s+(.*)$/.exec(text);
+  if (!checkbox) return <li key={key}>{renderInline(text, key)}</li>;
+  return (
+    <li key={key} className="list-none -ml-5 flex items-start gap-2">
+      <input type="checkbox" className="mt-1.5" checked={checkbox[1] !== " "} readOnly disabled />
+      <span>{renderInline(checkbox[2], key)}</span>
+    </li>
+  );
+}
+
+type MarkdownProps = {
+  source: string;
+  className?: string;
+};
+
+export function Markdown({ source, className }: MarkdownProps) {
+  return (
+    <div className={cn("space-y-3 break-words text-foreground", className)}>
+      {parseBlocks(source).map((block, i) => {
+        const key = `b${i}`;
+        switch (block.kind) {
+          case "heading": {
+            const size = ["text-xl", "text-lg", "text-base"][block.level - 1];
+            return (
+              <p key={key} className={cn("font-bold text-foreground", size)}>
+                {renderInline(block.text, key)}
+              </p>
+            );
+          }
+          case "code":
+            return (
+              <pre key={key} className="overflow-x-auto rounded-xl bg-muted p-3 font-mono text-sm">
+                {block.text}
+              </pre>
+            );
+          case "quote":
+            return (
+              <blockquote key={key} className="border-l-4 border-border pl-3 text-muted-foreground">
+                {withBreaks(block.lines, key)}
+              </blockquote>
+            );
+          case "list": {
+            const List = block.ordered ? "ol" : "ul";
+            return (
+              <List key={key} className={cn("space-y-1 pl-5", block.ordered ? "list-decimal" : "list-disc")}>
+                {block.items.map((item, j) => renderListItem(item, `${key}-${j}`))}
+              </List>
+            );
+          }
+          case "paragraph":
+            return <p key={key}>{withBreaks(block.lines, key)}</p>;
+        }
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { Monitor, Moon, Sun, type LucideIcon } from "lucide-react";
+import { useTheme } from "next-themes";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { parseTheme, THEMES, type ThemeChoice } from "@/lib/theme";
+
+const THEME_ICONS: Record<ThemeChoice, LucideIcon> = {
+  light: Sun,
+  dark: Moon,
+  system: Monitor,
+};
+
+export function ThemeIcon({ theme, className }: { theme: ThemeChoice; className?: string }) {
+  const Icon = THEME_ICONS[theme];
+  return <Icon className={className} />;
+}
+
+/** Picks light, dark or the system's scheme; the choice is remembered. */
+export function ThemeMenu() {
+  const { theme, resolvedTheme, setTheme } = useTheme();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button className="p-2 rounded-full hover:bg-muted transition" aria-label="Theme" title="Theme">
+          <ThemeIcon
+            theme={resolvedTheme === "dark" ? "dark" : "light"}
+            className="w-5 h-5 text-muted-foreground"
+          />
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuLabel>Theme</DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        <DropdownMenuRadioGroup value={parseTheme(theme)} onValueChange={setTheme}>
+          {THEMES.map((option) => (
+            <DropdownMenuRadioItem key={option.id} value={option.id} className="gap-2">
+              <ThemeIcon theme={option.id} className="w-4 h-4" />
+              {option.name}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
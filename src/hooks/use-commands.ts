@@ -0,0 +1,15 @@
+import { useEffect, useSyncExternalStore } from "react";
+import { getCommands, registerCommands, subscribeCommands, type Command } from "@/lib/commands";
+
+/**
+ * Registers `commands` with the command palette while the calling component
+ * is mounted. Memoize the array: a new one re-registers.
+ */
+export function useRegisterCommands(commands: Command[]) {
+  useEffect(() => registerCommands(commands), [commands]);
+}
+
+/** Every registered command, re-rendering when the set changes. */
+export function useCommands() {
+  return useSyncExternalStore(subscribeCommands, getCommands);
+}
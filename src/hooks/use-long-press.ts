@@ -0,0 +1,51 @@
+import { useEffect, useRef, type MouseEvent, type PointerEvent } from "react";
+
+/** How far, in pixels, a pointer may wander before it counts as a swipe or scroll. */
+const MOVE_TOLERANCE = 10;
+
+/**
+ * Pointer handlers that call `onLongPress` once a pointer has been held
+ * still on the element for `delay` ms. The click that ends a long press is
+ * swallowed, as is the browser's own long-press menu. Without a callback
+ * there are no handlers.
+ */
+export function useLongPress(onLongPress: (() => void) | undefined, delay = 500) {
+  const timer = useRef<number | undefined>(undefined);
+  const start = useRef<{ x: number; y: number } | null>(null);
+  const fired = useRef(false);
+
+  const cancel = () => {
+    window.clearTimeout(timer.current);
+    start.current = null;
+  };
+
+  useEffect(() => () => window.clearTimeout(timer.current), []);
+
+  if (!onLongPress) return {};
+
+  return {
+    onPointerDown: (e: PointerEvent) => {
+      fired.current = false;
+      start.current = { x: e.clientX, y: e.clientY };
+      timer.current = window.setTimeout(() => {
+        fired.current = true;
+        start.current = null;
+        onLongPress();
+      }, delay);
+    },
+    onPointerMove: (e: PointerEvent) => {
+      if (!start.current) return;
+      const distance = Math.hypot(e.clientX - start.current.x, e.clientY - start.current.y);
+      if (distance > MOVE_TOLERANCE) cancel();
+    },
+    onPointerUp: cancel,
+    onPointerLeave: cancel,
+    onPointerCancel: cancel,
+    onClickCapture: (e: MouseEvent) => {
+      if (!fired.current) return;
+      fired.current = false;
+      e.stopPropagation();
+    },
+    onContextMenu: (e: MouseEvent) => e.preventDefault(),
+  };
+}
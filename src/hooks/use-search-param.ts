@@ -0,0 +1,31 @@
+import { useCallback, useEffect, useState } from "react";
+
+const readParam = (name: string) => new URLSearchParams(window.location.search).get(name) ?? "";
+
+/**
+ * A string state mirrored into the `name` query parameter, so the current
+ * value survives reloads and can be shared as a link. Uses `replaceState`
+ * to avoid a history entry per keystroke.
+ */
+export function useSearchParam(name: string) {
+  const [value, setValue] = useState(() => readParam(name));
+
+  useEffect(() => {
+    const onPopState = () => setValue(readParam(name));
+    window.addEventListener("popstate", onPopState);
+    return () => window.removeEventListener("popstate", onPopState);
+  }, [name]);
+
+  const update = useCallback(
+    (next: string) => {
+      setValue(next);
+      const url = new URL(window.location.href);
+      if (next) url.searchParams.set(name, next);
+      else url.searchParams.delete(name);
+      window.history.replaceState(window.history.state, "", url);
+    },
+    [name]
+  );
+
+  return [value, update] as const;
+}
@@ -0,0 +1,214 @@
+import { use, useCallback, useEffect, useReducer, useRef } from "react";
+import toast from "react-hot-toast";
+import { recordActivity } from "@/lib/board/activity";
+import {
+  diffBoards,
+  dropConflictingHistory,
+  EMPTY_HISTORY,
+  pushEntry,
+  redoStep,
+  undoStep,
+  type BoardHistory,
+} from "@/lib/board/history";
+import { createId } from "@/lib/board/operations";
+import { openBoardStorage, type StoredWorkspace } from "@/lib/board/storage";
+import {
+  diffWorkspaces,
+  mergeWorkspaceChange,
+  normalizePatchedBoard,
+  type SyncConflict,
+  type WorkspaceChange,
+} from "@/lib/board/sync";
+import type { BoardData, Workspace } from "@/lib/board/types";
+import { getActiveBoard, updateBoard } from "@/lib/board/workspace";
+
+type WorkspaceState = {
+  workspace: Workspace;
+  /** Undo/redo stacks keyed by board id. */
+  histories: Record<string, BoardHistory>;
+  /** The workspace as last merged from another tab, which isn't echoed back. */
+  remote: Workspace | null;
+  /** Cards the last merge found edited here too. */
+  conflicts: SyncConflict[];
+};
+
+type WorkspaceAction =
+  | { type: "workspace"; update: (prev: Workspace) => Workspace }
+  | {
+      type: "board";
+      id: string;
+      label: string;
+      at: number;
+      update: (prev: BoardData) => BoardData;
+    }
+  | { type: "undo"; entryId?: string }
+  | { type: "redo" }
+  | { type: "remote"; change: WorkspaceChange };
+
+const NO_CONFLICTS: SyncConflict[] = [];
+
+const withBoardData = (state: WorkspaceState, data: BoardData, history: BoardHistory) => {
+  const boardId = state.workspace.activeBoardId;
+  return {
+    ...state,
+    workspace: updateBoard(state.workspace, boardId, { data }),
+    histories: { ...state.histories, [boardId]: history },
+  };
+};
+
+function reducer(state: WorkspaceState, action: WorkspaceAction): WorkspaceState {
+  const boardId = state.workspace.activeBoardId;
+  const board = state.workspace.boards[boardId].data;
+  const history = state.histories[boardId] ?? EMPTY_HISTORY;
+
+  switch (action.type) {
+    case "workspace": {
+      const workspace = action.update(state.workspace);
+      if (workspace === state.workspace) return state;
+      // Forget the history of boards that no longer exist.
+      const histories: Record<string, BoardHistory> = {};
+      Object.keys(state.histories).forEach((id) => {
+        if (workspace.boards[id]) histories[id] = state.histories[id];
+      });
+      return { ...state, workspace, histories };
+    }
+    case "board": {
+      const next = recordActivity(board, action.update(board), action.at);
+      const diff = diffBoards(board, next);
+      if (!diff) return state;
+      const entry = { id: action.id, label: action.label, at: action.at, ...diff };
+      return withBoardData(state, next, pushEntry(history, entry));
+    }
+    case "undo": {
+      const lastId = history.past[history.past.length - 1]?.id;
+      if (action.entryId && action.entryId !== lastId) return state;
+      const step = undoStep(history, board);
+      if (!step) return state;
+      // A safety net for merges from other tabs since the entry was recorded.
+      const next = normalizePatchedBoard(step.board, step.entry.undo);
+      return withBoardData(state, next, step.history);
+    }
+    case "redo": {
+      const step = redoStep(history, board);
+      if (!step) return state;
+      const next = normalizePatchedBoard(step.board, step.entry.redo);
+      return withBoardData(state, next, step.history);
+    }
+    case "remote": {
+      const { workspace, conflicts } = mergeWorkspaceChange(state.workspace, action.change);
+      const histories: Record<string, BoardHistory> = {};
+      Object.keys(state.histories).forEach((id) => {
+        if (!workspace.boards[id]) return;
+        const change = action.change.boards[id];
+        histories[id] =
+          change?.type === "update"
+            ? dropConflictingHistory(state.histories[id], change.redo)
+            : state.histories[id];
+      });
+      return {
+        workspace,
+        histories,
+        remote: workspace,
+        conflicts: conflicts.length > 0 ? conflicts : NO_CONFLICTS,
+      };
+    }
+  }
+}
+
+const CONFLICT_MESSAGES: Record<SyncConflict["outcome"], (title: string) => string> = {
+  merged: (title) => `"${title}" was also edited in another tab. Both changes were kept.`,
+  theirs: (title) =>
+    `"${title}" was changed in another tab at the same time. That version replaced yours.`,
+  ours: (title) => `"${title}" was changed in another tab at the same time. Your version was kept.`,
+};
+
+const initState = (stored: StoredWorkspace): WorkspaceState => ({
+  workspace: stored.workspace,
+  histories: stored.histories,
+  remote: null,
+  conflicts: NO_CONFLICTS,
+});
+
+/**
+ * Owns the persisted workspace and the per-board undo history. `setBoard`
+ * applies an update to whichever board is active when it runs and records
+ * it under `label`; it returns the id of the resulting history entry.
+ *
+ * The workspace is read through `openBoardStorage`, so components using
+ * this suspend until it has loaded. Changes are saved in the background
+ * and broadcast to other open tabs, whose changes are merged in as they
+ * arrive.
+ */
+export function useWorkspace() {
+  const { storage, stored } = use(openBoardStorage());
+  const [state, dispatch] = useReducer(reducer, stored, initState);
+  const { workspace, histories, remote, conflicts } = state;
+  // The workspace as last handed to storage.
+  const saved = useRef(workspace);
+
+  useEffect(() => {
+    if (!stored.recovery) return;
+    const { backupKey } = stored.recovery;
+    toast.error(
+      backupKey
+        ? `Your saved boards could not be read, so a new one was started. The original was kept under "${backupKey}".`
+        : "Your saved boards could not be read, so a new one was started.",
+      { id: "board-recovery", duration: 10000 }
+    );
+  }, [stored]);
+
+  useEffect(
+    () => storage.subscribe((change) => dispatch({ type: "remote", change })),
+    [storage]
+  );
+
+  useEffect(() => {
+    const previous = saved.current;
+    if (previous === workspace) return;
+    saved.current = workspace;
+    // A merge from another tab is saved but not echoed back to it.
+    storage.save(workspace, workspace === remote ? null : diffWorkspaces(previous, workspace));
+  }, [storage, workspace, remote]);
+
+  useEffect(() => {
+    conflicts.forEach((conflict) =>
+      toast(CONFLICT_MESSAGES[conflict.outcome](conflict.title), {
+        id: `sync-${conflict.boardId}-${conflict.taskId}`,
+        duration: 6000,
+      })
+    );
+  }, [conflicts]);
+
+  useEffect(() => {
+    if (histories !== stored.histories) storage.saveHistories(histories);
+  }, [storage, stored, histories]);
+
+  const setWorkspace = useCallback((update: (prev: Workspace) => Workspace) => {
+    dispatch({ type: "workspace", update });
+  }, []);
+
+  const setBoard = useCallback(
+    (update: (prev: BoardData) => BoardData, label = "Edit board") => {
+      const id = createId("change");
+      dispatch({ type: "board", id, label, at: Date.now(), update });
+      return id;
+    },
+    []
+  );
+
+  /** Undoes the latest change; with `entryId`, only if that is the latest. */
+  const undo = useCallback((entryId?: string) => dispatch({ type: "undo", entryId }), []);
+  const redo = useCallback(() => dispatch({ type: "redo" }), []);
+
+  const activeBoard = getActiveBoard(workspace);
+  return {
+    workspace,
+    setWorkspace,
+    activeBoard,
+    board: activeBoard.data,
+    setBoard,
+    history: histories[activeBoard.id] ?? EMPTY_HISTORY,
+    undo,
+    redo,
+  };
+}
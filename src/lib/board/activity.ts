@@ -0,0 +1,148 @@
+import { formatDueDate } from "./due";
+import { createId } from "./operations";
+import type {
+  ActivityEntry,
+  ActivityEvent,
+  BoardData,
+  Comment,
+  EditedField,
+  Task,
+} from "./types";
+
+// The per-task activity feed. Entries are derived by comparing the board
+// before and after a change, so every path that edits or moves a card
+// (dialog, drag and drop, keyboard, command palette) is recorded the same
+// way, and undoing the change takes its entries with it.
+
+/** Most entries kept per task; older ones are dropped. */
+export const ACTIVITY_LIMIT = 100;
+
+const EDITED_FIELDS: [EditedField, (task: Task) => unknown][] = [
+  ["title", (task) => task.content],
+  ["description", (task) => task.description],
+  ["priority", (task) => task.priority],
+  ["labels", (task) => task.labelIds],
+  ["checklists", (task) => task.checklists],
+  ["assignee", (task) => task.assignee],
+  ["epic", (task) => task.epic],
+  ["lane", (task) => task.laneId],
+  ["schedule", (task) => [task.startDate, task.endDate]],
+  ["dependencies", (task) => task.dependsOn],
+];
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+/** Where each task sits, within the columns of `board` that differ in `other`. */
+const getHomes = (board: BoardData, other: BoardData) => {
+  const homes: Record<string, string> = {};
+  Object.values(board.columns).forEach((column) => {
+    if (other.columns[column.id] === column) return;
+    column.taskIds.forEach((taskId) => {
+      homes[taskId] = column.id;
+    });
+  });
+  return homes;
+};
+
+/**
+ * Returns `next` with an activity entry appended to each task that was
+ * created, edited, moved, rescheduled, archived or restored since `prev`.
+ */
+export const recordActivity = (prev: BoardData, next: BoardData, at: number): BoardData => {
+  if (prev.tasks === next.tasks && prev.columns === next.columns) return next;
+  const homesBefore = getHomes(prev, next);
+  const homesAfter = getHomes(next, prev);
+  const columnTitle = (board: BoardData, columnId: string) => board.columns[columnId]?.title ?? "";
+
+  const events: Record<string, ActivityEvent[]> = {};
+  const add = (taskId: string, event: ActivityEvent) => {
+    (events[taskId] ??= []).push(event);
+  };
+
+  Object.values(next.tasks).forEach((task) => {
+    const before = prev.tasks[task.id];
+    if (!before) {
+      add(task.id, { type: "created", column: columnTitle(next, homesAfter[task.id]) });
+      return;
+    }
+    if (before === task) return;
+    const fields = EDITED_FIELDS.filter(([, get]) => !same(get(before), get(task))).map(
+      ([field]) => field
+    );
+    if (fields.length > 0) add(task.id, { type: "edited", fields });
+    if (before.dueDate !== task.dueDate) {
+      add(task.id, { type: "due", from: before.dueDate, to: task.dueDate });
+    }
+    if (!before.archived && task.archived) {
+      add(task.id, { type: "archived", column: columnTitle(next, task.archived.columnId) });
+    } else if (before.archived && !task.archived) {
+      add(task.id, { type: "restored", column: columnTitle(next, homesAfter[task.id]) });
+    }
+  });
+
+  Object.entries(homesAfter).forEach(([taskId, columnId]) => {
+    const from = homesBefore[taskId];
+    if (!prev.tasks[taskId] || !from || from === columnId) return;
+    add(taskId, { type: "moved", from: columnTitle(prev, from), to: columnTitle(next, columnId) });
+  });
+
+  if (Object.keys(events).length === 0) return next;
+  const tasks = { ...next.tasks };
+  Object.entries(events).forEach(([taskId, taskEvents]) => {
+    const entries = taskEvents.map((event) => ({ ...event, id: createId("activity"), at }));
+    const task = tasks[taskId];
+    tasks[taskId] = { ...task, activity: [...task.activity, ...entries].slice(-ACTIVITY_LIMIT) };
+  });
+  return { ...next, tasks };
+};
+
+const FIELD_NAMES: Record<EditedField, string> = {
+  title: "the title",
+  description: "the description",
+  priority: "the priority",
+  labels: "the labels",
+  checklists: "the checklists",
+  assignee: "the assignee",
+  epic: "the epic",
+  lane: "the lane",
+  schedule: "the schedule",
+  dependencies: "the dependencies",
+};
+
+const joinWords = (words: string[]) =>
+  words.length <= 1
+    ? words.join("")
+    : `${words.slice(0, -1).join(", ")} and ${words[words.length - 1]}`;
+
+/** A sentence for the feed, e.g. "Moved this card from To Do to Done". */
+export const describeActivity = (entry: ActivityEntry) => {
+  switch (entry.type) {
+    case "created":
+      return entry.column ? `Created this card in ${entry.column}` : "Created this card";
+    case "edited":
+      return `Changed ${joinWords(entry.fields.map((field) => FIELD_NAMES[field]))}`;
+    case "moved":
+      return `Moved this card from ${entry.from} to ${entry.to}`;
+    case "due":
+      if (!entry.to) return "Removed the due date";
+      if (!entry.from) return `Set the due date to ${formatDueDate(entry.to)}`;
+      return `Changed the due date from ${formatDueDate(entry.from)} to ${formatDueDate(entry.to)}`;
+    case "archived":
+      return `Archived this card from ${entry.column}`;
+    case "restored":
+      return `Restored this card to ${entry.column}`;
+  }
+};
+
+export type TimelineItem =
+  | { kind: "comment"; at: number; comment: Comment }
+  | { kind: "activity"; at: number; entry: ActivityEntry };
+
+/** Comments and activity of a task, oldest first. */
+export const getTimeline = (task: Task): TimelineItem[] =>
+  [
+    ...task.comments.map(
+      (comment): TimelineItem => ({ kind: "comment", at: comment.createdAt, comment })
+    ),
+    ...task.activity.map((entry): TimelineItem => ({ kind: "activity", at: entry.at, entry })),
+  ].sort((a, b) => a.at - b.at);
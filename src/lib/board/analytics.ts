@@ -0,0 +1,158 @@
+import { addWeeks, format, startOfWeek, subWeeks } from "date-fns";
+import { getLabelColor } from "./palette";
+import type { BoardData, Task } from "./types";
+
+// The analytics page: how long cards take and how many get finished, worked
+// out from when they entered each column. A card is finished once it reaches
+// the last list, and started once it leaves the first.
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/** The times that matter for a finished card. */
+export type CompletedTask = {
+  task: Task;
+  /** When the card was made, or null for cards from before this was recorded. */
+  createdAt: number | null;
+  /** When it first came into a list other than the first one. */
+  startedAt: number;
+  /** When it last came into the last list. */
+  completedAt: number;
+};
+
+/** The column each active card is in, by task id. */
+const getHomes = (board: BoardData) => {
+  const homes: Record<string, string> = {};
+  board.columnOrder.forEach((columnId) =>
+    board.columns[columnId].taskIds.forEach((taskId) => {
+      homes[taskId] = columnId;
+    })
+  );
+  return homes;
+};
+
+/** When the card last came into `columnId`, if that was recorded. */
+const lastEntered = (task: Task, columnId: string) =>
+  [...task.columnEntries].reverse().find((entry) => entry.columnId === columnId)?.at;
+
+/**
+ * The cards in the last list, including those archived from it, that have
+ * a recorded time for getting there.
+ */
+export const getCompletedTasks = (board: BoardData): CompletedTask[] => {
+  const firstId = board.columnOrder[0];
+  const doneId = board.columnOrder[board.columnOrder.length - 1];
+  if (!doneId) return [];
+  const homes = getHomes(board);
+  return Object.values(board.tasks).flatMap((task) => {
+    const home = task.archived ? task.archived.columnId : homes[task.id];
+    const completedAt = lastEntered(task, doneId);
+    if (home !== doneId || completedAt === undefined) return [];
+    const startedAt = task.columnEntries.find((entry) => entry.columnId !== firstId)?.at;
+    return [
+      {
+        task,
+        createdAt: task.createdAt,
+        startedAt: Math.min(startedAt ?? completedAt, completedAt),
+        completedAt,
+      },
+    ];
+  });
+};
+
+/** From being made to being finished, in days. */
+export const getLeadTimes = (completed: CompletedTask[]) =>
+  completed.flatMap(({ createdAt, completedAt }) =>
+    createdAt === null ? [] : [Math.max(0, completedAt - createdAt) / DAY]
+  );
+
+/** From being started to being finished, in days. */
+export const getCycleTimes = (completed: CompletedTask[]) =>
+  completed.map(({ startedAt, completedAt }) => (completedAt - startedAt) / DAY);
+
+/** Histogram buckets, in days: `from` up to but not including `to`. */
+const DURATION_BUCKETS = [
+  { name: "< 1 day", from: 0, to: 1 },
+  { name: "1–2 days", from: 1, to: 3 },
+  { name: "3–6 days", from: 3, to: 7 },
+  { name: "1–2 weeks", from: 7, to: 14 },
+  { name: "2–4 weeks", from: 14, to: 28 },
+  { name: "4+ weeks", from: 28, to: Infinity },
+];
+
+/** How many of `days` fall in each bucket, for a histogram. */
+export const getDurationDistribution = (days: number[]) =>
+  DURATION_BUCKETS.map(({ name, from, to }) => ({
+    bucket: name,
+    count: days.filter((d) => d >= from && d < to).length,
+  }));
+
+const percentile = (sorted: number[], p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.ceil((p / 100) * sorted.length) - 1)];
+
+/** Average, median and 85th percentile of `days`, or null when there are none. */
+export const summarizeDurations = (days: number[]) => {
+  if (days.length === 0) return null;
+  const sorted = [...days].sort((a, b) => a - b);
+  return {
+    average: days.reduce((sum, d) => sum + d, 0) / days.length,
+    median: percentile(sorted, 50),
+    p85: percentile(sorted, 85),
+  };
+};
+
+/** e.g. "5h", "2.5d" or "12d". */
+export const formatDays = (days: number) => {
+  if (days < 1) return `${Math.round(days * 24)}h`;
+  return days < 10 ? `${Math.round(days * 10) / 10}d` : `${Math.round(days)}d`;
+};
+
+/** Cards finished in each of the last `weeks` weeks, oldest first. */
+export const getWeeklyThroughput = (completed: CompletedTask[], weeks = 12, now = Date.now()) => {
+  const first = subWeeks(startOfWeek(now), weeks - 1);
+  return Array.from({ length: weeks }, (_, i) => {
+    const start = addWeeks(first, i);
+    const end = addWeeks(start, 1);
+    return {
+      week: format(start, "MMM d"),
+      count: completed.filter((c) => c.completedAt >= +start && c.completedAt < +end).length,
+    };
+  });
+};
+
+/**
+ * The average number of days the cards in each list have sat there, counted
+ * from when they last came in, or were made if that wasn't recorded.
+ */
+export const getColumnAges = (board: BoardData, now = Date.now()) =>
+  board.columnOrder.map((columnId) => {
+    const column = board.columns[columnId];
+    const ages = column.taskIds.flatMap((taskId) => {
+      const task = board.tasks[taskId];
+      const since = lastEntered(task, columnId) ?? task.createdAt;
+      return since === null ? [] : [Math.max(0, now - since) / DAY];
+    });
+    return {
+      columnId,
+      title: column.title,
+      count: column.taskIds.length,
+      days: ages.length > 0 ? ages.reduce((sum, age) => sum + age, 0) / ages.length : 0,
+    };
+  });
+
+/** Active cards per label, largest first, with those that have none last. */
+export const getLabelBreakdown = (board: BoardData) => {
+  const taskIds = board.columnOrder.flatMap((columnId) => board.columns[columnId].taskIds);
+  const counts = board.labels
+    .map((label) => ({
+      id: label.id,
+      name: label.name || "Unnamed",
+      fill: getLabelColor(label.color).chart,
+      count: taskIds.filter((taskId) => board.tasks[taskId].labelIds.includes(label.id)).length,
+    }))
+    .filter((label) => label.count > 0)
+    .sort((a, b) => b.count - a.count);
+  const unlabeled = taskIds.filter((taskId) => board.tasks[taskId].labelIds.length === 0).length;
+  return unlabeled > 0
+    ? [...counts, { id: "none", name: "No label", fill: "#cbd5e1", count: unlabeled }]
+    : counts;
+};
@@ -0,0 +1,82 @@
+import type { CSSProperties } from "react";
+import type { BoardAppearance, BoardBackground, BoardData, CardDensity } from "./types";
+
+// How a board looks, set per board and saved with it: what is behind the
+// lists, how roomy the cards are and how wide the lists get.
+
+/** The backdrop boards had before they could be changed. */
+const DEFAULT_BACKDROP =
+  "radial-gradient(circle at 20% 40%, rgba(99,102,241,0.07) 0, transparent 60%), radial-gradient(circle at 80% 60%, rgba(16,185,129,0.07) 0, transparent 60%)";
+
+export const BACKGROUND_COLORS = [
+  { color: "#e2e8f0", name: "Slate" },
+  { color: "#dbeafe", name: "Sky" },
+  { color: "#dcfce7", name: "Mint" },
+  { color: "#fef3c7", name: "Sand" },
+  { color: "#fee2e2", name: "Blush" },
+  { color: "#ede9fe", name: "Lavender" },
+  { color: "#1e293b", name: "Slate night" },
+  { color: "#0c4a6e", name: "Deep sea" },
+];
+
+export const BACKGROUND_GRADIENTS = [
+  { id: "sunrise", name: "Sunrise", css: "linear-gradient(135deg, #fde68a, #fca5a5, #c4b5fd)" },
+  { id: "ocean", name: "Ocean", css: "linear-gradient(135deg, #a5f3fc, #93c5fd, #818cf8)" },
+  { id: "meadow", name: "Meadow", css: "linear-gradient(135deg, #d9f99d, #6ee7b7, #2dd4bf)" },
+  { id: "candy", name: "Candy", css: "linear-gradient(135deg, #fbcfe8, #f5d0fe, #bfdbfe)" },
+  { id: "dusk", name: "Dusk", css: "linear-gradient(135deg, #312e81, #6d28d9, #db2777)" },
+  { id: "night", name: "Night", css: "linear-gradient(135deg, #020617, #1e293b, #334155)" },
+];
+
+/** Card classes per density; spelled out in full so Tailwind can find them. */
+export const CARD_DENSITIES: {
+  id: CardDensity;
+  name: string;
+  card: string;
+  title: string;
+  /** Space above the badges and the checklist progress. */
+  gap: string;
+}[] = [
+  { id: "comfortable", name: "Comfortable", card: "p-5 mb-5 gap-3", title: "text-lg", gap: "mt-3" },
+  { id: "compact", name: "Compact", card: "px-4 py-3 mb-3 gap-2", title: "text-base", gap: "mt-2" },
+];
+
+export const getCardDensity = (density: CardDensity) =>
+  CARD_DENSITIES.find((option) => option.id === density) ?? CARD_DENSITIES[0];
+
+/** List widths, in pixels; the default is the width lists always had. */
+export const COLUMN_WIDTH = { min: 256, max: 480, step: 32 };
+
+export const DEFAULT_APPEARANCE: BoardAppearance = {
+  background: { type: "default" },
+  density: "comfortable",
+  columnWidth: 384,
+  showBadges: true,
+};
+
+export const setAppearance = (board: BoardData, patch: Partial<BoardAppearance>): BoardData => ({
+  ...board,
+  appearance: { ...board.appearance, ...patch },
+});
+
+/** The CSS for a backdrop covering the page. */
+export const getBackgroundStyle = (background: BoardBackground): CSSProperties => {
+  switch (background.type) {
+    case "color":
+      return { background: background.color };
+    case "gradient":
+      return {
+        background:
+          BACKGROUND_GRADIENTS.find((gradient) => gradient.id === background.gradientId)?.css ??
+          DEFAULT_BACKDROP,
+      };
+    case "image":
+      return {
+        backgroundImage: `url("${background.dataUrl}")`,
+        backgroundSize: "cover",
+        backgroundPosition: "center",
+      };
+    default:
+      return { background: DEFAULT_BACKDROP };
+  }
+};
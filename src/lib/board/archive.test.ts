@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { archiveTask, getAutoArchivableTaskIds, restoreTask, setAutoArchiveDays } from "./archive";
+import { createDefaultBoard } from "./defaults";
+import { addTask, createTask } from "./operations";
+import type { Task } from "./types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = 100 * DAY_MS;
+
+const boardWithDone = (...tasks: Task[]) => {
+  const board = setAutoArchiveDays(createDefaultBoard(), 7);
+  tasks.forEach((task) => {
+    board.tasks[task.id] = task;
+    board.columns.done.taskIds.push(task.id);
+  });
+  return board;
+};
+
+describe("getAutoArchivableTaskIds", () => {
+  it("goes by when a card last came into the last column", () => {
+    const stale = createTask("Stale", {
+      createdAt: 0,
+      columnEntries: [
+        { columnId: "done", at: 10 * DAY_MS },
+        { columnId: "todo", at: 20 * DAY_MS },
+        { columnId: "done", at: 90 * DAY_MS },
+      ],
+    });
+    const fresh = createTask("Fresh", {
+      createdAt: 0,
+      columnEntries: [{ columnId: "done", at: 95 * DAY_MS }],
+    });
+    const ids = getAutoArchivableTaskIds(boardWithDone(stale, fresh), NOW);
+    expect(ids).toEqual([stale.id]);
+  });
+
+  it("doesn't depend on the activity feed, which drops old entries", () => {
+    const task = createTask("Busy", {
+      createdAt: 0,
+      activity: [],
+      columnEntries: [{ columnId: "done", at: 50 * DAY_MS }],
+    });
+    expect(getAutoArchivableTaskIds(boardWithDone(task), NOW)).toEqual([task.id]);
+  });
+
+  it("falls back to when the card was created", () => {
+    const old = createTask("Old", { createdAt: 80 * DAY_MS });
+    const recent = createTask("Recent", { createdAt: 98 * DAY_MS });
+    const unknown = createTask("Unknown", { createdAt: null });
+    const ids = getAutoArchivableTaskIds(boardWithDone(old, recent, unknown), NOW);
+    expect(ids).toEqual([old.id]);
+  });
+});
+
+describe("restoreTask", () => {
+  it("notes when the card came back into its list", () => {
+    const task = createTask("Shelved", { createdAt: 1 });
+    let board = addTask(createDefaultBoard(), "done", task);
+    board = restoreTask(archiveTask(board, task.id, 2), task.id, 3);
+    expect(board.columns.done.taskIds).toEqual([task.id]);
+    expect(board.tasks[task.id].columnEntries).toEqual([
+      { columnId: "done", at: 1 },
+      { columnId: "done", at: 3 },
+    ]);
+  });
+});
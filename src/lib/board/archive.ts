@@ -0,0 +1,123 @@
+import { enterColumn, findColumnOfTask } from "./operations";
+import type { BoardData, Column, Task } from "./types";
+
+// Archived cards and columns stay in `BoardData` but off the board: a card
+// leaves its column's `taskIds`, a column leaves `columnOrder` (keeping its
+// cards). Each remembers where it was so restoring puts it back there.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const insertAt = (ids: string[], id: string, index: number) => {
+  const next = [...ids];
+  next.splice(Math.min(index, next.length), 0, id);
+  return next;
+};
+
+export const archiveTask = (board: BoardData, taskId: string, at = Date.now()): BoardData => {
+  const column = findColumnOfTask(board, taskId);
+  const task = board.tasks[taskId];
+  if (!column || !task || task.archived) return board;
+  const archived = { at, columnId: column.id, index: column.taskIds.indexOf(taskId) };
+  return {
+    ...board,
+    tasks: { ...board.tasks, [taskId]: { ...task, archived } },
+    columns: {
+      ...board.columns,
+      [column.id]: { ...column, taskIds: column.taskIds.filter((id) => id !== taskId) },
+    },
+  };
+};
+
+export const archiveTasks = (board: BoardData, taskIds: string[], at = Date.now()) =>
+  taskIds.reduce((next, taskId) => archiveTask(next, taskId, at), board);
+
+/**
+ * The column an archived card goes back to: the one it came from, unless
+ * that has since been deleted or archived, in which case the first column.
+ */
+export const getRestoreColumn = (board: BoardData, task: Task): Column | undefined => {
+  const original = task.archived && board.columns[task.archived.columnId];
+  if (original && !original.archived) return original;
+  return board.columns[board.columnOrder[0]];
+};
+
+export const restoreTask = (board: BoardData, taskId: string, at = Date.now()): BoardData => {
+  const task = board.tasks[taskId];
+  if (!task?.archived) return board;
+  const column = getRestoreColumn(board, task);
+  if (!column) return board;
+  const index = column.id === task.archived.columnId ? task.archived.index : 0;
+  const restored = {
+    ...board,
+    tasks: { ...board.tasks, [taskId]: { ...task, archived: null } },
+    columns: {
+      ...board.columns,
+      [column.id]: { ...column, taskIds: insertAt(column.taskIds, taskId, index) },
+    },
+  };
+  return enterColumn(restored, [taskId], column.id, at);
+};
+
+export const archiveColumn = (board: BoardData, columnId: string, at = Date.now()): BoardData => {
+  const column = board.columns[columnId];
+  const index = board.columnOrder.indexOf(columnId);
+  if (!column || index === -1) return board;
+  return {
+    ...board,
+    columns: { ...board.columns, [columnId]: { ...column, archived: { at, index } } },
+    columnOrder: board.columnOrder.filter((id) => id !== columnId),
+  };
+};
+
+export const restoreColumn = (board: BoardData, columnId: string): BoardData => {
+  const column = board.columns[columnId];
+  if (!column?.archived) return board;
+  return {
+    ...board,
+    columns: { ...board.columns, [columnId]: { ...column, archived: null } },
+    columnOrder: insertAt(board.columnOrder, columnId, column.archived.index),
+  };
+};
+
+/** Archived cards, most recently archived first. */
+export const getArchivedTasks = (board: BoardData) =>
+  Object.values(board.tasks)
+    .filter((task) => task.archived)
+    .sort((a, b) => b.archived!.at - a.archived!.at);
+
+/** Archived columns, most recently archived first. */
+export const getArchivedColumns = (board: BoardData) =>
+  Object.values(board.columns)
+    .filter((column) => column.archived)
+    .sort((a, b) => b.archived!.at - a.archived!.at);
+
+export const setAutoArchiveDays = (board: BoardData, days: number | null): BoardData => ({
+  ...board,
+  autoArchiveDays: days,
+});
+
+/**
+ * When a card last came into `columnId`, from its column entries, or when it
+ * was created if it has none there. Cards from before either was kept have no
+ * known time.
+ */
+const getEnteredAt = (task: Task, columnId: string) => {
+  for (let i = task.columnEntries.length - 1; i >= 0; i -= 1) {
+    if (task.columnEntries[i].columnId === columnId) return task.columnEntries[i].at;
+  }
+  return task.createdAt;
+};
+
+/**
+ * Cards that have sat in the last column, conventionally "Done", for at
+ * least the board's `autoArchiveDays`.
+ */
+export const getAutoArchivableTaskIds = (board: BoardData, now = Date.now()) => {
+  const done = board.columns[board.columnOrder[board.columnOrder.length - 1]];
+  if (!board.autoArchiveDays || !done) return [];
+  const cutoff = now - board.autoArchiveDays * DAY_MS;
+  return done.taskIds.filter((taskId) => {
+    const enteredAt = getEnteredAt(board.tasks[taskId], done.id);
+    return enteredAt !== null && enteredAt <= cutoff;
+  });
+};
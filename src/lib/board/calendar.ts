@@ -0,0 +1,61 @@
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  format,
+  isSameMonth,
+  startOfMonth,
+  startOfWeek,
+} from "date-fns";
+import type { BoardData } from "./types";
+
+// The calendar view: cards laid out on their due dates, a month or a week
+// at a time, with the undated ones set aside.
+
+export type CalendarMode = "month" | "week";
+
+export const CALENDAR_MODES: { id: CalendarMode; name: string }[] = [
+  { id: "month", name: "Month" },
+  { id: "week", name: "Week" },
+];
+
+/** Droppable id of the tray of cards without a due date. */
+export const UNDATED = "undated";
+
+/** The days shown for `anchor`: whole weeks covering its month, or its week. */
+export const getCalendarDays = (anchor: Date, mode: CalendarMode) =>
+  mode === "month"
+    ? eachDayOfInterval({
+        start: startOfWeek(startOfMonth(anchor)),
+        end: endOfWeek(endOfMonth(anchor)),
+      })
+    : eachDayOfInterval({ start: startOfWeek(anchor), end: endOfWeek(anchor) });
+
+/** The month or week before or after `anchor`. */
+export const shiftCalendar = (anchor: Date, mode: CalendarMode, offset: -1 | 1) =>
+  mode === "month" ? addMonths(anchor, offset) : addWeeks(anchor, offset);
+
+export const getCalendarTitle = (anchor: Date, mode: CalendarMode) => {
+  if (mode === "month") return format(anchor, "MMMM yyyy");
+  const start = startOfWeek(anchor);
+  const end = endOfWeek(anchor);
+  const endFormat = isSameMonth(start, end) ? "d, yyyy" : "MMM d, yyyy";
+  return `${format(start, "MMM d")} – ${format(end, endFormat)}`;
+};
+
+/**
+ * The cards in `visibleTaskIds` by due date (`yyyy-MM-dd`), with the undated
+ * ones under `UNDATED`. Each day keeps board order.
+ */
+export const getTasksByDay = (board: BoardData, visibleTaskIds: Record<string, string[]>) => {
+  const days: Record<string, string[]> = { [UNDATED]: [] };
+  board.columnOrder.forEach((columnId) =>
+    visibleTaskIds[columnId].forEach((taskId) => {
+      const day = board.tasks[taskId].dueDate ?? UNDATED;
+      (days[day] ??= []).push(taskId);
+    })
+  );
+  return days;
+};
@@ -0,0 +1,15 @@
+import { describe, expect, it } from "vitest";
+import { convertChecklistItems, createChecklistItem } from "./checklists";
+import { createDefaultBoard } from "./defaults";
+import { addTask, createTask } from "./operations";
+
+describe("convertChecklistItems", () => {
+  it("notes when the new cards came into the list", () => {
+    const task = createTask("Parent", { createdAt: 1 });
+    const board = addTask(createDefaultBoard(), "todo", task);
+    const next = convertChecklistItems(board, task.id, [createChecklistItem("Child")], 5);
+    const [, childId] = next.columns.todo.taskIds;
+    expect(next.tasks[childId].content).toBe("Child");
+    expect(next.tasks[childId].columnEntries).toEqual([{ columnId: "todo", at: 5 }]);
+  });
+});
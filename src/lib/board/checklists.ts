@@ -0,0 +1,87 @@
+import { createId, createTask, enterColumn, findColumnOfTask } from "./operations";
+import type { BoardData, Checklist, ChecklistItem, Task } from "./types";
+
+// Immutable updates of a task's checklists. The task dialog edits a draft
+// copy with these, so they work on the `Checklist[]` rather than the board.
+
+export const createChecklist = (title = "Checklist"): Checklist => ({
+  id: createId("checklist"),
+  title,
+  items: [],
+});
+
+export const createChecklistItem = (text: string): ChecklistItem => ({
+  id: createId("item"),
+  text,
+  done: false,
+  dueDate: null,
+});
+
+export const updateChecklist = (
+  checklists: Checklist[],
+  checklistId: string,
+  update: (checklist: Checklist) => Checklist
+) => checklists.map((checklist) => (checklist.id === checklistId ? update(checklist) : checklist));
+
+export const updateChecklistItem = (
+  checklists: Checklist[],
+  checklistId: string,
+  itemId: string,
+  patch: Partial<Omit<ChecklistItem, "id">>
+) =>
+  updateChecklist(checklists, checklistId, (checklist) => ({
+    ...checklist,
+    items: checklist.items.map((item) => (item.id === itemId ? { ...item, ...patch } : item)),
+  }));
+
+export const removeChecklistItem = (checklists: Checklist[], checklistId: string, itemId: string) =>
+  updateChecklist(checklists, checklistId, (checklist) => ({
+    ...checklist,
+    items: checklist.items.filter((item) => item.id !== itemId),
+  }));
+
+/** Moves an item to `toIndex` within its checklist. */
+export const moveChecklistItem = (
+  checklists: Checklist[],
+  checklistId: string,
+  itemId: string,
+  toIndex: number
+) =>
+  updateChecklist(checklists, checklistId, (checklist) => {
+    const items = checklist.items.filter((item) => item.id !== itemId);
+    const item = checklist.items.find((i) => i.id === itemId);
+    if (!item) return checklist;
+    items.splice(Math.max(0, Math.min(toIndex, items.length)), 0, item);
+    return { ...checklist, items };
+  });
+
+export type ChecklistProgress = { done: number; total: number };
+
+/** Checked items out of all items, across every checklist of the task. */
+export const getChecklistProgress = (task: Task): ChecklistProgress => {
+  const items = task.checklists.flatMap((checklist) => checklist.items);
+  return { done: items.filter((item) => item.done).length, total: items.length };
+};
+
+/**
+ * Adds a card for each of `items`, which have been taken off the task's
+ * checklists, just below the task in its column.
+ */
+export const convertChecklistItems = (
+  board: BoardData,
+  taskId: string,
+  items: ChecklistItem[],
+  at = Date.now()
+): BoardData => {
+  const column = findColumnOfTask(board, taskId);
+  if (!column || items.length === 0) return board;
+  const created = items.map((item) => createTask(item.text, { dueDate: item.dueDate }));
+  const taskIds = [...column.taskIds];
+  taskIds.splice(taskIds.indexOf(taskId) + 1, 0, ...created.map((task) => task.id));
+  const tasks = { ...board.tasks };
+  created.forEach((task) => {
+    tasks[task.id] = task;
+  });
+  const columns = { ...board.columns, [column.id]: { ...column, taskIds } };
+  return enterColumn({ ...board, tasks, columns }, created.map((task) => task.id), column.id, at);
+};
@@ -0,0 +1,31 @@
+import { createId } from "./operations";
+import type { BoardData, Comment, Task } from "./types";
+
+const updateComments = (
+  board: BoardData,
+  taskId: string,
+  update: (comments: Comment[]) => Comment[]
+): BoardData => {
+  const task: Task = board.tasks[taskId];
+  return { ...board, tasks: { ...board.tasks, [taskId]: { ...task, comments: update(task.comments) } } };
+};
+
+export const addComment = (board: BoardData, taskId: string, text: string, at = Date.now()) =>
+  updateComments(board, taskId, (comments) => [
+    ...comments,
+    { id: createId("comment"), text, createdAt: at, editedAt: null },
+  ]);
+
+export const updateComment = (
+  board: BoardData,
+  taskId: string,
+  commentId: string,
+  text: string,
+  at = Date.now()
+) =>
+  updateComments(board, taskId, (comments) =>
+    comments.map((comment) => (comment.id === commentId ? { ...comment, text, editedAt: at } : comment))
+  );
+
+export const deleteComment = (board: BoardData, taskId: string, commentId: string) =>
+  updateComments(board, taskId, (comments) => comments.filter((comment) => comment.id !== commentId));
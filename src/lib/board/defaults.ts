@@ -0,0 +1,32 @@
+import { DEFAULT_APPEARANCE } from "./appearance";
+import { getColumnTheme } from "./palette";
+import type { BoardData, Column, Label } from "./types";
+
+export const DEFAULT_COLUMNS = [
+  { id: "todo", title: "To Do", ...getColumnTheme("blue").style },
+  { id: "inprogress", title: "In Progress", ...getColumnTheme("violet").style },
+  { id: "done", title: "Done", ...getColumnTheme("emerald").style },
+];
+
+export const DEFAULT_LABELS: Label[] = [
+  { id: "label-bug", name: "bug", color: "red" },
+  { id: "label-feature", name: "feature", color: "blue" },
+  { id: "label-design", name: "design", color: "purple" },
+  { id: "label-chore", name: "chore", color: "slate" },
+];
+
+export const createDefaultBoard = (): BoardData => {
+  const columns: Record<string, Column> = {};
+  DEFAULT_COLUMNS.forEach((col) => {
+    columns[col.id] = { ...col, taskIds: [], archived: null, wipLimit: null };
+  });
+  return {
+    tasks: {},
+    columns,
+    columnOrder: DEFAULT_COLUMNS.map((c) => c.id),
+    labels: DEFAULT_LABELS.map((label) => ({ ...label })),
+    lanes: [],
+    autoArchiveDays: null,
+    appearance: { ...DEFAULT_APPEARANCE },
+  };
+};
@@ -0,0 +1,33 @@
+import { differenceInCalendarDays, format, parseISO } from "date-fns";
+
+export type DueStatus = "overdue" | "today" | "soon" | "later";
+
+export const DUE_BADGE: Record<DueStatus, string> = {
+  overdue:
+    "bg-red-100 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-300 dark:border-red-500/30",
+  today:
+    "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-500/20 dark:text-amber-300 dark:border-amber-500/30",
+  soon:
+    "bg-yellow-50 text-yellow-700 border-yellow-200 dark:bg-yellow-500/10 dark:text-yellow-300 dark:border-yellow-500/30",
+  later: "bg-muted/50 text-muted-foreground border-border",
+};
+
+/** Days ahead within which a due date counts as "soon". */
+const SOON_DAYS = 2;
+
+export const toDueDate = (date: Date) => format(date, "yyyy-MM-dd");
+
+export const parseDueDate = (dueDate: string) => parseISO(dueDate);
+
+export const getDueStatus = (dueDate: string, now = new Date()): DueStatus => {
+  const days = differenceInCalendarDays(parseDueDate(dueDate), now);
+  if (days < 0) return "overdue";
+  if (days === 0) return "today";
+  if (days <= SOON_DAYS) return "soon";
+  return "later";
+};
+
+export const formatDueDate = (dueDate: string, now = new Date()) => {
+  const date = parseDueDate(dueDate);
+  return date.getFullYear() === now.getFullYear() ? format(date, "MMM d") : format(date, "MMM d, yyyy");
+};
@@ -0,0 +1,152 @@
+import { eachDayOfInterval, endOfDay, subDays } from "date-fns";
+import { parseDueDate, toDueDate } from "./due";
+import { findColumnTheme } from "./palette";
+import { toCsv } from "./transfer";
+import type { BoardData, Task } from "./types";
+
+// The flow charts on the analytics page, replayed day by day from when cards
+// entered each column: how many sat in each list, and how a set of cards was
+// worked through.
+
+/** Both ends included, as `yyyy-MM-dd`. */
+export type DateRange = { from: string; to: string };
+
+export const RANGE_PRESETS = [
+  { days: 14, name: "Last 2 weeks" },
+  { days: 30, name: "Last 30 days" },
+  { days: 90, name: "Last 90 days" },
+];
+
+/** The `days` days up to and including today. */
+export const getRecentRange = (days: number, today = new Date()): DateRange => ({
+  from: toDueDate(subDays(today, days - 1)),
+  to: toDueDate(today),
+});
+
+const getRangeDays = ({ from, to }: DateRange) =>
+  eachDayOfInterval({ start: parseDueDate(from), end: parseDueDate(to) });
+
+/**
+ * The list a card was in at `at`, or null when it wasn't on the board yet or
+ * had been archived by then. Cards archived from the last list still count
+ * as finished. Cards with nothing recorded are taken to have sat in their
+ * current list since they were made.
+ */
+const getColumnAt = (board: BoardData) => {
+  const homes: Record<string, string> = {};
+  board.columnOrder.forEach((columnId) =>
+    board.columns[columnId].taskIds.forEach((taskId) => {
+      homes[taskId] = columnId;
+    })
+  );
+  const doneId = board.columnOrder[board.columnOrder.length - 1];
+  return (task: Task, at: number): string | null => {
+    if (task.archived && task.archived.at <= at && task.archived.columnId !== doneId) return null;
+    if (task.columnEntries.length === 0) {
+      const home = task.archived?.columnId ?? homes[task.id];
+      return task.createdAt !== null && task.createdAt <= at ? (home ?? null) : null;
+    }
+    return task.columnEntries.reduce<string | null>(
+      (columnId, entry) => (entry.at <= at ? entry.columnId : columnId),
+      null
+    );
+  };
+};
+
+export type FlowSeries = { columnId: string; title: string; color: string };
+
+/** The lists to stack, last first so finished work sits at the bottom. */
+export const getFlowSeries = (board: BoardData): FlowSeries[] =>
+  [...board.columnOrder].reverse().map((columnId) => {
+    const column = board.columns[columnId];
+    return {
+      columnId,
+      title: column.title,
+      color: findColumnTheme(column)?.chart ?? "#94a3b8",
+    };
+  });
+
+export type FlowDay = { date: string; counts: Record<string, number> };
+
+/** How many cards were in each list at the end of each day of `range`. */
+export const getCumulativeFlow = (board: BoardData, range: DateRange): FlowDay[] => {
+  const columnAt = getColumnAt(board);
+  const tasks = Object.values(board.tasks);
+  return getRangeDays(range).map((day) => {
+    const at = endOfDay(day).getTime();
+    const counts: Record<string, number> = {};
+    board.columnOrder.forEach((columnId) => {
+      counts[columnId] = 0;
+    });
+    tasks.forEach((task) => {
+      const columnId = columnAt(task, at);
+      if (columnId && columnId in counts) counts[columnId] += 1;
+    });
+    return { date: toDueDate(day), counts };
+  });
+};
+
+export const cumulativeFlowCsv = (flow: FlowDay[], series: FlowSeries[]) =>
+  toCsv([
+    ["Date", ...series.map((s) => s.title)],
+    ...flow.map((day) => [day.date, ...series.map((s) => String(day.counts[s.columnId]))]),
+  ]);
+
+/** A set of cards a burn chart can follow. */
+export type BurnScope = { id: string; name: string; taskIds: string[] };
+
+/** The whole board, then each label and each epic that has any cards. */
+export const getBurnScopes = (board: BoardData): BurnScope[] => {
+  const tasks = Object.values(board.tasks);
+  const scopes: BurnScope[] = [
+    { id: "all", name: "All cards", taskIds: tasks.map((task) => task.id) },
+  ];
+  board.labels.forEach((label) => {
+    const taskIds = tasks.filter((task) => task.labelIds.includes(label.id)).map((task) => task.id);
+    if (taskIds.length > 0) {
+      scopes.push({ id: `label:${label.id}`, name: `Label: ${label.name}`, taskIds });
+    }
+  });
+  const epics = [...new Set(tasks.flatMap((task) => task.epic ?? []))].sort();
+  epics.forEach((epic) => {
+    const taskIds = tasks.filter((task) => task.epic === epic).map((task) => task.id);
+    scopes.push({ id: `epic:${epic}`, name: `Epic: ${epic}`, taskIds });
+  });
+  return scopes;
+};
+
+export type BurnDay = {
+  date: string;
+  /** Cards of the set on the board that day. */
+  scope: number;
+  done: number;
+  remaining: number;
+  /** A straight line from what remained on the first day to none on the last. */
+  ideal: number;
+};
+
+/** Where `taskIds` stood at the end of each day of `range`. */
+export const getBurnChart = (board: BoardData, taskIds: string[], range: DateRange): BurnDay[] => {
+  const columnAt = getColumnAt(board);
+  const doneId = board.columnOrder[board.columnOrder.length - 1];
+  const days = getRangeDays(range).map((day) => {
+    const at = endOfDay(day).getTime();
+    const columnIds = taskIds.flatMap((taskId) => columnAt(board.tasks[taskId], at) ?? []);
+    const done = columnIds.filter((columnId) => columnId === doneId).length;
+    return { date: toDueDate(day), scope: columnIds.length, done };
+  });
+  const start = days.length > 0 ? days[0].scope - days[0].done : 0;
+  return days.map((day, i) => ({
+    ...day,
+    remaining: day.scope - day.done,
+    ideal: days.length > 1 ? Math.round(start * (1 - i / (days.length - 1)) * 10) / 10 : 0,
+  }));
+};
+
+export const burnChartCsv = (days: BurnDay[]) =>
+  toCsv([
+    ["Date", "Scope", "Done", "Remaining", "Ideal"],
+    ...days.map((day) =>
+      [day.date, day.scope, day.done, day.remaining, day.ideal].map((value) => String(value))
+    ),
+  ]);
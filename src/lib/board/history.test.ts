@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { setAppearance } from "./appearance";
+import { createDefaultBoard } from "./defaults";
+import { applyPatch, diffBoards } from "./history";
+
+describe("appearance patches", () => {
+  const background = { type: "image" as const, dataUrl: "data:image/jpeg;base64,AAAA" };
+  const board = setAppearance(createDefaultBoard(), { background });
+
+  it("hold only the settings that changed", () => {
+    const next = setAppearance(board, { density: "compact" });
+    const diff = diffBoards(board, next);
+    expect(diff).toEqual({
+      undo: { appearance: { density: "comfortable" } },
+      redo: { appearance: { density: "compact" } },
+    });
+  });
+
+  it("apply over the rest of the appearance", () => {
+    const next = setAppearance(board, { showBadges: false });
+    const { undo, redo } = diffBoards(board, next)!;
+    expect(applyPatch(board, redo).appearance).toEqual(next.appearance);
+    expect(applyPatch(next, undo).appearance).toEqual(board.appearance);
+  });
+});
@@ -0,0 +1,162 @@
+import type { BoardAppearance, BoardData, Column, Task } from "./types";
+
+// Undo/redo is stored as patches rather than snapshots: because board
+// updates are immutable, diffing two states by reference only visits what
+// actually changed, and a patch holds just those tasks and columns.
+
+type RecordPatch<T> = Record<string, T | null>;
+
+/**
+ * A partial `BoardData`. `tasks` and `columns` are merged entry by entry
+ * (`null` removes the entry) and `appearance` setting by setting, so an
+ * unchanged background image stays out of the patch; every other field
+ * replaces the current value.
+ */
+export type BoardPatch = Partial<Omit<BoardData, "tasks" | "columns" | "appearance">> & {
+  tasks?: RecordPatch<Task>;
+  columns?: RecordPatch<Column>;
+  appearance?: Partial<BoardAppearance>;
+};
+
+export type HistoryEntry = {
+  id: string;
+  /** Short description of the change, e.g. "Delete task". */
+  label: string;
+  at: number;
+  undo: BoardPatch;
+  redo: BoardPatch;
+};
+
+export type BoardHistory = {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+};
+
+/** Most entries kept per board; older ones are dropped. */
+export const HISTORY_LIMIT = 50;
+
+export const EMPTY_HISTORY: BoardHistory = { past: [], future: [] };
+
+const diffRecord = <T>(prev: Record<string, T>, next: Record<string, T>) => {
+  const before: RecordPatch<T> = {};
+  const after: RecordPatch<T> = {};
+  let changed = false;
+  new Set([...Object.keys(prev), ...Object.keys(next)]).forEach((id) => {
+    if (prev[id] === next[id]) return;
+    before[id] = prev[id] ?? null;
+    after[id] = next[id] ?? null;
+    changed = true;
+  });
+  return changed ? { before, after } : null;
+};
+
+const diffFields = <T extends object>(prev: T, next: T) => {
+  const before: Partial<T> = {};
+  const after: Partial<T> = {};
+  (Object.keys({ ...prev, ...next }) as (keyof T)[]).forEach((key) => {
+    if (prev[key] === next[key]) return;
+    before[key] = prev[key];
+    after[key] = next[key];
+  });
+  return Object.keys(after).length > 0 ? { before, after } : null;
+};
+
+/** The patches that turn `prev` into `next` and back, or null if equal. */
+export const diffBoards = (
+  prev: BoardData,
+  next: BoardData
+): { undo: BoardPatch; redo: BoardPatch } | null => {
+  if (prev === next) return null;
+  const undo: Record<string, unknown> = {};
+  const redo: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(prev), ...Object.keys(next)]) as Set<keyof BoardData>;
+  keys.forEach((key) => {
+    if (prev[key] === next[key]) return;
+    if (key === "tasks" || key === "columns") {
+      const diff = diffRecord<Task | Column>(prev[key], next[key]);
+      if (!diff) return;
+      undo[key] = diff.before;
+      redo[key] = diff.after;
+    } else if (key === "appearance") {
+      const diff = diffFields(prev.appearance, next.appearance);
+      if (!diff) return;
+      undo[key] = diff.before;
+      redo[key] = diff.after;
+    } else {
+      undo[key] = prev[key];
+      redo[key] = next[key];
+    }
+  });
+  return Object.keys(redo).length > 0 ? { undo, redo } : null;
+};
+
+const applyRecord = <T>(current: Record<string, T>, patch: RecordPatch<T>) => {
+  const next = { ...current };
+  Object.entries(patch).forEach(([id, value]) => {
+    if (value === null) delete next[id];
+    else next[id] = value;
+  });
+  return next;
+};
+
+export const applyPatch = (board: BoardData, patch: BoardPatch): BoardData => {
+  const { tasks, columns, appearance, ...rest } = patch;
+  return {
+    ...board,
+    ...rest,
+    tasks: tasks ? applyRecord(board.tasks, tasks) : board.tasks,
+    columns: columns ? applyRecord(board.columns, columns) : board.columns,
+    appearance: appearance ? { ...board.appearance, ...appearance } : board.appearance,
+  };
+};
+
+export const pushEntry = (history: BoardHistory, entry: HistoryEntry): BoardHistory => ({
+  past: [...history.past, entry].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+/** Whether two patches change any of the same tasks, columns or other board fields. */
+export const patchesOverlap = (a: BoardPatch, b: BoardPatch) =>
+  (Object.keys(a) as (keyof BoardPatch)[]).some((key) => {
+    const other = b[key];
+    if (other === undefined) return false;
+    if (key === "tasks" || key === "columns" || key === "appearance") {
+      return Object.keys(a[key] ?? {}).some((id) => id in (other as object));
+    }
+    return true;
+  });
+
+/**
+ * The history left once another tab's `patch` has been merged in. Entries
+ * hold whole records as they were before the merge, so when any of them
+ * touches what the patch changed, undoing or redoing it would write over
+ * the other tab's edit; the board's history is dropped instead.
+ */
+export const dropConflictingHistory = (history: BoardHistory, patch: BoardPatch) =>
+  [...history.past, ...history.future].some(
+    (entry) => patchesOverlap(entry.undo, patch) || patchesOverlap(entry.redo, patch)
+  )
+    ? EMPTY_HISTORY
+    : history;
+
+/** Steps back one entry, or returns null when there is nothing to undo. */
+export const undoStep = (history: BoardHistory, board: BoardData) => {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    entry,
+    board: applyPatch(board, entry.undo),
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+  };
+};
+
+/** Re-applies the last undone entry, or returns null when there is none. */
+export const redoStep = (history: BoardHistory, board: BoardData) => {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    entry,
+    board: applyPatch(board, entry.redo),
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+  };
+};
@@ -0,0 +1,232 @@
+import type { BoardHistory } from "./history";
+import {
+  BOARD_HISTORY_KEY,
+  BOARD_SCHEMA_VERSION,
+  BOARD_STORAGE_KEY,
+  loadHistories,
+  loadWorkspace,
+  migrateWorkspace,
+} from "./persistence";
+import { historiesSchema } from "./schema";
+import type { StorageBackend, StoredWorkspace } from "./storage";
+import { diffWorkspaces } from "./sync";
+import type { Board, BoardData, Column, Task, Workspace } from "./types";
+import { createWorkspace } from "./workspace";
+
+// Tasks and columns are stored one record each, keyed by board, so a save
+// only touches what changed. Everything else about a board is small and is
+// rewritten whole.
+
+const DB_NAME = BOARD_STORAGE_KEY;
+const DB_VERSION = 1;
+
+const BOARDS = "boards";
+const COLUMNS = "columns";
+const TASKS = "tasks";
+const META = "meta";
+const BACKUPS = "backups";
+const STORES = [BOARDS, COLUMNS, TASKS, META];
+
+type BoardRecord = Omit<Board, "data"> & { data: Omit<BoardData, "tasks" | "columns"> };
+type ColumnRecord = Column & { boardId: string };
+type TaskRecord = Task & { boardId: string };
+type WorkspaceMeta = { version: number; boardOrder: string[]; activeBoardId: string };
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+const committed = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Transaction aborted"));
+  });
+
+const openDatabase = () => {
+  const req = indexedDB.open(DB_NAME, DB_VERSION);
+  req.onupgradeneeded = () => {
+    const db = req.result;
+    db.createObjectStore(BOARDS, { keyPath: "id" });
+    db.createObjectStore(COLUMNS, { keyPath: ["boardId", "id"] });
+    db.createObjectStore(TASKS, { keyPath: ["boardId", "id"] });
+    db.createObjectStore(META);
+    db.createObjectStore(BACKUPS);
+  };
+  return request(req);
+};
+
+// Arrays sort after strings, so this covers every [boardId, id] key.
+const boardRange = (boardId: string) => IDBKeyRange.bound([boardId], [boardId, []]);
+
+const toBoardRecord = ({ data, ...board }: Board): BoardRecord => {
+  const rest: Partial<BoardData> = { ...data };
+  delete rest.tasks;
+  delete rest.columns;
+  return { ...board, data: rest as BoardRecord["data"] };
+};
+
+const putBoard = (tx: IDBTransaction, board: Board) => {
+  tx.objectStore(BOARDS).put(toBoardRecord(board));
+  Object.values(board.data.columns).forEach((column) =>
+    tx.objectStore(COLUMNS).put({ ...column, boardId: board.id })
+  );
+  Object.values(board.data.tasks).forEach((task) =>
+    tx.objectStore(TASKS).put({ ...task, boardId: board.id })
+  );
+};
+
+const deleteBoard = (tx: IDBTransaction, boardId: string) => {
+  tx.objectStore(BOARDS).delete(boardId);
+  tx.objectStore(COLUMNS).delete(boardRange(boardId));
+  tx.objectStore(TASKS).delete(boardRange(boardId));
+};
+
+const putMeta = (tx: IDBTransaction, workspace: Workspace) => {
+  const meta: WorkspaceMeta = {
+    version: BOARD_SCHEMA_VERSION,
+    boardOrder: workspace.boardOrder,
+    activeBoardId: workspace.activeBoardId,
+  };
+  tx.objectStore(META).put(meta, "workspace");
+};
+
+/** Replaces everything stored with `workspace`. */
+const writeAll = (db: IDBDatabase, workspace: Workspace) => {
+  const tx = db.transaction(STORES, "readwrite");
+  [BOARDS, COLUMNS, TASKS].forEach((store) => tx.objectStore(store).clear());
+  Object.values(workspace.boards).forEach((board) => putBoard(tx, board));
+  putMeta(tx, workspace);
+  return committed(tx);
+};
+
+/** Rebuilds the workspace from its records, in the shape it was saved in. */
+const readWorkspace = async (db: IDBDatabase, meta: WorkspaceMeta) => {
+  const tx = db.transaction(STORES, "readonly");
+  const [boards, columns, tasks] = await Promise.all([
+    request<BoardRecord[]>(tx.objectStore(BOARDS).getAll()),
+    request<ColumnRecord[]>(tx.objectStore(COLUMNS).getAll()),
+    request<TaskRecord[]>(tx.objectStore(TASKS).getAll()),
+  ]);
+  const workspace = {
+    boards: Object.fromEntries(
+      boards.map((board) => [
+        board.id,
+        { ...board, data: { ...board.data, tasks: {}, columns: {} } as BoardData },
+      ])
+    ),
+    boardOrder: meta.boardOrder,
+    activeBoardId: meta.activeBoardId,
+  };
+  columns.forEach(({ boardId, ...column }) => {
+    const board = workspace.boards[boardId];
+    if (board) board.data.columns[column.id] = column;
+  });
+  tasks.forEach(({ boardId, ...task }) => {
+    const board = workspace.boards[boardId];
+    if (board) board.data.tasks[task.id] = task;
+  });
+  return workspace;
+};
+
+const readHistories = async (db: IDBDatabase) => {
+  const tx = db.transaction(META, "readonly");
+  const saved = await request(tx.objectStore(META).get("histories"));
+  if (!saved) return {};
+  try {
+    if (saved.version !== BOARD_SCHEMA_VERSION) return {};
+    return historiesSchema.parse(saved.data);
+  } catch (err) {
+    console.warn("Discarding unreadable undo history", err);
+    return {};
+  }
+};
+
+const quarantine = async (db: IDBDatabase, payload: unknown) => {
+  const backupKey = `backup-${Date.now()}`;
+  try {
+    const tx = db.transaction(BACKUPS, "readwrite");
+    tx.objectStore(BACKUPS).put(payload, backupKey);
+    await committed(tx);
+    return `${DB_NAME}/${BACKUPS}/${backupKey}`;
+  } catch (err) {
+    console.error("Could not back up unreadable board", err);
+    return null;
+  }
+};
+
+/**
+ * Moves the workspace and undo history out of localStorage the first time
+ * the database is opened. The old keys are removed only once the copy is
+ * committed, so a failed migration is retried on the next load.
+ */
+const migrateFromLocalStorage = async (db: IDBDatabase): Promise<StoredWorkspace> => {
+  const loaded = loadWorkspace();
+  const histories = loaded.recovery ? {} : loadHistories();
+  await writeAll(db, loaded.workspace);
+  const tx = db.transaction(META, "readwrite");
+  tx.objectStore(META).put({ version: BOARD_SCHEMA_VERSION, data: histories }, "histories");
+  await committed(tx);
+  localStorage.removeItem(BOARD_STORAGE_KEY);
+  localStorage.removeItem(BOARD_HISTORY_KEY);
+  return { ...loaded, histories };
+};
+
+export const createIndexedDbBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+
+  const load = async (): Promise<StoredWorkspace> => {
+    const tx = db.transaction(META, "readonly");
+    const meta = await request<WorkspaceMeta | undefined>(tx.objectStore(META).get("workspace"));
+    if (!meta) return migrateFromLocalStorage(db);
+
+    const saved = await readWorkspace(db, meta);
+    try {
+      const workspace = migrateWorkspace({ version: meta.version, data: saved });
+      if (meta.version !== BOARD_SCHEMA_VERSION) await writeAll(db, workspace);
+      return { workspace, histories: await readHistories(db) };
+    } catch (err) {
+      console.error("Discarding unreadable board", err);
+      const backupKey = await quarantine(db, { version: meta.version, data: saved });
+      const workspace = createWorkspace();
+      await writeAll(db, workspace);
+      return { workspace, histories: {}, recovery: { backupKey } };
+    }
+  };
+
+  const write = (previous: Workspace, next: Workspace) => {
+    const change = diffWorkspaces(previous, next);
+    const tx = db.transaction(STORES, "readwrite");
+    Object.entries(change?.boards ?? {}).forEach(([boardId, boardChange]) => {
+      if (boardChange.type === "add") return putBoard(tx, boardChange.board);
+      if (boardChange.type === "delete") return deleteBoard(tx, boardId);
+      const board = next.boards[boardId];
+      const { tasks, columns, ...rest } = boardChange.redo;
+      if (Object.keys(boardChange.after).length > 0 || Object.keys(rest).length > 0) {
+        tx.objectStore(BOARDS).put(toBoardRecord(board));
+      }
+      Object.entries(columns ?? {}).forEach(([id, column]) => {
+        if (column) tx.objectStore(COLUMNS).put({ ...column, boardId });
+        else tx.objectStore(COLUMNS).delete([boardId, id]);
+      });
+      Object.entries(tasks ?? {}).forEach(([id, task]) => {
+        if (task) tx.objectStore(TASKS).put({ ...task, boardId });
+        else tx.objectStore(TASKS).delete([boardId, id]);
+      });
+    });
+    if (previous.boardOrder !== next.boardOrder || previous.activeBoardId !== next.activeBoardId) {
+      putMeta(tx, next);
+    }
+    return committed(tx);
+  };
+
+  const writeHistories = (histories: Record<string, BoardHistory>) => {
+    const tx = db.transaction(META, "readwrite");
+    tx.objectStore(META).put({ version: BOARD_SCHEMA_VERSION, data: histories }, "histories");
+    return committed(tx);
+  };
+
+  return { name: "IndexedDB", load, write, writeHistories };
+};
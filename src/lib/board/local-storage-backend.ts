@@ -0,0 +1,16 @@
+import { loadHistories, loadWorkspace, saveHistories, saveWorkspace } from "./persistence";
+import type { StorageBackend } from "./storage";
+
+/**
+ * Keeps the whole workspace as one JSON string under `BOARD_STORAGE_KEY`.
+ * localStorage can't update part of a value, so every write is a full one.
+ */
+export const localStorageBackend: StorageBackend = {
+  name: "localStorage",
+  load: async () => {
+    const loaded = loadWorkspace();
+    return { ...loaded, histories: loaded.recovery ? {} : loadHistories() };
+  },
+  write: async (_previous, next) => saveWorkspace(next),
+  writeHistories: async (histories) => saveHistories(histories),
+};
@@ -0,0 +1,72 @@
+import { findColumnOfTask, type TaskLocation } from "./operations";
+import type { BoardData } from "./types";
+
+export type Direction = "up" | "down" | "left" | "right";
+
+/** A focused card, or a column's header when `taskId` is null. */
+export type BoardFocus = { columnId: string; taskId: string | null };
+
+/**
+ * Where focus goes from `current` when an arrow key is pressed, moving over
+ * the visible cards only. Up from a column's first card lands on its header;
+ * left and right keep the row where the neighbouring column allows. Returns
+ * null when there is nowhere to go.
+ */
+export const getNextFocus = (
+  columnOrder: string[],
+  visibleTaskIds: Record<string, string[]>,
+  current: BoardFocus | null,
+  direction: Direction
+): BoardFocus | null => {
+  if (!current) {
+    const columnId = columnOrder[0];
+    if (!columnId) return null;
+    return { columnId, taskId: visibleTaskIds[columnId][0] ?? null };
+  }
+
+  const taskIds = visibleTaskIds[current.columnId];
+  const row = current.taskId === null ? -1 : taskIds.indexOf(current.taskId);
+
+  if (direction === "up" || direction === "down") {
+    const next = row + (direction === "up" ? -1 : 1);
+    if (next < -1 || next >= taskIds.length) return null;
+    return { columnId: current.columnId, taskId: next === -1 ? null : taskIds[next] };
+  }
+
+  const column = columnOrder.indexOf(current.columnId) + (direction === "left" ? -1 : 1);
+  const columnId = columnOrder[column];
+  if (!columnId) return null;
+  const target = visibleTaskIds[columnId];
+  if (row === -1 || target.length === 0) return { columnId, taskId: null };
+  return { columnId, taskId: target[Math.min(row, target.length - 1)] };
+};
+
+/**
+ * The move that shifts a card one step: up or down within its column's
+ * `taskIds`, or to the same position in the neighbouring column. Returns
+ * null at the edges of the board.
+ */
+export const getKeyboardMove = (
+  board: BoardData,
+  taskId: string,
+  direction: Direction
+): { source: TaskLocation; destination: TaskLocation } | null => {
+  const column = findColumnOfTask(board, taskId);
+  if (!column) return null;
+  const index = column.taskIds.indexOf(taskId);
+  const source = { columnId: column.id, index };
+
+  if (direction === "up" || direction === "down") {
+    const next = index + (direction === "up" ? -1 : 1);
+    if (next < 0 || next >= column.taskIds.length) return null;
+    return { source, destination: { columnId: column.id, index: next } };
+  }
+
+  const position = board.columnOrder.indexOf(column.id) + (direction === "left" ? -1 : 1);
+  const target = board.columns[board.columnOrder[position]];
+  if (!target) return null;
+  return {
+    source,
+    destination: { columnId: target.id, index: Math.min(index, target.taskIds.length) },
+  };
+};
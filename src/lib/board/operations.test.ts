@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultBoard } from "./defaults";
+import { addTask, createTask, deleteColumn, updateTask } from "./operations";
+
+describe("updates of things that are gone", () => {
+  it("leaves the board alone when the task no longer exists", () => {
+    const board = createDefaultBoard();
+    expect(updateTask(board, "task-missing", { content: "Renamed" })).toBe(board);
+  });
+
+  it("leaves the board alone when either list no longer exists", () => {
+    const board = createDefaultBoard();
+    expect(deleteColumn(board, "column-missing")).toBe(board);
+    expect(deleteColumn(board, "todo", "column-missing")).toBe(board);
+  });
+});
+
+describe("deleteColumn", () => {
+  it("notes when moved cards came into their new list", () => {
+    const task = createTask("Moving", { createdAt: 1 });
+    const board = addTask(createDefaultBoard(), "inprogress", task);
+    const next = deleteColumn(board, "inprogress", "done", 5);
+    expect(next.columns.done.taskIds).toEqual([task.id]);
+    expect(next.tasks[task.id].columnEntries).toEqual([
+      { columnId: "inprogress", at: 1 },
+      { columnId: "done", at: 5 },
+    ]);
+  });
+});
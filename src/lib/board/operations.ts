@@ -0,0 +1,220 @@
+import type { ColumnStyle } from "./palette";
+import type { BoardData, Column, Label, Task } from "./types";
+
+// Pure, immutable updates of `BoardData`. Components hand these to
+// `setBoard(prev => ...)` instead of rebuilding the nested objects inline.
+
+export const createId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const createTask = (
+  content: string,
+  details: Partial<Omit<Task, "id" | "content">> = {}
+): Task => ({
+  id: createId("task"),
+  content,
+  description: "",
+  dueDate: null,
+  startDate: null,
+  endDate: null,
+  dependsOn: [],
+  priority: null,
+  labelIds: [],
+  assignee: null,
+  epic: null,
+  laneId: null,
+  checklists: [],
+  comments: [],
+  createdAt: Date.now(),
+  activity: [],
+  columnEntries: [],
+  archived: null,
+  ...details,
+});
+
+export const findColumnOfTask = (board: BoardData, taskId: string): Column | undefined =>
+  Object.values(board.columns).find((column) => column.taskIds.includes(taskId));
+
+export const addTask = (board: BoardData, columnId: string, task: Task): BoardData => {
+  const column = board.columns[columnId];
+  const columnEntries = [...task.columnEntries, { columnId, at: task.createdAt ?? Date.now() }];
+  return {
+    ...board,
+    tasks: { ...board.tasks, [task.id]: { ...task, columnEntries } },
+    columns: {
+      ...board.columns,
+      [columnId]: { ...column, taskIds: [task.id, ...column.taskIds] },
+    },
+  };
+};
+
+/** Changes a task; a task that no longer exists is left alone. */
+export const updateTask = (
+  board: BoardData,
+  taskId: string,
+  patch: Partial<Omit<Task, "id">>
+): BoardData => {
+  const task = board.tasks[taskId];
+  if (!task) return board;
+  return { ...board, tasks: { ...board.tasks, [taskId]: { ...task, ...patch } } };
+};
+
+/** Drops the removed tasks from the dependencies of those left. */
+const removeDependencies = (tasks: Record<string, Task>, removedIds: string[]) => {
+  Object.values(tasks).forEach((task) => {
+    const dependsOn = task.dependsOn.filter((id) => !removedIds.includes(id));
+    if (dependsOn.length < task.dependsOn.length) tasks[task.id] = { ...task, dependsOn };
+  });
+  return tasks;
+};
+
+export const deleteTask = (board: BoardData, taskId: string): BoardData => {
+  const tasks = { ...board.tasks };
+  delete tasks[taskId];
+  removeDependencies(tasks, [taskId]);
+  const column = findColumnOfTask(board, taskId);
+  if (!column) return { ...board, tasks };
+  return {
+    ...board,
+    tasks,
+    columns: {
+      ...board.columns,
+      [column.id]: { ...column, taskIds: column.taskIds.filter((id) => id !== taskId) },
+    },
+  };
+};
+
+/** Notes that the tasks came into `columnId` at `at`, for the analytics. */
+export const enterColumn = (
+  board: BoardData,
+  taskIds: string[],
+  columnId: string,
+  at: number
+): BoardData => {
+  const tasks = { ...board.tasks };
+  taskIds.forEach((taskId) => {
+    const task = tasks[taskId];
+    tasks[taskId] = { ...task, columnEntries: [...task.columnEntries, { columnId, at }] };
+  });
+  return { ...board, tasks };
+};
+
+export type TaskLocation = { columnId: string; index: number };
+
+export const moveTask = (
+  board: BoardData,
+  taskId: string,
+  source: TaskLocation,
+  destination: TaskLocation
+): BoardData => {
+  const start = board.columns[source.columnId];
+  const finish = board.columns[destination.columnId];
+
+  // Moving within same column
+  if (start === finish) {
+    const taskIds = Array.from(start.taskIds);
+    taskIds.splice(source.index, 1);
+    taskIds.splice(destination.index, 0, taskId);
+    return {
+      ...board,
+      columns: { ...board.columns, [start.id]: { ...start, taskIds } },
+    };
+  }
+
+  // Moving to another column
+  const startTaskIds = Array.from(start.taskIds);
+  startTaskIds.splice(source.index, 1);
+  const finishTaskIds = Array.from(finish.taskIds);
+  finishTaskIds.splice(destination.index, 0, taskId);
+  return {
+    ...board,
+    columns: {
+      ...board.columns,
+      [start.id]: { ...start, taskIds: startTaskIds },
+      [finish.id]: { ...finish, taskIds: finishTaskIds },
+    },
+  };
+};
+
+export const addColumn = (
+  board: BoardData,
+  column: { id: string; title: string } & ColumnStyle
+): BoardData => ({
+  ...board,
+  columns: { ...board.columns, [column.id]: { ...column, taskIds: [], archived: null, wipLimit: null } },
+  columnOrder: [...board.columnOrder, column.id],
+});
+
+export const updateColumn = (
+  board: BoardData,
+  columnId: string,
+  patch: Partial<Omit<Column, "id" | "taskIds" | "archived">>
+): BoardData => ({
+  ...board,
+  columns: {
+    ...board.columns,
+    [columnId]: { ...board.columns[columnId], ...patch },
+  },
+});
+
+export const moveColumn = (board: BoardData, fromIndex: number, toIndex: number): BoardData => {
+  const columnOrder = Array.from(board.columnOrder);
+  const [columnId] = columnOrder.splice(fromIndex, 1);
+  columnOrder.splice(toIndex, 0, columnId);
+  return { ...board, columnOrder };
+};
+
+/**
+ * Removes a column. Its tasks are appended to `moveTasksTo` when given,
+ * otherwise they are deleted along with it.
+ */
+export const deleteColumn = (
+  board: BoardData,
+  columnId: string,
+  moveTasksTo?: string,
+  at = Date.now()
+): BoardData => {
+  const removed = board.columns[columnId];
+  if (!removed || (moveTasksTo && !board.columns[moveTasksTo])) return board;
+  const columns = { ...board.columns };
+  delete columns[columnId];
+  const columnOrder = board.columnOrder.filter((id) => id !== columnId);
+  if (moveTasksTo) {
+    const target = columns[moveTasksTo];
+    columns[moveTasksTo] = { ...target, taskIds: [...target.taskIds, ...removed.taskIds] };
+    return enterColumn({ ...board, columns, columnOrder }, removed.taskIds, moveTasksTo, at);
+  }
+  const tasks = { ...board.tasks };
+  removed.taskIds.forEach((taskId) => delete tasks[taskId]);
+  removeDependencies(tasks, removed.taskIds);
+  return { ...board, tasks, columns, columnOrder };
+};
+
+export const addLabel = (board: BoardData, label: Label): BoardData => ({
+  ...board,
+  labels: [...board.labels, label],
+});
+
+export const updateLabel = (
+  board: BoardData,
+  labelId: string,
+  patch: Partial<Omit<Label, "id">>
+): BoardData => ({
+  ...board,
+  labels: board.labels.map((label) => (label.id === labelId ? { ...label, ...patch } : label)),
+});
+
+/** Removes a label from the board and from every task that carries it. */
+export const deleteLabel = (board: BoardData, labelId: string): BoardData => {
+  const tasks: Record<string, Task> = {};
+  Object.values(board.tasks).forEach((task) => {
+    tasks[task.id] = task.labelIds.includes(labelId)
+      ? { ...task, labelIds: task.labelIds.filter((id) => id !== labelId) }
+      : task;
+  });
+  return {
+    ...board,
+    tasks,
+    labels: board.labels.filter((label) => label.id !== labelId),
+  };
+};
@@ -0,0 +1,167 @@
+import type { Column } from "./types";
+
+export type ColumnStyle = Pick<Column, "color" | "accent" | "border" | "shadow" | "gradient">;
+
+export type ColumnTheme = {
+  id: string;
+  name: string;
+  /** The accent as a CSS value, for charts. */
+  chart: string;
+  style: ColumnStyle;
+};
+
+// Class names are spelled out in full so Tailwind can find them. Each style
+// carries its own `dark:` variants, so columns keep them when stored.
+export const COLUMN_THEMES: ColumnTheme[] = [
+  {
+    id: "blue",
+    name: "Blue",
+    chart: "#3b82f6",
+    style: {
+      color: "from-blue-100 to-blue-200 dark:from-blue-950 dark:to-blue-900",
+      accent: "bg-blue-500",
+      border: "border-blue-300 dark:border-blue-800",
+      shadow: "shadow-blue-200 dark:shadow-blue-950",
+      gradient: "bg-gradient-to-br from-blue-100 to-blue-200 dark:from-blue-950 dark:to-blue-900",
+    },
+  },
+  {
+    id: "violet",
+    name: "Violet",
+    chart: "#8b5cf6",
+    style: {
+      color: "from-violet-100 to-violet-200 dark:from-violet-950 dark:to-violet-900",
+      accent: "bg-violet-500",
+      border: "border-violet-300 dark:border-violet-800",
+      shadow: "shadow-violet-200 dark:shadow-violet-950",
+      gradient: "bg-gradient-to-br from-violet-100 to-violet-200 dark:from-violet-950 dark:to-violet-900",
+    },
+  },
+  {
+    id: "emerald",
+    name: "Emerald",
+    chart: "#10b981",
+    style: {
+      color: "from-emerald-100 to-emerald-200 dark:from-emerald-950 dark:to-emerald-900",
+      accent: "bg-emerald-500",
+      border: "border-emerald-300 dark:border-emerald-800",
+      shadow: "shadow-emerald-200 dark:shadow-emerald-950",
+      gradient: "bg-gradient-to-br from-emerald-100 to-emerald-200 dark:from-emerald-950 dark:to-emerald-900",
+    },
+  },
+  {
+    id: "amber",
+    name: "Amber",
+    chart: "#f59e0b",
+    style: {
+      color: "from-amber-100 to-amber-200 dark:from-amber-950 dark:to-amber-900",
+      accent: "bg-amber-500",
+      border: "border-amber-300 dark:border-amber-800",
+      shadow: "shadow-amber-200 dark:shadow-amber-950",
+      gradient: "bg-gradient-to-br from-amber-100 to-amber-200 dark:from-amber-950 dark:to-amber-900",
+    },
+  },
+  {
+    id: "rose",
+    name: "Rose",
+    chart: "#f43f5e",
+    style: {
+      color: "from-rose-100 to-rose-200 dark:from-rose-950 dark:to-rose-900",
+      accent: "bg-rose-500",
+      border: "border-rose-300 dark:border-rose-800",
+      shadow: "shadow-rose-200 dark:shadow-rose-950",
+      gradient: "bg-gradient-to-br from-rose-100 to-rose-200 dark:from-rose-950 dark:to-rose-900",
+    },
+  },
+  {
+    id: "sky",
+    name: "Sky",
+    chart: "#0ea5e9",
+    style: {
+      color: "from-sky-100 to-sky-200 dark:from-sky-950 dark:to-sky-900",
+      accent: "bg-sky-500",
+      border: "border-sky-300 dark:border-sky-800",
+      shadow: "shadow-sky-200 dark:shadow-sky-950",
+      gradient: "bg-gradient-to-br from-sky-100 to-sky-200 dark:from-sky-950 dark:to-sky-900",
+    },
+  },
+  {
+    id: "teal",
+    name: "Teal",
+    chart: "#14b8a6",
+    style: {
+      color: "from-teal-100 to-teal-200 dark:from-teal-950 dark:to-teal-900",
+      accent: "bg-teal-500",
+      border: "border-teal-300 dark:border-teal-800",
+      shadow: "shadow-teal-200 dark:shadow-teal-950",
+      gradient: "bg-gradient-to-br from-teal-100 to-teal-200 dark:from-teal-950 dark:to-teal-900",
+    },
+  },
+  {
+    id: "orange",
+    name: "Orange",
+    chart: "#f97316",
+    style: {
+      color: "from-orange-100 to-orange-200 dark:from-orange-950 dark:to-orange-900",
+      accent: "bg-orange-500",
+      border: "border-orange-300 dark:border-orange-800",
+      shadow: "shadow-orange-200 dark:shadow-orange-950",
+      gradient: "bg-gradient-to-br from-orange-100 to-orange-200 dark:from-orange-950 dark:to-orange-900",
+    },
+  },
+  {
+    id: "pink",
+    name: "Pink",
+    chart: "#ec4899",
+    style: {
+      color: "from-pink-100 to-pink-200 dark:from-pink-950 dark:to-pink-900",
+      accent: "bg-pink-500",
+      border: "border-pink-300 dark:border-pink-800",
+      shadow: "shadow-pink-200 dark:shadow-pink-950",
+      gradient: "bg-gradient-to-br from-pink-100 to-pink-200 dark:from-pink-950 dark:to-pink-900",
+    },
+  },
+  {
+    id: "slate",
+    name: "Slate",
+    chart: "#64748b",
+    style: {
+      color: "from-slate-100 to-slate-200 dark:from-slate-950 dark:to-slate-900",
+      accent: "bg-slate-500",
+      border: "border-slate-300 dark:border-slate-800",
+      shadow: "shadow-slate-200 dark:shadow-slate-950",
+      gradient: "bg-gradient-to-br from-slate-100 to-slate-200 dark:from-slate-950 dark:to-slate-900",
+    },
+  },
+];
+
+export const getColumnTheme = (id: string): ColumnTheme =>
+  COLUMN_THEMES.find((theme) => theme.id === id) ?? COLUMN_THEMES[0];
+
+/** The palette entry a column was painted with, if it still matches one. */
+export const findColumnTheme = (column: ColumnStyle): ColumnTheme | undefined =>
+  COLUMN_THEMES.find((theme) => theme.style.accent === column.accent);
+
+export type LabelColor = {
+  id: string;
+  name: string;
+  /** Classes for a filled label pill. */
+  badge: string;
+  /** The same color as a CSS value, for charts. */
+  chart: string;
+};
+
+export const LABEL_COLORS: LabelColor[] = [
+  { id: "green", name: "Green", badge: "bg-green-500 text-white", chart: "#22c55e" },
+  { id: "yellow", name: "Yellow", badge: "bg-yellow-400 text-yellow-950", chart: "#facc15" },
+  { id: "orange", name: "Orange", badge: "bg-orange-500 text-white", chart: "#f97316" },
+  { id: "red", name: "Red", badge: "bg-red-500 text-white", chart: "#ef4444" },
+  { id: "purple", name: "Purple", badge: "bg-purple-500 text-white", chart: "#a855f7" },
+  { id: "blue", name: "Blue", badge: "bg-blue-500 text-white", chart: "#3b82f6" },
+  { id: "sky", name: "Sky", badge: "bg-sky-400 text-sky-950", chart: "#38bdf8" },
+  { id: "pink", name: "Pink", badge: "bg-pink-500 text-white", chart: "#ec4899" },
+  { id: "slate", name: "Slate", badge: "bg-slate-500 text-white", chart: "#64748b" },
+];
+
+export const getLabelColor = (id: string): LabelColor =>
+  LABEL_COLORS.find((color) => color.id === id) ?? LABEL_COLORS[LABEL_COLORS.length - 1];
@@ -0,0 +1,41 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultBoard } from "./defaults";
+import { getColumnTheme } from "./palette";
+import { migrateBoardData } from "./persistence";
+
+// Board data as saved at v11, before columns had dark variants or boards had
+// appearance settings.
+const createV11Board = () => {
+  const board = { ...createDefaultBoard(), appearance: undefined };
+  board.columns.todo = {
+    ...board.columns.todo,
+    color: "from-blue-100 to-blue-200",
+    accent: "bg-blue-500",
+    border: "border-blue-300",
+    shadow: "shadow-blue-200",
+    gradient: "bg-gradient-to-br from-blue-100 to-blue-200",
+  };
+  return board;
+};
+
+describe("migrating to v12", () => {
+  it("repaints columns styled exactly as a palette entry was", () => {
+    const board = migrateBoardData(11, createV11Board());
+    expect(board.columns.todo).toMatchObject(getColumnTheme("blue").style);
+  });
+
+  it("leaves columns that only share an accent alone", () => {
+    const v11 = createV11Board();
+    const custom = {
+      ...v11.columns.todo,
+      gradient: "bg-gradient-to-br from-pink-100 to-blue-200",
+    };
+    v11.columns.todo = custom;
+    const board = migrateBoardData(11, v11);
+    expect(board.columns.todo).toMatchObject({
+      gradient: custom.gradient,
+      border: custom.border,
+      shadow: custom.shadow,
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { DEFAULT_APPEARANCE } from "./appearance";
+import { DEFAULT_LABELS } from "./defaults";
+import type { BoardHistory } from "./history";
+import { COLUMN_THEMES, type ColumnStyle } from "./palette";
+import { envelopeSchema, historiesSchema, workspaceSchema } from "./schema";
+import type { BoardData, Task, Workspace } from "./types";
+import { createBoard, createWorkspace, DEFAULT_BOARD_NAME, getActiveBoard } from "./workspace";
+
+export const BOARD_STORAGE_KEY = "trello-board";
+export const BOARD_HISTORY_KEY = "trello-board:history";
+export const BOARD_SCHEMA_VERSION = 13;
+
+type Migration = (data: unknown) => unknown;
+
+const STYLE_KEYS: (keyof ColumnStyle)[] = ["color", "accent", "border", "shadow", "gradient"];
+
+const withoutDark = (classes: string) =>
+  classes
+    .split(" ")
+    .filter((name) => !name.startsWith("dark:"))
+    .join(" ");
+
+/** True when `column` has `style` as it was saved before dark mode. */
+const isLegacyStyle = (column: ColumnStyle, style: ColumnStyle) =>
+  STYLE_KEYS.every((key) => column[key] === withoutDark(style[key]));
+
+/**
+ * Upgrades a payload from the version it is keyed by to the next one. Every
+ * historical version needs an entry so old saves can walk the whole chain up
+ * to `BOARD_SCHEMA_VERSION`.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // v0 is the bare `BoardData` written before the envelope existed; its shape
+  // is identical to v1.
+  0: (data) => data,
+  // v1 held a single `BoardData`; v2 wraps it as the first board of a
+  // `Workspace`.
+  1: (data) => createWorkspace(createBoard(DEFAULT_BOARD_NAME, data as BoardData)),
+  // v3 adds task details (description, due date, priority, labels) and the
+  // per-board label set.
+  2: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      board.data.labels = DEFAULT_LABELS.map((label) => ({ ...label }));
+      const tasks: Record<
+        string,
+        Pick<Task, "id" | "content" | "description" | "dueDate" | "priority" | "labelIds">
+      > = board.data.tasks;
+      Object.keys(tasks).forEach((taskId) => {
+        const task: Pick<Task, "id" | "content"> = tasks[taskId];
+        tasks[taskId] = {
+          description: "",
+          dueDate: null,
+          priority: null,
+          labelIds: [],
+          ...task,
+        };
+      });
+    });
+    return workspace;
+  },
+  // v4 adds checklists to tasks.
+  3: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      Object.values(board.data.tasks).forEach((task) => {
+        task.checklists ??= [];
+      });
+    });
+    return workspace;
+  },
+  // v5 adds comments and the activity feed to tasks.
+  4: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      Object.values(board.data.tasks).forEach((task) => {
+        task.comments ??= [];
+        task.activity ??= [];
+      });
+    });
+    return workspace;
+  },
+  // v6 adds archiving of tasks and columns, and auto-archiving.
+  5: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      board.data.autoArchiveDays ??= null;
+      Object.values(board.data.tasks).forEach((task) => {
+        task.archived ??= null;
+      });
+      Object.values(board.data.columns).forEach((column) => {
+        column.archived ??= null;
+      });
+    });
+    return workspace;
+  },
+  // v7 adds WIP limits to columns.
+  6: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      Object.values(board.data.columns).forEach((column) => {
+        column.wipLimit ??= null;
+      });
+    });
+    return workspace;
+  },
+  // v8 adds assignees, epics and manual swimlanes.
+  7: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      board.data.lanes ??= [];
+      Object.values(board.data.tasks).forEach((task) => {
+        task.assignee ??= null;
+        task.epic ??= null;
+        task.laneId ??= null;
+      });
+    });
+    return workspace;
+  },
+  // v9 adds creation times, from the activity feed where it still has them.
+  8: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      Object.values(board.data.tasks).forEach((task) => {
+        task.createdAt ??= task.activity.find((entry) => entry.type === "created")?.at ?? null;
+      });
+    });
+    return workspace;
+  },
+  // v10 adds start and end dates and dependencies, for the timeline.
+  9: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      Object.values(board.data.tasks).forEach((task) => {
+        task.startDate ??= null;
+        task.endDate ??= null;
+        task.dependsOn ??= [];
+      });
+    });
+    return workspace;
+  },
+  // v11 adds when cards entered each column, rebuilt from the activity feed
+  // where the column titles it kept still match.
+  10: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      const columnIds = new Map(
+        Object.values(board.data.columns).map((column) => [column.title, column.id])
+      );
+      Object.values(board.data.tasks).forEach((task) => {
+        task.columnEntries ??= task.activity.flatMap((entry) => {
+          const title =
+            entry.type === "created" || entry.type === "restored"
+              ? entry.column
+              : entry.type === "moved"
+                ? entry.to
+                : null;
+          const columnId = title === null ? undefined : columnIds.get(title);
+          return columnId ? [{ columnId, at: entry.at }] : [];
+        });
+      });
+    });
+    return workspace;
+  },
+  // v12 repaints columns from the palette, whose styles now carry dark
+  // variants. Only columns still styled exactly as a palette entry was are
+  // repainted; any other colors are left alone.
+  11: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      Object.values(board.data.columns).forEach((column) => {
+        const theme = COLUMN_THEMES.find((t) => isLegacyStyle(column, t.style));
+        if (theme) Object.assign(column, theme.style);
+      });
+    });
+    return workspace;
+  },
+  // v13 adds per-board appearance settings.
+  12: (data) => {
+    const workspace = data as Workspace;
+    Object.values(workspace.boards).forEach((board) => {
+      board.data.appearance ??= { ...DEFAULT_APPEARANCE };
+    });
+    return workspace;
+  },
+};
+
+export type LoadedWorkspace = {
+  workspace: Workspace;
+  /**
+   * Present when the stored payload was unusable and a fresh workspace was
+   * started; `backupKey` is where the original was moved, if it could be.
+   */
+  recovery?: { backupKey: string | null };
+};
+
+const readEnvelope = (raw: unknown) => {
+  const envelope = envelopeSchema.safeParse(raw);
+  return envelope.success ? envelope.data : { version: 0, data: raw };
+};
+
+export const migrateWorkspace = (raw: unknown): Workspace => {
+  let { version, data } = readEnvelope(raw);
+  if (version > BOARD_SCHEMA_VERSION) {
+    throw new Error(
+      `Board was saved by a newer version (v${version}, expected at most v${BOARD_SCHEMA_VERSION})`
+    );
+  }
+  while (version < BOARD_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from board v${version}`);
+    data = migrate(data);
+    version += 1;
+  }
+  return workspaceSchema.parse(data);
+};
+
+/**
+ * Upgrades a single board's data written at `version`, e.g. from an export
+ * file, by running it through the workspace migrations as a one-board
+ * workspace.
+ */
+export const migrateBoardData = (version: number, data: unknown): BoardData => {
+  // Up to v1 the payload was the board data itself.
+  const payload =
+    version <= 1 ? data : createWorkspace(createBoard(DEFAULT_BOARD_NAME, data as BoardData));
+  return getActiveBoard(migrateWorkspace({ version, data: payload })).data;
+};
+
+const quarantine = (payload: string): string | null => {
+  const backupKey = `${BOARD_STORAGE_KEY}:backup-${Date.now()}`;
+  try {
+    localStorage.setItem(backupKey, payload);
+    return backupKey;
+  } catch (err) {
+    console.error("Could not back up unreadable board", err);
+    return null;
+  }
+};
+
+export const loadWorkspace = (): LoadedWorkspace => {
+  const saved = localStorage.getItem(BOARD_STORAGE_KEY);
+  if (saved === null) return { workspace: createWorkspace() };
+  try {
+    return { workspace: migrateWorkspace(JSON.parse(saved)) };
+  } catch (err) {
+    console.error("Discarding unreadable board", err);
+    return { workspace: createWorkspace(), recovery: { backupKey: quarantine(saved) } };
+  }
+};
+
+export const saveWorkspace = (workspace: Workspace) => {
+  localStorage.setItem(
+    BOARD_STORAGE_KEY,
+    JSON.stringify({ version: BOARD_SCHEMA_VERSION, data: workspace })
+  );
+};
+
+/**
+ * Undo history is a convenience, so it is not migrated: history written
+ * under another schema version, or that fails validation, is dropped.
+ */
+export const loadHistories = (): Record<string, BoardHistory> => {
+  try {
+    const saved = localStorage.getItem(BOARD_HISTORY_KEY);
+    if (saved === null) return {};
+    const envelope = envelopeSchema.parse(JSON.parse(saved));
+    if (envelope.version !== BOARD_SCHEMA_VERSION) return {};
+    return historiesSchema.parse(envelope.data);
+  } catch (err) {
+    console.warn("Discarding unreadable undo history", err);
+    return {};
+  }
+};
+
+export const saveHistories = (histories: Record<string, BoardHistory>) => {
+  try {
+    localStorage.setItem(
+      BOARD_HISTORY_KEY,
+      JSON.stringify({ version: BOARD_SCHEMA_VERSION, data: histories })
+    );
+  } catch (err) {
+    // Running out of quota must not take the board itself down with it.
+    console.warn("Could not save undo history", err);
+  }
+};
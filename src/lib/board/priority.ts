@@ -0,0 +1,34 @@
+import type { Priority } from "./types";
+
+export type PriorityOption = {
+  id: Priority;
+  name: string;
+  /** Higher is more important; used for sorting. */
+  rank: number;
+  badge: string;
+};
+
+export const PRIORITIES: PriorityOption[] = [
+  {
+    id: "urgent",
+    name: "Urgent",
+    rank: 4,
+    badge: "bg-red-100 text-red-700 border-red-200 dark:bg-red-500/20 dark:text-red-300 dark:border-red-500/30",
+  },
+  {
+    id: "high",
+    name: "High",
+    rank: 3,
+    badge: "bg-orange-100 text-orange-700 border-orange-200 dark:bg-orange-500/20 dark:text-orange-300 dark:border-orange-500/30",
+  },
+  {
+    id: "medium",
+    name: "Medium",
+    rank: 2,
+    badge: "bg-amber-100 text-amber-700 border-amber-200 dark:bg-amber-500/20 dark:text-amber-300 dark:border-amber-500/30",
+  },
+  { id: "low", name: "Low", rank: 1, badge: "bg-muted text-muted-foreground border-border" },
+];
+
+export const getPriority = (id: Priority): PriorityOption =>
+  PRIORITIES.find((priority) => priority.id === id)!;
@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { createTask } from "./operations";
+import { matchesQuery, parseQuery, usesMe } from "./query";
+
+const context = { labels: [], now: new Date(2024, 0, 1), me: "Ada Lovelace" };
+
+describe("assignee:@me", () => {
+  const mine = createTask("Mine", { assignee: "ada lovelace" });
+  const theirs = createTask("Theirs", { assignee: "Grace" });
+
+  it("matches cards assigned to the current user, ignoring case", () => {
+    const query = parseQuery("assignee:@me");
+    expect(matchesQuery(mine, query, context)).toBe(true);
+    expect(matchesQuery(theirs, query, context)).toBe(false);
+  });
+
+  it("can be combined with other names and negated", () => {
+    expect(matchesQuery(theirs, parseQuery("assignee:@me,grace"), context)).toBe(true);
+    expect(matchesQuery(mine, parseQuery("-assignee:@me"), context)).toBe(false);
+  });
+
+  it("matches no one while the user has no name", () => {
+    const query = parseQuery("assignee:@me");
+    expect(usesMe(query)).toBe(true);
+    expect(matchesQuery(mine, query, { ...context, me: null })).toBe(false);
+    expect(matchesQuery(createTask("Nobody's"), query, { ...context, me: null })).toBe(false);
+  });
+
+  it("is not taken for a literal name", () => {
+    const literal = createTask("Literal", { assignee: "@me" });
+    expect(matchesQuery(literal, parseQuery("assignee:@me"), context)).toBe(false);
+  });
+});
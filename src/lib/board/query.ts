@@ -0,0 +1,221 @@
+import { differenceInCalendarDays } from "date-fns";
+import { getDueStatus, parseDueDate } from "./due";
+import { PRIORITIES } from "./priority";
+import type { Label, Priority, Task } from "./types";
+
+// The board search syntax. Whitespace separates terms, which must all match:
+//
+//   free text          matches the title or description (quote phrases)
+//   label:bug          has any of the comma-separated labels
+//   priority:high      has any of the comma-separated priorities
+//   assignee:ada       assigned to any of the comma-separated names; @me is
+//                      the name set for this browser
+//   epic:onboarding    in any of the comma-separated epics
+//   due:<7d due:>=2w   due in fewer/more than N days or weeks from today
+//   due:today|none|any
+//   is:overdue         past its due date
+//   has:description|due|labels|priority|checklist|assignee|epic
+//
+// Any term can be negated with a leading "-".
+
+type DueComparison = "<" | "<=" | ">" | ">=" | "=";
+
+type TermCondition =
+  | { kind: "text"; value: string }
+  | { kind: "label"; names: string[] }
+  | { kind: "priority"; values: Priority[] }
+  | { kind: "assignee"; names: string[] }
+  | { kind: "epic"; names: string[] }
+  | { kind: "due"; op: DueComparison; days: number }
+  | { kind: "due-presence"; present: boolean }
+  | { kind: "overdue" }
+  | { kind: "has"; field: (typeof HAS_FIELDS)[number] };
+
+export type QueryTerm = TermCondition & { negated: boolean };
+
+export type BoardQuery = {
+  terms: QueryTerm[];
+  /** Human-readable problems with terms that were ignored. */
+  errors: string[];
+};
+
+export type QueryContext = {
+  labels: Label[];
+  now: Date;
+  /** The name `assignee:@me` stands for; while unset it matches no one. */
+  me: string | null;
+};
+
+/** Stands for the current user in `assignee:` terms. */
+export const ME = "@me";
+
+const TOKEN_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+const HAS_FIELDS = [
+  "description",
+  "due",
+  "labels",
+  "priority",
+  "checklist",
+  "assignee",
+  "epic",
+] as const;
+
+const parseNames = (value: string) => value.toLowerCase().split(",").filter(Boolean);
+
+const parseDue = (value: string): TermCondition | string => {
+  const lower = value.toLowerCase();
+  if (lower === "today") return { kind: "due", op: "=", days: 0 };
+  if (lower === "none") return { kind: "due-presence", present: false };
+  if (lower === "any") return { kind: "due-presence", present: true };
+  const match = /^(<=|>=|<|>|=)?(-?\d+)([dw])?$/.exec(lower);
+  if (!match) return `Can't read due date "${value}" (try due:<7d)`;
+  const [, op = "<=", amount, unit = "d"] = match;
+  return { kind: "due", op: op as DueComparison, days: Number(amount) * (unit === "w" ? 7 : 1) };
+};
+
+const parseCondition = (key: string | undefined, value: string): TermCondition | string => {
+  if (!key) return { kind: "text", value };
+  switch (key.toLowerCase()) {
+    case "label":
+      return { kind: "label", names: parseNames(value) };
+    case "priority": {
+      const values = value.toLowerCase().split(",").filter(Boolean);
+      const unknown = values.find((v) => !PRIORITIES.some((p) => p.id === v));
+      if (unknown) return `Unknown priority "${unknown}"`;
+      return { kind: "priority", values: values as Priority[] };
+    }
+    case "due":
+      return parseDue(value);
+    case "is":
+      if (value.toLowerCase() === "overdue") return { kind: "overdue" };
+      return `Unknown filter "is:${value}"`;
+    case "has": {
+      const field = HAS_FIELDS.find((f) => f === value.toLowerCase());
+      return field ? { kind: "has", field } : `Unknown filter "has:${value}"`;
+    }
+    case "assignee":
+      return { kind: "assignee", names: parseNames(value) };
+    case "epic":
+      return { kind: "epic", names: parseNames(value) };
+    default:
+      // Not a filter we know, e.g. a URL: search for it literally.
+      return { kind: "text", value: `${key}:${value}` };
+  }
+};
+
+export const parseQuery = (input: string): BoardQuery => {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, minus, key, quoted, bare] = match;
+    const value = quoted ?? bare ?? "";
+    if (!value) continue;
+    const condition = parseCondition(key, value);
+    if (typeof condition === "string") errors.push(condition);
+    else terms.push({ ...condition, negated: minus === "-" });
+  }
+  return { terms, errors };
+};
+
+export const isEmptyQuery = (query: BoardQuery) => query.terms.length === 0;
+
+const compare = (actual: number, op: DueComparison, expected: number) => {
+  switch (op) {
+    case "<":
+      return actual < expected;
+    case "<=":
+      return actual <= expected;
+    case ">":
+      return actual > expected;
+    case ">=":
+      return actual >= expected;
+    case "=":
+      return actual === expected;
+  }
+};
+
+const matchesCondition = (task: Task, term: TermCondition, context: QueryContext): boolean => {
+  switch (term.kind) {
+    case "text": {
+      const needle = term.value.toLowerCase();
+      return (
+        task.content.toLowerCase().includes(needle) ||
+        task.description.toLowerCase().includes(needle) ||
+        task.checklists.some((checklist) =>
+          checklist.items.some((item) => item.text.toLowerCase().includes(needle))
+        )
+      );
+    }
+    case "label":
+      return context.labels.some(
+        (label) => task.labelIds.includes(label.id) && term.names.includes(label.name.toLowerCase())
+      );
+    case "priority":
+      return task.priority !== null && term.values.includes(task.priority);
+    case "assignee": {
+      if (task.assignee === null) return false;
+      const assignee = task.assignee.toLowerCase();
+      return term.names.some((name) =>
+        name === ME ? assignee === context.me?.toLowerCase() : name === assignee
+      );
+    }
+    case "epic":
+      return task.epic !== null && term.names.includes(task.epic.toLowerCase());
+    case "due":
+      return (
+        task.dueDate !== null &&
+        compare(differenceInCalendarDays(parseDueDate(task.dueDate), context.now), term.op, term.days)
+      );
+    case "due-presence":
+      return (task.dueDate !== null) === term.present;
+    case "overdue":
+      return task.dueDate !== null && getDueStatus(task.dueDate, context.now) === "overdue";
+    case "has":
+      switch (term.field) {
+        case "description":
+          return task.description.trim() !== "";
+        case "due":
+          return task.dueDate !== null;
+        case "labels":
+          return task.labelIds.length > 0;
+        case "priority":
+          return task.priority !== null;
+        case "checklist":
+          return task.checklists.some((checklist) => checklist.items.length > 0);
+        case "assignee":
+          return task.assignee !== null;
+        case "epic":
+          return task.epic !== null;
+      }
+  }
+};
+
+export const matchesQuery = (task: Task, query: BoardQuery, context: QueryContext) =>
+  query.terms.every((term) => matchesCondition(task, term, context) !== term.negated);
+
+/** Whether the query uses `assignee:@me`, which needs a name to mean anything. */
+export const usesMe = (query: BoardQuery) =>
+  query.terms.some((term) => term.kind === "assignee" && term.names.includes(ME));
+
+/** Words to highlight in card text: the query's positive free-text terms. */
+export const getHighlightTerms = (query: BoardQuery) =>
+  query.terms.flatMap((term) => (term.kind === "text" && !term.negated ? [term.value] : []));
+
+/**
+ * Maps a drop position in a filtered list back to an index in the full
+ * `taskIds`, so a card lands just before the visible card it was dropped on.
+ */
+export const resolveDropIndex = (
+  taskIds: string[],
+  visibleTaskIds: string[],
+  draggedId: string,
+  visibleIndex: number
+) => {
+  const all = taskIds.filter((id) => id !== draggedId);
+  const visible = visibleTaskIds.filter((id) => id !== draggedId);
+  const before = visible[visibleIndex];
+  if (before) return all.indexOf(before);
+  const last = visible[visible.length - 1];
+  return last ? all.indexOf(last) + 1 : all.length;
+};
@@ -0,0 +1,246 @@
+import { isValid, parseISO } from "date-fns";
+import { z } from "zod";
+import type {
+  ActivityEntry,
+  Board,
+  BoardAppearance,
+  BoardData,
+  Checklist,
+  Column,
+  Comment,
+  Label,
+  Lane,
+  Task,
+  Workspace,
+} from "./types";
+
+/** A calendar day as `yyyy-MM-dd`; used for due, start and end dates. */
+const dueDateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((value) => isValid(parseISO(value)), "Not a real date")
+  .nullable();
+
+export const checklistSchema: z.ZodType<Checklist> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  items: z.array(
+    z.object({
+      id: z.string().min(1),
+      text: z.string(),
+      done: z.boolean(),
+      dueDate: dueDateSchema,
+    })
+  ),
+});
+
+export const commentSchema: z.ZodType<Comment> = z.object({
+  id: z.string().min(1),
+  text: z.string(),
+  createdAt: z.number(),
+  editedAt: z.number().nullable(),
+});
+
+const activityBase = { id: z.string().min(1), at: z.number() };
+
+export const activityEntrySchema: z.ZodType<ActivityEntry> = z.discriminatedUnion("type", [
+  z.object({ ...activityBase, type: z.literal("created"), column: z.string() }),
+  z.object({
+    ...activityBase,
+    type: z.literal("edited"),
+    fields: z.array(
+      z.enum([
+        "title",
+        "description",
+        "priority",
+        "labels",
+        "checklists",
+        "assignee",
+        "epic",
+        "lane",
+        "schedule",
+        "dependencies",
+      ])
+    ),
+  }),
+  z.object({ ...activityBase, type: z.literal("moved"), from: z.string(), to: z.string() }),
+  z.object({ ...activityBase, type: z.literal("due"), from: dueDateSchema, to: dueDateSchema }),
+  z.object({ ...activityBase, type: z.literal("archived"), column: z.string() }),
+  z.object({ ...activityBase, type: z.literal("restored"), column: z.string() }),
+]);
+
+export const taskSchema: z.ZodType<Task> = z.object({
+  id: z.string().min(1),
+  content: z.string(),
+  description: z.string(),
+  dueDate: dueDateSchema,
+  startDate: dueDateSchema,
+  endDate: dueDateSchema,
+  dependsOn: z.array(z.string()),
+  priority: z.enum(["low", "medium", "high", "urgent"]).nullable(),
+  labelIds: z.array(z.string()),
+  assignee: z.string().min(1).nullable(),
+  epic: z.string().min(1).nullable(),
+  laneId: z.string().nullable(),
+  checklists: z.array(checklistSchema),
+  comments: z.array(commentSchema),
+  createdAt: z.number().nullable(),
+  activity: z.array(activityEntrySchema),
+  columnEntries: z.array(z.object({ columnId: z.string(), at: z.number() })),
+  archived: z
+    .object({ at: z.number(), columnId: z.string(), index: z.number().int().nonnegative() })
+    .nullable(),
+});
+
+export const labelSchema: z.ZodType<Label> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  color: z.string(),
+});
+
+export const laneSchema: z.ZodType<Lane> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+});
+
+const appearanceObject = z.object({
+  background: z.discriminatedUnion("type", [
+    z.object({ type: z.literal("default") }),
+    z.object({ type: z.literal("color"), color: z.string().regex(/^#[0-9a-f]{6}$/i) }),
+    z.object({ type: z.literal("gradient"), gradientId: z.string().min(1) }),
+    z.object({ type: z.literal("image"), dataUrl: z.string().startsWith("data:image/") }),
+  ]),
+  density: z.enum(["comfortable", "compact"]),
+  columnWidth: z.number().int().positive(),
+  showBadges: z.boolean(),
+});
+
+export const appearanceSchema: z.ZodType<BoardAppearance> = appearanceObject;
+
+export const columnSchema: z.ZodType<Column> = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  color: z.string(),
+  accent: z.string(),
+  border: z.string(),
+  shadow: z.string(),
+  gradient: z.string(),
+  taskIds: z.array(z.string()),
+  archived: z.object({ at: z.number(), index: z.number().int().nonnegative() }).nullable(),
+  wipLimit: z
+    .object({ limit: z.number().int().positive(), policy: z.enum(["warn", "block"]) })
+    .nullable(),
+});
+
+/**
+ * Shape of the current `BoardData`, plus the cross-references the UI relies
+ * on: every id in `columnOrder` and `taskIds` must resolve, and a task may
+ * only live in one column.
+ */
+export const boardDataSchema: z.ZodType<BoardData> = z
+  .object({
+    tasks: z.record(taskSchema),
+    columns: z.record(columnSchema),
+    columnOrder: z.array(z.string()),
+    labels: z.array(labelSchema),
+    lanes: z.array(laneSchema),
+    autoArchiveDays: z.number().int().positive().nullable(),
+    appearance: appearanceSchema,
+  })
+  .superRefine((board, ctx) => {
+    board.columnOrder.forEach((colId, i) => {
+      if (!board.columns[colId]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["columnOrder", i],
+          message: `Unknown column "${colId}"`,
+        });
+      }
+    });
+    const seen = new Set<string>();
+    Object.values(board.columns).forEach((column) => {
+      column.taskIds.forEach((taskId, i) => {
+        const path = ["columns", column.id, "taskIds", i];
+        if (!board.tasks[taskId]) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Unknown task "${taskId}"` });
+        } else if (seen.has(taskId)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `Task "${taskId}" is in more than one column` });
+        }
+        seen.add(taskId);
+      });
+    });
+  });
+
+export const boardSchema: z.ZodType<Board> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  starred: z.boolean(),
+  data: boardDataSchema,
+});
+
+export const workspaceSchema: z.ZodType<Workspace> = z
+  .object({
+    boards: z.record(boardSchema),
+    boardOrder: z.array(z.string()).min(1),
+    activeBoardId: z.string(),
+  })
+  .superRefine((workspace, ctx) => {
+    workspace.boardOrder.forEach((boardId, i) => {
+      if (!workspace.boards[boardId]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["boardOrder", i],
+          message: `Unknown board "${boardId}"`,
+        });
+      }
+    });
+    if (!workspace.boardOrder.includes(workspace.activeBoardId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["activeBoardId"],
+        message: `Unknown board "${workspace.activeBoardId}"`,
+      });
+    }
+  });
+
+const boardPatchSchema = z.object({
+  tasks: z.record(taskSchema.nullable()).optional(),
+  columns: z.record(columnSchema.nullable()).optional(),
+  columnOrder: z.array(z.string()).optional(),
+  labels: z.array(labelSchema).optional(),
+  lanes: z.array(laneSchema).optional(),
+  autoArchiveDays: z.number().int().positive().nullable().optional(),
+  // Only the settings that changed.
+  appearance: appearanceObject.partial().optional(),
+});
+
+const historyEntrySchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  at: z.number(),
+  undo: boardPatchSchema,
+  redo: boardPatchSchema,
+});
+
+/** Undo/redo stacks keyed by board id. */
+export const historiesSchema = z.record(
+  z.object({
+    past: z.array(historyEntrySchema),
+    future: z.array(historyEntrySchema),
+  })
+);
+
+/** The `{ version, data }` wrapper every persisted board is stored in. */
+export const envelopeSchema = z.object({
+  version: z.number().int().nonnegative(),
+  data: z.unknown(),
+});
+
+/** A board exported to a file; `data` is the board at schema `version`. */
+export const boardFileSchema = z.object({
+  format: z.literal("task-board"),
+  version: z.number().int().nonnegative(),
+  exportedAt: z.string().optional(),
+  name: z.string(),
+  data: z.unknown(),
+});
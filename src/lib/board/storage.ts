@@ -0,0 +1,140 @@
+import toast from "react-hot-toast";
+import { openBroadcast } from "@/lib/broadcast";
+import type { BoardHistory } from "./history";
+import { createIndexedDbBackend } from "./indexed-db-backend";
+import { localStorageBackend } from "./local-storage-backend";
+import { BOARD_SCHEMA_VERSION, type LoadedWorkspace } from "./persistence";
+import { SYNC_CHANNEL, createSyncMessage, type SyncMessage, type WorkspaceChange } from "./sync";
+import type { Workspace } from "./types";
+
+export type StoredWorkspace = LoadedWorkspace & {
+  /** Undo/redo stacks keyed by board id. */
+  histories: Record<string, BoardHistory>;
+};
+
+/** Where the workspace is kept: reads it once and writes what changed. */
+export type StorageBackend = {
+  name: string;
+  load: () => Promise<StoredWorkspace>;
+  /** Persists `next`, which `previous` (as last written) was updated to. */
+  write: (previous: Workspace, next: Workspace) => Promise<void>;
+  writeHistories: (histories: Record<string, BoardHistory>) => Promise<void>;
+};
+
+export type BoardStorage = {
+  load: () => Promise<StoredWorkspace>;
+  /**
+   * Saves `workspace` shortly, coalescing rapid edits into one write, and
+   * forwards `change` to the other tabs at once.
+   */
+  save: (workspace: Workspace, change: WorkspaceChange | null) => void;
+  saveHistories: (histories: Record<string, BoardHistory>) => void;
+  /** Calls `listener` with each change another tab saves; returns an unsubscribe. */
+  subscribe: (listener: (change: WorkspaceChange) => void) => () => void;
+  /** Writes anything still waiting for the debounce. */
+  flush: () => Promise<void>;
+};
+
+/** How long edits are collected before they are written. */
+const SAVE_DELAY_MS = 300;
+
+/**
+ * Wraps a backend with debounced writes and cross-tab notifications. Pending
+ * writes are flushed when the page is hidden, so closing a tab keeps them.
+ */
+export const createBoardStorage = (backend: StorageBackend): BoardStorage => {
+  let written: Workspace | null = null;
+  let pendingWorkspace: Workspace | null = null;
+  let pendingHistories: Record<string, BoardHistory> | null = null;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  // Writes run one at a time, in order.
+  let queue = Promise.resolve();
+
+  const reportError = (err: unknown) => {
+    console.error(`Could not save to ${backend.name}`, err);
+    toast.error("Your latest changes couldn't be saved.", { id: "board-save-error" });
+  };
+
+  const flush = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const [workspace, histories] = [pendingWorkspace, pendingHistories];
+    pendingWorkspace = null;
+    pendingHistories = null;
+    if (workspace && written && workspace !== written) {
+      const previous = written;
+      written = workspace;
+      queue = queue.then(() => backend.write(previous, workspace)).catch(reportError);
+    }
+    if (histories) {
+      queue = queue.then(() => backend.writeHistories(histories)).catch(reportError);
+    }
+    return queue;
+  };
+
+  const schedule = () => {
+    clearTimeout(timer);
+    timer = setTimeout(flush, SAVE_DELAY_MS);
+  };
+
+  const onHide = () => {
+    if (document.visibilityState === "hidden") flush();
+  };
+  document.addEventListener("visibilitychange", onHide);
+  window.addEventListener("pagehide", flush);
+
+  const listeners = new Set<(change: WorkspaceChange) => void>();
+  const broadcast = openBroadcast<SyncMessage>(SYNC_CHANNEL, (message) => {
+    if (message.version !== BOARD_SCHEMA_VERSION) {
+      console.warn(`Ignoring a change from a tab running board v${message.version}`);
+      return;
+    }
+    listeners.forEach((listener) => listener(message.change));
+  });
+
+  return {
+    load: async () => {
+      const stored = await backend.load();
+      written = stored.workspace;
+      return stored;
+    },
+    save: (workspace, change) => {
+      if (change) broadcast.post(createSyncMessage(change));
+      pendingWorkspace = workspace;
+      schedule();
+    },
+    saveHistories: (histories) => {
+      pendingHistories = histories;
+      schedule();
+    },
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    flush,
+  };
+};
+
+let opening: Promise<{ storage: BoardStorage; stored: StoredWorkspace }> | null = null;
+
+/**
+ * Opens the workspace, once per page: from IndexedDB where the browser
+ * allows it, otherwise from localStorage.
+ */
+export const openBoardStorage = () => {
+  opening ??= (async () => {
+    if (typeof indexedDB !== "undefined") {
+      try {
+        const storage = createBoardStorage(await createIndexedDbBackend());
+        return { storage, stored: await storage.load() };
+      } catch (err) {
+        console.warn("IndexedDB is unavailable, using localStorage", err);
+      }
+    }
+    const storage = createBoardStorage(localStorageBackend);
+    return { storage, stored: await storage.load() };
+  })();
+  return opening;
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultBoard } from "./defaults";
+import { addTask, createTask } from "./operations";
+import {
+  getCellId,
+  getLabelsRemovedByLane,
+  getSwimlaneCells,
+  getSwimlanes,
+  NO_LANE,
+  setLane,
+} from "./swimlanes";
+
+const BUG = "label-bug";
+const FEATURE = "label-feature";
+const DESIGN = "label-design";
+
+describe("setLane", () => {
+  const task = createTask("Card", { labelIds: [BUG, DESIGN], priority: "low" });
+  const board = addTask(createDefaultBoard(), "todo", task);
+
+  it("swaps the label the card was grouped by for the lane's", () => {
+    const next = setLane(board, task.id, "label", FEATURE);
+    expect(next.tasks[task.id].labelIds).toEqual([FEATURE, DESIGN]);
+    expect(getLabelsRemovedByLane(board, task.id, FEATURE)).toEqual(["bug"]);
+  });
+
+  it("clears every label in the no-label lane, and says which", () => {
+    expect(setLane(board, task.id, "label", NO_LANE).tasks[task.id].labelIds).toEqual([]);
+    expect(getLabelsRemovedByLane(board, task.id, NO_LANE)).toEqual(["bug", "design"]);
+  });
+
+  it("keeps the lane's label once when the card already had it", () => {
+    const next = setLane(board, task.id, "label", DESIGN);
+    expect(next.tasks[task.id].labelIds).toEqual([DESIGN]);
+    expect(getLabelsRemovedByLane(board, task.id, DESIGN)).toEqual(["bug"]);
+  });
+
+  it("rewrites other fields directly", () => {
+    expect(setLane(board, task.id, "priority", "high").tasks[task.id].priority).toBe("high");
+    expect(setLane(board, task.id, "priority", NO_LANE).tasks[task.id].priority).toBeNull();
+  });
+});
+
+describe("getSwimlaneCells", () => {
+  it("splits each column's visible cards by lane, in board order", () => {
+    const high = createTask("High", { priority: "high" });
+    const none = createTask("None");
+    const hidden = createTask("Hidden", { priority: "high" });
+    let board = addTask(createDefaultBoard(), "todo", hidden);
+    board = addTask(board, "todo", none);
+    board = addTask(board, "todo", high);
+    const visible = { todo: [high.id, none.id], inprogress: [], done: [] };
+
+    const cells = getSwimlaneCells(board, "priority", getSwimlanes(board, "priority"), visible);
+
+    expect(cells[getCellId("todo", "high")]).toEqual([high.id]);
+    expect(cells[getCellId("todo", NO_LANE)]).toEqual([none.id]);
+    expect(cells[getCellId("done", "high")]).toEqual([]);
+  });
+});
@@ -0,0 +1,220 @@
+import { createId } from "./operations";
+import { getLabelColor } from "./palette";
+import { PRIORITIES } from "./priority";
+import type { BoardData, Priority, Task } from "./types";
+
+// Swimlanes split every column into horizontal lanes by one task field.
+// Each card sits in exactly one lane, and dropping it into another lane
+// rewrites that field, so lanes never need storing except manual ones.
+
+export type SwimlaneField = "assignee" | "priority" | "label" | "epic" | "manual";
+
+export const SWIMLANE_FIELDS: { id: SwimlaneField; name: string }[] = [
+  { id: "assignee", name: "Assignee" },
+  { id: "priority", name: "Priority" },
+  { id: "label", name: "Label" },
+  { id: "epic", name: "Epic" },
+  { id: "manual", name: "Manual lanes" },
+];
+
+export const parseSwimlaneField = (value: string): SwimlaneField | null =>
+  SWIMLANE_FIELDS.find((field) => field.id === value)?.id ?? null;
+
+/** The lane of cards with no value for the field; always listed last. */
+export const NO_LANE = "";
+
+export type Swimlane = {
+  /** The field value the lane stands for, or `NO_LANE`. */
+  id: string;
+  title: string;
+  /** Classes for a pill around the title, for priorities and labels. */
+  badge: string | null;
+};
+
+const NO_LANE_TITLES: Record<SwimlaneField, string> = {
+  assignee: "Unassigned",
+  priority: "No priority",
+  label: "No label",
+  epic: "No epic",
+  manual: "No lane",
+};
+
+/** Distinct values of a free-text field across the cards on the board, sorted. */
+const getNames = (board: BoardData, get: (task: Task) => string | null) => {
+  const names = new Set<string>();
+  board.columnOrder.forEach((columnId) =>
+    board.columns[columnId].taskIds.forEach((taskId) => {
+      const name = get(board.tasks[taskId]);
+      if (name) names.add(name);
+    })
+  );
+  return Array.from(names).sort((a, b) => a.localeCompare(b));
+};
+
+/** Every assignee and epic in use on the board, for suggestions. */
+export const getAssignees = (board: BoardData) => getNames(board, (task) => task.assignee);
+export const getEpics = (board: BoardData) => getNames(board, (task) => task.epic);
+
+/**
+ * The lanes for `field`, top to bottom. Priority, label and manual lanes
+ * are listed even when empty, so cards can be dropped into them; assignees
+ * and epics only exist while some card has them.
+ */
+export const getSwimlanes = (board: BoardData, field: SwimlaneField): Swimlane[] => {
+  const none = { id: NO_LANE, title: NO_LANE_TITLES[field], badge: null };
+  const named = (name: string) => ({ id: name, title: name, badge: null });
+  switch (field) {
+    case "assignee":
+      return [...getAssignees(board).map(named), none];
+    case "epic":
+      return [...getEpics(board).map(named), none];
+    case "priority":
+      return [
+        ...PRIORITIES.map((p) => ({ id: p.id, title: p.name, badge: `border ${p.badge}` })),
+        none,
+      ];
+    case "label":
+      return [
+        ...board.labels.map((label) => ({
+          id: label.id,
+          title: label.name,
+          badge: getLabelColor(label.color).badge,
+        })),
+        none,
+      ];
+    case "manual":
+      return [
+        ...board.lanes.map((lane) => ({ id: lane.id, title: lane.title, badge: null })),
+        none,
+      ];
+  }
+};
+
+/**
+ * The lane a card is in. A card with several labels is in the lane of its
+ * first one.
+ */
+export const getLaneId = (board: BoardData, task: Task, field: SwimlaneField): string => {
+  switch (field) {
+    case "assignee":
+      return task.assignee ?? NO_LANE;
+    case "epic":
+      return task.epic ?? NO_LANE;
+    case "priority":
+      return task.priority ?? NO_LANE;
+    case "label":
+      return task.labelIds.find((id) => board.labels.some((label) => label.id === id)) ?? NO_LANE;
+    case "manual":
+      return task.laneId && board.lanes.some((lane) => lane.id === task.laneId)
+        ? task.laneId
+        : NO_LANE;
+  }
+};
+
+/**
+ * Puts a card in another lane by rewriting the field. For labels the lane's
+ * label becomes the card's first, replacing the one it was grouped by;
+ * "No label" clears its labels, as any label left would put it in a lane.
+ */
+export const setLane = (
+  board: BoardData,
+  taskId: string,
+  field: SwimlaneField,
+  laneId: string
+): BoardData => {
+  const task = board.tasks[taskId];
+  const value = laneId === NO_LANE ? null : laneId;
+  let patch: Partial<Task>;
+  switch (field) {
+    case "assignee":
+      patch = { assignee: value };
+      break;
+    case "epic":
+      patch = { epic: value };
+      break;
+    case "priority":
+      patch = { priority: value as Priority | null };
+      break;
+    case "label": {
+      const current = getLaneId(board, task, field);
+      patch = {
+        labelIds: value
+          ? [value, ...task.labelIds.filter((id) => id !== value && id !== current)]
+          : [],
+      };
+      break;
+    }
+    case "manual":
+      patch = { laneId: value };
+      break;
+  }
+  return { ...board, tasks: { ...board.tasks, [taskId]: { ...task, ...patch } } };
+};
+
+/** Names of the labels `setLane` takes off a card moved into a label lane. */
+export const getLabelsRemovedByLane = (board: BoardData, taskId: string, laneId: string) => {
+  const task = board.tasks[taskId];
+  const kept = setLane(board, taskId, "label", laneId).tasks[taskId].labelIds;
+  return board.labels
+    .filter((label) => task.labelIds.includes(label.id) && !kept.includes(label.id))
+    .map((label) => label.name);
+};
+
+/** Droppable ids for the cells of the swimlane grid, one per column and lane. */
+export const getCellId = (columnId: string, laneId: string) => `${columnId}::${laneId}`;
+
+export const parseCellId = (cellId: string) => {
+  const split = cellId.indexOf("::");
+  return { columnId: cellId.slice(0, split), laneId: cellId.slice(split + 2) };
+};
+
+/**
+ * The cards of each cell, keyed by `getCellId`: the column's `visibleTaskIds`
+ * split by lane, keeping board order. Every cell has an entry.
+ */
+export const getSwimlaneCells = (
+  board: BoardData,
+  field: SwimlaneField,
+  lanes: Swimlane[],
+  visibleTaskIds: Record<string, string[]>
+) => {
+  const cells: Record<string, string[]> = {};
+  board.columnOrder.forEach((columnId) => {
+    lanes.forEach((lane) => {
+      cells[getCellId(columnId, lane.id)] = [];
+    });
+    visibleTaskIds[columnId].forEach((taskId) => {
+      const laneId = getLaneId(board, board.tasks[taskId], field);
+      cells[getCellId(columnId, laneId)]?.push(taskId);
+    });
+  });
+  return cells;
+};
+
+export const addLane = (board: BoardData, title: string): BoardData => ({
+  ...board,
+  lanes: [...board.lanes, { id: createId("lane"), title }],
+});
+
+export const renameLane = (board: BoardData, laneId: string, title: string): BoardData => ({
+  ...board,
+  lanes: board.lanes.map((lane) => (lane.id === laneId ? { ...lane, title } : lane)),
+});
+
+export const moveLane = (board: BoardData, laneId: string, offset: -1 | 1): BoardData => {
+  const lanes = [...board.lanes];
+  const index = lanes.findIndex((lane) => lane.id === laneId);
+  const target = index + offset;
+  if (index === -1 || target < 0 || target >= lanes.length) return board;
+  [lanes[index], lanes[target]] = [lanes[target], lanes[index]];
+  return { ...board, lanes };
+};
+
+/** Removes a manual lane; its cards move to "No lane". */
+export const deleteLane = (board: BoardData, laneId: string): BoardData => {
+  const tasks = { ...board.tasks };
+  Object.values(tasks).forEach((task) => {
+    if (task.laneId === laneId) tasks[task.id] = { ...task, laneId: null };
+  });
+  return { ...board, tasks, lanes: board.lanes.filter((lane) => lane.id !== laneId) };
+};
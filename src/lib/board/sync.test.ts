@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import { createDefaultBoard } from "./defaults";
+import { diffBoards, dropConflictingHistory, EMPTY_HISTORY, undoStep } from "./history";
+import { addTask, createTask, deleteTask, moveTask, updateTask } from "./operations";
+import { boardDataSchema } from "./schema";
+import { diffWorkspaces, mergeWorkspaceChange, normalizePatchedBoard } from "./sync";
+import type { BoardData, Workspace } from "./types";
+import { createBoard, createWorkspace, updateBoardData } from "./workspace";
+
+// This tab's id is random; ids sorting above or below any of them decide
+// whose edit wins a clash.
+const WINNER = "tab-~";
+const LOSER = "tab-!";
+
+const a = createTask("A");
+const b = createTask("B");
+const c = createTask("C");
+
+/** A workspace with one board, whose "To Do" list holds A, B and C. */
+const createBase = () => {
+  let data = createDefaultBoard();
+  [c, b, a].forEach((task) => {
+    data = addTask(data, "todo", task);
+  });
+  return createWorkspace(createBoard("Board", data));
+};
+
+const edit = (workspace: Workspace, update: (data: BoardData) => BoardData) =>
+  updateBoardData(workspace, workspace.activeBoardId, update);
+
+/** `update` as made in another tab, merged into `local`. */
+const mergeRemote = (
+  base: Workspace,
+  local: Workspace,
+  update: (data: BoardData) => BoardData,
+  tabId: string
+) => {
+  const change = diffWorkspaces(base, edit(base, update))!;
+  return mergeWorkspaceChange(local, { ...change, tabId });
+};
+
+const dataOf = (workspace: Workspace) => workspace.boards[workspace.activeBoardId].data;
+
+const columnOf = (data: BoardData, taskId: string) =>
+  data.columnOrder.filter((id) => data.columns[id].taskIds.includes(taskId));
+
+const moveTo = (taskId: string, from: string, to: string) => (data: BoardData) =>
+  moveTask(
+    data,
+    taskId,
+    { columnId: from, index: data.columns[from].taskIds.indexOf(taskId) },
+    { columnId: to, index: 0 }
+  );
+
+describe("mergeWorkspaceChange", () => {
+  it("keeps a card moved in both tabs in exactly one list", () => {
+    const base = createBase();
+    const local = edit(base, moveTo(a.id, "todo", "inprogress"));
+
+    const toDone = moveTo(a.id, "todo", "done");
+    const theirs = dataOf(mergeRemote(base, local, toDone, WINNER).workspace);
+    const ours = dataOf(mergeRemote(base, local, toDone, LOSER).workspace);
+
+    expect(columnOf(theirs, a.id)).toEqual(["done"]);
+    expect(columnOf(ours, a.id)).toEqual(["inprogress"]);
+    expect(boardDataSchema.safeParse(theirs).success).toBe(true);
+    expect(boardDataSchema.safeParse(ours).success).toBe(true);
+  });
+
+  it("lets a delete in another tab win over an edit here, and says so", () => {
+    const base = createBase();
+    const local = edit(base, (data) => updateTask(data, a.id, { content: "A, edited" }));
+
+    const { workspace, conflicts } = mergeRemote(
+      base,
+      local,
+      (data) => deleteTask(data, a.id),
+      LOSER
+    );
+
+    const data = dataOf(workspace);
+    expect(data.tasks[a.id]).toBeUndefined();
+    expect(data.columns.todo.taskIds).toEqual([b.id, c.id]);
+    expect(conflicts).toEqual([
+      expect.objectContaining({ taskId: a.id, title: "A, edited", outcome: "theirs" }),
+    ]);
+  });
+
+  it("settles both tabs on the same order after moves within one list", () => {
+    const base = createBase();
+    // Here C goes to the top; in the other tab A goes to the bottom.
+    const cFirst = (data: BoardData) =>
+      moveTask(data, c.id, { columnId: "todo", index: 2 }, { columnId: "todo", index: 0 });
+    const aLast = (data: BoardData) =>
+      moveTask(data, a.id, { columnId: "todo", index: 0 }, { columnId: "todo", index: 2 });
+
+    const here = mergeRemote(base, edit(base, cFirst), aLast, WINNER).workspace;
+    const there = mergeRemote(base, edit(base, aLast), cFirst, LOSER).workspace;
+
+    expect(dataOf(here).columns.todo.taskIds).toEqual(dataOf(there).columns.todo.taskIds);
+    expect([...dataOf(here).columns.todo.taskIds].sort()).toEqual([a.id, b.id, c.id].sort());
+  });
+});
+
+describe("undo after a merge", () => {
+  /** Moves A from To Do to In Progress here, recording the undo entry. */
+  const moveHere = () => {
+    const base = createBase();
+    const local = edit(base, moveTo(a.id, "todo", "inprogress"));
+    const diff = diffBoards(dataOf(base), dataOf(local))!;
+    const history = { past: [{ id: "change-1", label: "Move task", at: 1, ...diff }], future: [] };
+    return { local, history };
+  };
+
+  it("drops the history when another tab changed the same cards", () => {
+    const { local, history } = moveHere();
+    const change = diffWorkspaces(local, edit(local, moveTo(a.id, "inprogress", "done")))!;
+    const boardChange = change.boards[local.activeBoardId];
+    const redo = boardChange.type === "update" ? boardChange.redo : {};
+
+    expect(dropConflictingHistory(history, redo)).toBe(EMPTY_HISTORY);
+    expect(dropConflictingHistory(history, { autoArchiveDays: 3 })).toBe(history);
+  });
+
+  it("still leaves a valid board when a stale entry is undone", () => {
+    const { local, history } = moveHere();
+    const moved = dataOf(edit(local, moveTo(a.id, "inprogress", "done")));
+    const deleted = dataOf(edit(local, (data) => deleteTask(data, a.id)));
+
+    [moved, deleted].forEach((merged) => {
+      const step = undoStep(history, merged)!;
+      const board = normalizePatchedBoard(step.board, step.entry.undo);
+      expect(boardDataSchema.safeParse(board).success).toBe(true);
+      if (board.tasks[a.id]) expect(columnOf(board, a.id)).toEqual(["todo"]);
+    });
+  });
+});
@@ -0,0 +1,420 @@
+import { diffBoards, type BoardPatch } from "./history";
+import { createId } from "./operations";
+import { BOARD_SCHEMA_VERSION, BOARD_STORAGE_KEY } from "./persistence";
+import type { Board, BoardAppearance, BoardData, Column, Task, Workspace } from "./types";
+import { deleteBoard } from "./workspace";
+
+// Keeping several tabs of the app in step. Each tab broadcasts what its own
+// edits changed, as per-entity patches with the values they replaced, and
+// merges what it receives into its in-memory workspace:
+//
+//  - a task or column edited in only one tab takes that tab's values;
+//  - one edited in both is merged field by field, and where both tabs
+//    changed the same field the tab with the higher id wins, so every tab
+//    settles on the same result;
+//  - id lists (column order, a column's tasks, board order) replay the
+//    other tab's additions, removals and moves onto the local list.
+
+/** Identifies this tab in broadcasts; also breaks ties between edits. */
+export const TAB_ID = createId("tab");
+
+export const SYNC_CHANNEL = `${BOARD_STORAGE_KEY}:sync`;
+
+type BoardMeta = Partial<Pick<Board, "name" | "starred">>;
+
+export type BoardChange =
+  | { type: "add"; board: Board }
+  | { type: "delete" }
+  | { type: "update"; before: BoardMeta; after: BoardMeta; undo: BoardPatch; redo: BoardPatch };
+
+/** Everything one local update changed, as sent to the other tabs. */
+export type WorkspaceChange = {
+  tabId: string;
+  boards: Record<string, BoardChange>;
+  boardOrder?: { before: string[]; after: string[] };
+};
+
+/** Tabs only merge changes from tabs running the same schema version. */
+export type SyncMessage = { version: number; change: WorkspaceChange };
+
+export const createSyncMessage = (change: WorkspaceChange): SyncMessage => ({
+  version: BOARD_SCHEMA_VERSION,
+  change,
+});
+
+/**
+ * A card edited concurrently here and in another tab: either the edits
+ * touched different fields and were combined, or they clashed and one
+ * side's version was kept.
+ */
+export type SyncConflict = {
+  boardId: string;
+  taskId: string;
+  title: string;
+  outcome: "merged" | "theirs" | "ours";
+};
+
+const same = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const sameIds = (a: string[], b: string[]) => a.length === b.length && a.every((id, i) => id === b[i]);
+
+/** Indexes into `values` of one longest strictly increasing run. */
+const longestIncreasing = (values: number[]) => {
+  const tails: number[] = [];
+  const previous: number[] = [];
+  values.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    previous[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  });
+  const result: number[] = [];
+  for (let i = tails[tails.length - 1] ?? -1; i !== -1; i = previous[i]) result.unshift(i);
+  return result;
+};
+
+/**
+ * Replays the edits that turned `base` into `changed` onto `target`: ids
+ * removed are removed, and ids added or moved are placed after the same
+ * neighbour as in `changed`. Everything else keeps its place in `target`.
+ */
+export const replayIds = (base: string[], changed: string[], target: string[]) => {
+  if (sameIds(base, changed)) return target;
+  if (sameIds(base, target)) return changed;
+  const baseSet = new Set(base);
+  const changedSet = new Set(changed);
+  // Of the ids on both sides, the longest run still in the same order stayed
+  // put; the rest were moved.
+  const common = base.filter((id) => changedSet.has(id));
+  const stayed = new Set(
+    longestIncreasing(common.map((id) => changed.indexOf(id))).map((i) => common[i])
+  );
+  const placed = changed.filter((id) => !baseSet.has(id) || !stayed.has(id));
+  const placedSet = new Set(placed);
+  const result = target.filter(
+    (id) => (changedSet.has(id) || !baseSet.has(id)) && !placedSet.has(id)
+  );
+  placed.forEach((id) => {
+    const anchor = changed
+      .slice(0, changed.indexOf(id))
+      .reverse()
+      .find((prev) => result.includes(prev));
+    result.splice(anchor === undefined ? 0 : result.indexOf(anchor) + 1, 0, id);
+  });
+  return result;
+};
+
+/**
+ * Merges concurrent edits of one id list. The losing side's edits are
+ * replayed onto the winner's list, so both tabs compute the same result.
+ */
+const mergeIds = (before: string[], remote: string[], local: string[], remoteWins: boolean) =>
+  remoteWins ? replayIds(before, local, remote) : replayIds(before, remote, local);
+
+type EntityMerge<T> = { value: T; outcome?: SyncConflict["outcome"] };
+
+/** Field-by-field merge of a task or column both sides may have edited. */
+const mergeEntity = <T extends Task | Column>(
+  local: T,
+  before: T,
+  after: T,
+  remoteWins: boolean
+): EntityMerge<T> => {
+  let value = local;
+  let localEdited = false;
+  let clashed = false;
+  (Object.keys(after) as (keyof T)[]).forEach((key) => {
+    const [b, a, l] = [before[key], after[key], local[key]];
+    if (same(a, b)) {
+      if (!same(l, b)) localEdited = true;
+      return;
+    }
+    if (same(l, b) || same(l, a)) {
+      value = { ...value, [key]: a };
+      return;
+    }
+    localEdited = true;
+    if (key === "taskIds") {
+      const taskIds = mergeIds(b as string[], a as string[], l as string[], remoteWins);
+      value = { ...value, taskIds };
+      return;
+    }
+    // Comments and activity entries from both sides are all kept.
+    if (key === "comments" || key === "activity") {
+      type Entry = { id: string };
+      const entries = mergeById(l as Entry[], b as Entry[], a as Entry[], remoteWins);
+      value = { ...value, [key]: entries };
+      return;
+    }
+    clashed = true;
+    if (remoteWins) value = { ...value, [key]: a };
+  });
+  if (clashed) return { value, outcome: remoteWins ? "theirs" : "ours" };
+  return { value, outcome: localEdited ? "merged" : undefined };
+};
+
+/** Merges two edits of a list of records, such as labels or comments, by id. */
+const mergeById = <T extends { id: string }>(
+  local: T[],
+  before: T[],
+  after: T[],
+  remoteWins: boolean
+) => {
+  const byId = (items: T[]) => new Map(items.map((item) => [item.id, item]));
+  const [l, b, a] = [byId(local), byId(before), byId(after)];
+  const ids = (items: T[]) => items.map((item) => item.id);
+  return mergeIds(ids(before), ids(after), ids(local), remoteWins).flatMap((id) => {
+    const remote = a.get(id);
+    const mine = l.get(id);
+    const takeRemote =
+      remote && !same(remote, b.get(id)) && (remoteWins || !mine || same(mine, b.get(id)));
+    const item = takeRemote ? remote : mine ?? remote;
+    return item ? [item] : [];
+  });
+};
+
+/**
+ * Repairs the invariants a merge can break: every column in `columnOrder`
+ * exactly once, and every task in exactly one column. A task found in two
+ * columns stays in `homes[taskId]`; one in none goes to the first column.
+ */
+export const normalizeBoard = (board: BoardData, homes: Record<string, string>): BoardData => {
+  const isShown = (id: string) => board.columns[id] && !board.columns[id].archived;
+  const columnOrder = Array.from(new Set(board.columnOrder)).filter(isShown);
+  Object.keys(board.columns).forEach((id) => {
+    if (isShown(id) && !columnOrder.includes(id)) columnOrder.push(id);
+  });
+  // Archived columns keep their cards.
+  const archivedColumnIds = Object.keys(board.columns).filter((id) => !isShown(id));
+
+  const placed = new Set<string>();
+  const columns = { ...board.columns };
+  [...columnOrder, ...archivedColumnIds].forEach((columnId) => {
+    const column = columns[columnId];
+    const taskIds = column.taskIds.filter((taskId) => {
+      if (!board.tasks[taskId] || board.tasks[taskId].archived || placed.has(taskId)) return false;
+      const home = homes[taskId];
+      if (home && home !== columnId && board.columns[home]?.taskIds.includes(taskId)) return false;
+      placed.add(taskId);
+      return true;
+    });
+    if (taskIds.length !== column.taskIds.length) columns[columnId] = { ...column, taskIds };
+  });
+
+  const tasks = { ...board.tasks };
+  const orphans = Object.keys(tasks).filter(
+    (taskId) => !placed.has(taskId) && !tasks[taskId].archived
+  );
+  if (orphans.length > 0) {
+    const first = columnOrder[0];
+    if (first) {
+      columns[first] = { ...columns[first], taskIds: [...columns[first].taskIds, ...orphans] };
+    } else {
+      orphans.forEach((taskId) => delete tasks[taskId]);
+    }
+  }
+
+  const labelIds = new Set(board.labels.map((label) => label.id));
+  Object.values(tasks).forEach((task) => {
+    if (task.labelIds.every((id) => labelIds.has(id))) return;
+    tasks[task.id] = { ...task, labelIds: task.labelIds.filter((id) => labelIds.has(id)) };
+  });
+  const laneIds = new Set(board.lanes.map((lane) => lane.id));
+  Object.values(tasks).forEach((task) => {
+    if (task.laneId && !laneIds.has(task.laneId)) tasks[task.id] = { ...task, laneId: null };
+  });
+  Object.values(tasks).forEach((task) => {
+    if (task.dependsOn.every((id) => tasks[id])) return;
+    tasks[task.id] = { ...task, dependsOn: task.dependsOn.filter((id) => tasks[id]) };
+  });
+
+  return { ...board, tasks, columns, columnOrder };
+};
+
+/**
+ * `normalizeBoard` for a board a stored patch was just applied to, such as
+ * an undo. Cards the patch put in a column stay there.
+ */
+export const normalizePatchedBoard = (board: BoardData, patch: BoardPatch) => {
+  const homes: Record<string, string> = {};
+  Object.entries(patch.columns ?? {}).forEach(([columnId, column]) => {
+    column?.taskIds.forEach((taskId) => {
+      homes[taskId] = columnId;
+    });
+  });
+  return normalizeBoard(board, homes);
+};
+
+const mergeBoardPatch = (
+  boardId: string,
+  local: BoardData,
+  undo: BoardPatch,
+  redo: BoardPatch,
+  remoteWins: boolean,
+  conflicts: SyncConflict[]
+): BoardData => {
+  const tasks = { ...local.tasks };
+  Object.entries(redo.tasks ?? {}).forEach(([taskId, after]) => {
+    const before = undo.tasks?.[taskId] ?? null;
+    const mine = local.tasks[taskId];
+    if (!after) {
+      if (mine && before && !same(mine, before)) {
+        conflicts.push({ boardId, taskId, title: mine.content, outcome: "theirs" });
+      }
+      delete tasks[taskId];
+    } else if (!before) {
+      tasks[taskId] = after;
+    } else if (mine) {
+      // Edits to a card deleted here are dropped along with it.
+      const { value, outcome } = mergeEntity(mine, before, after, remoteWins);
+      tasks[taskId] = value;
+      if (outcome) conflicts.push({ boardId, taskId, title: value.content, outcome });
+    }
+  });
+
+  // Where each moved card should end up if both sides moved it.
+  const homes: Record<string, string> = {};
+  const columns = { ...local.columns };
+  Object.entries(redo.columns ?? {}).forEach(([columnId, after]) => {
+    const before = undo.columns?.[columnId] ?? null;
+    const mine = local.columns[columnId];
+    if (!after) {
+      delete columns[columnId];
+      return;
+    }
+    after.taskIds.forEach((taskId) => {
+      const localHome = Object.values(local.columns).find((c) => c.taskIds.includes(taskId));
+      homes[taskId] = remoteWins || !localHome ? columnId : localHome.id;
+    });
+    // Edits to a column deleted here are dropped; its new cards get rehomed.
+    if (!before) columns[columnId] = after;
+    else if (mine) columns[columnId] = mergeEntity(mine, before, after, remoteWins).value;
+  });
+
+  const columnOrder =
+    redo.columnOrder && undo.columnOrder
+      ? mergeIds(undo.columnOrder, redo.columnOrder, local.columnOrder, remoteWins)
+      : local.columnOrder;
+  const labels =
+    redo.labels && undo.labels
+      ? mergeById(local.labels, undo.labels, redo.labels, remoteWins)
+      : local.labels;
+  const lanes =
+    redo.lanes && undo.lanes
+      ? mergeById(local.lanes, undo.lanes, redo.lanes, remoteWins)
+      : local.lanes;
+
+  // Board settings: the remote value is taken unless this tab changed it too and wins.
+  const settings: Partial<BoardData> = {};
+  (Object.keys(redo) as (keyof BoardPatch)[]).forEach((key) => {
+    if (["tasks", "columns", "columnOrder", "labels", "lanes", "appearance"].includes(key)) return;
+    if (remoteWins || same(local[key], undo[key])) Object.assign(settings, { [key]: redo[key] });
+  });
+  // Appearance patches hold only the settings that changed; merge those alike.
+  let { appearance } = local;
+  (Object.keys(redo.appearance ?? {}) as (keyof BoardAppearance)[]).forEach((key) => {
+    if (remoteWins || same(local.appearance[key], undo.appearance?.[key])) {
+      appearance = { ...appearance, [key]: redo.appearance?.[key] };
+    }
+  });
+
+  return normalizeBoard(
+    { ...local, ...settings, appearance, tasks, columns, columnOrder, labels, lanes },
+    homes
+  );
+};
+
+/** What changed between two workspaces, or null if nothing did. */
+export const diffWorkspaces = (prev: Workspace, next: Workspace): WorkspaceChange | null => {
+  const boards: Record<string, BoardChange> = {};
+  new Set([...Object.keys(prev.boards), ...Object.keys(next.boards)]).forEach((id) => {
+    const [a, b] = [prev.boards[id], next.boards[id]];
+    if (a === b) return;
+    if (!a) {
+      boards[id] = { type: "add", board: b };
+    } else if (!b) {
+      boards[id] = { type: "delete" };
+    } else {
+      const before: BoardMeta = {};
+      const after: BoardMeta = {};
+      if (a.name !== b.name) [before.name, after.name] = [a.name, b.name];
+      if (a.starred !== b.starred) [before.starred, after.starred] = [a.starred, b.starred];
+      const diff = diffBoards(a.data, b.data);
+      if (!diff && Object.keys(after).length === 0) return;
+      boards[id] = { type: "update", before, after, undo: diff?.undo ?? {}, redo: diff?.redo ?? {} };
+    }
+  });
+  const boardOrder = sameIds(prev.boardOrder, next.boardOrder)
+    ? undefined
+    : { before: prev.boardOrder, after: next.boardOrder };
+  if (Object.keys(boards).length === 0 && !boardOrder) return null;
+  return { tabId: TAB_ID, boards, boardOrder };
+};
+
+/**
+ * Merges a change broadcast by another tab into this tab's workspace. The
+ * active board stays as it is unless the change deleted it.
+ */
+export const mergeWorkspaceChange = (
+  local: Workspace,
+  change: WorkspaceChange
+): { workspace: Workspace; conflicts: SyncConflict[] } => {
+  const remoteWins = change.tabId > TAB_ID;
+  const conflicts: SyncConflict[] = [];
+  let workspace = local;
+
+  Object.entries(change.boards).forEach(([boardId, boardChange]) => {
+    const board = workspace.boards[boardId];
+    if (boardChange.type === "add") {
+      if (board) return;
+      workspace = {
+        ...workspace,
+        boards: { ...workspace.boards, [boardId]: boardChange.board },
+        boardOrder: [...workspace.boardOrder, boardId],
+      };
+    } else if (boardChange.type === "delete") {
+      if (board) workspace = deleteBoard(workspace, boardId);
+    } else if (board) {
+      const meta: BoardMeta = {};
+      (["name", "starred"] as const).forEach((key) => {
+        if (!(key in boardChange.after)) return;
+        if (remoteWins || board[key] === boardChange.before[key]) {
+          Object.assign(meta, { [key]: boardChange.after[key] });
+        }
+      });
+      const data =
+        Object.keys(boardChange.redo).length === 0
+          ? board.data
+          : mergeBoardPatch(
+              boardId,
+              board.data,
+              boardChange.undo,
+              boardChange.redo,
+              remoteWins,
+              conflicts
+            );
+      workspace = {
+        ...workspace,
+        boards: { ...workspace.boards, [boardId]: { ...board, ...meta, data } },
+      };
+    }
+  });
+
+  if (change.boardOrder) {
+    const merged = mergeIds(
+      change.boardOrder.before,
+      change.boardOrder.after,
+      workspace.boardOrder,
+      remoteWins
+    ).filter((id) => workspace.boards[id]);
+    const missing = workspace.boardOrder.filter((id) => !merged.includes(id));
+    workspace = { ...workspace, boardOrder: [...merged, ...missing] };
+  }
+
+  return { workspace, conflicts };
+};
@@ -0,0 +1,151 @@
+import { getPriority } from "./priority";
+import type { BoardData, Column, Task } from "./types";
+
+// The table view: every card on the board as a row, sortable by any column,
+// optionally grouped by list and split into pages.
+
+export type TableSortKey = "title" | "status" | "labels" | "due" | "priority" | "created";
+
+export type TableSort = { key: TableSortKey; direction: "asc" | "desc" };
+
+export type TableRow = { task: Task; column: Column };
+
+/** A run of rows under a list's heading; ungrouped tables are one unnamed group. */
+export type TableGroup = { column: Column | null; rows: TableRow[] };
+
+export const PAGE_SIZES = [25, 50, 100];
+
+/** The rows of the cards in `visibleTaskIds`, in board order. */
+export const getTableRows = (
+  board: BoardData,
+  visibleTaskIds: Record<string, string[]>
+): TableRow[] =>
+  board.columnOrder.flatMap((columnId) =>
+    visibleTaskIds[columnId].map((taskId) => ({
+      task: board.tasks[taskId],
+      column: board.columns[columnId],
+    }))
+  );
+
+/** The value a row is sorted by, or null for an empty cell. */
+const getSortValue = (
+  board: BoardData,
+  row: TableRow,
+  key: TableSortKey
+): string | number | null => {
+  const { task, column } = row;
+  switch (key) {
+    case "title":
+      return task.content;
+    case "status":
+      return board.columnOrder.indexOf(column.id);
+    case "labels":
+      return board.labels.find((label) => task.labelIds.includes(label.id))?.name ?? null;
+    case "due":
+      return task.dueDate;
+    case "priority":
+      return task.priority ? getPriority(task.priority).rank : null;
+    case "created":
+      return task.createdAt;
+  }
+};
+
+/**
+ * Sorts rows by `sort`, keeping board order between equal rows. Empty cells
+ * go last in either direction.
+ */
+export const sortTableRows = (board: BoardData, rows: TableRow[], sort: TableSort) => {
+  const sign = sort.direction === "asc" ? 1 : -1;
+  return rows
+    .map((row) => ({ row, value: getSortValue(board, row, sort.key) }))
+    .sort((a, b) => {
+      if (a.value === null || b.value === null) {
+        return a.value === b.value ? 0 : a.value === null ? 1 : -1;
+      }
+      const order =
+        typeof a.value === "string" && typeof b.value === "string"
+          ? a.value.localeCompare(b.value, undefined, { sensitivity: "base", numeric: true })
+          : Number(a.value) - Number(b.value);
+      return order * sign;
+    })
+    .map(({ row }) => row);
+};
+
+/** Splits sorted rows by list, in board order, leaving out empty lists. */
+export const groupTableRows = (board: BoardData, rows: TableRow[]): TableGroup[] =>
+  board.columnOrder
+    .map((columnId) => ({
+      column: board.columns[columnId],
+      rows: rows.filter((row) => row.column.id === columnId),
+    }))
+    .filter((group) => group.rows.length > 0);
+
+/**
+ * The groups cut down to page `page` (0-based) of `pageSize` rows. A group
+ * that runs over a page break is repeated, with its rest, on the next page.
+ */
+export const getTablePage = (groups: TableGroup[], page: number, pageSize: number) => {
+  const start = page * pageSize;
+  const end = start + pageSize;
+  const paged: TableGroup[] = [];
+  let offset = 0;
+  groups.forEach((group) => {
+    const rows = group.rows.slice(Math.max(0, start - offset), Math.max(0, end - offset));
+    if (rows.length > 0) paged.push({ ...group, rows });
+    offset += group.rows.length;
+  });
+  return paged;
+};
+
+export const getPageCount = (rowCount: number, pageSize: number) =>
+  Math.max(1, Math.ceil(rowCount / pageSize));
+
+/**
+ * The page links to show: the first and last pages, and those next to the
+ * current one, with null where a run of pages is left out.
+ */
+export const getPageLinks = (page: number, pageCount: number): (number | null)[] => {
+  const links: (number | null)[] = [];
+  for (let i = 0; i < pageCount; i += 1) {
+    if (i === 0 || i === pageCount - 1 || Math.abs(i - page) <= 1) links.push(i);
+    else if (links[links.length - 1] !== null) links.push(null);
+  }
+  return links;
+};
+
+/**
+ * Moves cards to the top of another list, in the order given. Cards already
+ * there stay where they are.
+ */
+export const moveTasksToColumn = (
+  board: BoardData,
+  taskIds: string[],
+  columnId: string
+): BoardData => {
+  const moving = taskIds.filter((taskId) => !board.columns[columnId].taskIds.includes(taskId));
+  if (moving.length === 0) return board;
+  const columns = { ...board.columns };
+  Object.values(columns).forEach((column) => {
+    if (column.taskIds.some((taskId) => moving.includes(taskId))) {
+      columns[column.id] = {
+        ...column,
+        taskIds: column.taskIds.filter((taskId) => !moving.includes(taskId)),
+      };
+    }
+  });
+  columns[columnId] = { ...columns[columnId], taskIds: [...moving, ...columns[columnId].taskIds] };
+  return { ...board, columns };
+};
+
+/** Applies `update` to each of the cards, for bulk edits. */
+export const updateTasks = (
+  board: BoardData,
+  taskIds: string[],
+  update: (task: Task) => Partial<Omit<Task, "id">>
+): BoardData => {
+  const tasks = { ...board.tasks };
+  taskIds.forEach((taskId) => {
+    tasks[taskId] = { ...tasks[taskId], ...update(tasks[taskId]) };
+  });
+  return { ...board, tasks };
+};
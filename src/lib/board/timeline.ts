@@ -0,0 +1,149 @@
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfWeek,
+  max,
+  min,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+import { parseDueDate, toDueDate } from "./due";
+import { getLaneId, getSwimlanes } from "./swimlanes";
+import type { BoardData, Task } from "./types";
+
+// The timeline view: cards as bars from their start to their end date,
+// grouped by list or label, with arrows from each card to the ones waiting
+// on it.
+
+export type TimelineGrouping = "column" | "label";
+
+export const TIMELINE_GROUPINGS: { id: TimelineGrouping; name: string }[] = [
+  { id: "column", name: "List" },
+  { id: "label", name: "Label" },
+];
+
+export type TimelineGroup = {
+  id: string;
+  title: string;
+  /** Classes for the dot beside a list's title. */
+  accent: string | null;
+  /** Classes for the pill around a label's title. */
+  badge: string | null;
+  taskIds: string[];
+};
+
+/** The groups of cards in `visibleTaskIds` that have any, in board order. */
+export const getTimelineGroups = (
+  board: BoardData,
+  visibleTaskIds: Record<string, string[]>,
+  grouping: TimelineGrouping
+): TimelineGroup[] => {
+  if (grouping === "column") {
+    return board.columnOrder
+      .map((columnId) => ({
+        id: columnId,
+        title: board.columns[columnId].title,
+        accent: board.columns[columnId].accent,
+        badge: null,
+        taskIds: visibleTaskIds[columnId],
+      }))
+      .filter((group) => group.taskIds.length > 0);
+  }
+  const taskIds = board.columnOrder.flatMap((columnId) => visibleTaskIds[columnId]);
+  return getSwimlanes(board, "label")
+    .map((lane) => ({
+      id: lane.id,
+      title: lane.title,
+      accent: null,
+      badge: lane.badge,
+      taskIds: taskIds.filter((id) => getLaneId(board, board.tasks[id], "label") === lane.id),
+    }))
+    .filter((group) => group.taskIds.length > 0);
+};
+
+export type Schedule = { startDate: string; endDate: string };
+
+export const getSchedule = (task: Task): Schedule | null =>
+  task.startDate && task.endDate ? { startDate: task.startDate, endDate: task.endDate } : null;
+
+/**
+ * The days the timeline covers: from a week before today, or the earliest
+ * start, to four weeks after, or the latest end, widened to whole weeks.
+ */
+export const getTimelineRange = (tasks: Task[], today = new Date()) => {
+  const schedules = tasks.flatMap((task) => getSchedule(task) ?? []);
+  const first = min([subDays(today, 7), ...schedules.map((s) => parseDueDate(s.startDate))]);
+  const last = max([addDays(today, 28), ...schedules.map((s) => parseDueDate(s.endDate))]);
+  const start = startOfWeek(first);
+  return { start, days: differenceInCalendarDays(endOfWeek(last), start) + 1 };
+};
+
+/** Days from the start of the range to `date` (`yyyy-MM-dd`). */
+export const getDayOffset = (rangeStart: Date, date: string) =>
+  differenceInCalendarDays(parseDueDate(date), rangeStart);
+
+export const getOffsetDate = (rangeStart: Date, offset: number) =>
+  toDueDate(addDays(rangeStart, offset));
+
+/** Moving a whole bar, or dragging one of its ends. */
+export type ScheduleEdit = "move" | "start" | "end";
+
+/**
+ * `schedule` moved `days` later (or earlier, when negative). A dragged end
+ * stops at the other one, so a card is always at least a day long.
+ */
+export const editSchedule = (schedule: Schedule, edit: ScheduleEdit, days: number): Schedule => {
+  const shift = (date: string) => toDueDate(addDays(parseDueDate(date), days));
+  const { startDate, endDate } = schedule;
+  switch (edit) {
+    case "move":
+      return { startDate: shift(startDate), endDate: shift(endDate) };
+    case "start":
+      return { startDate: shift(startDate) > endDate ? endDate : shift(startDate), endDate };
+    case "end":
+      return { startDate, endDate: shift(endDate) < startDate ? startDate : shift(endDate) };
+  }
+};
+
+/** True when `taskId` waits on `targetId`, directly or through other tasks. */
+export const dependsOn = (board: BoardData, taskId: string, targetId: string) => {
+  const seen = new Set<string>();
+  const visit = (id: string): boolean =>
+    (board.tasks[id]?.dependsOn ?? []).some((next) => {
+      if (next === targetId) return true;
+      if (seen.has(next)) return false;
+      seen.add(next);
+      return visit(next);
+    });
+  return visit(taskId);
+};
+
+/**
+ * The cards `taskId` could be made to depend on: every other card on the
+ * board, except those already waiting on it, which would make a cycle.
+ */
+export const getDependencyOptions = (board: BoardData, taskId?: string): Task[] =>
+  board.columnOrder
+    .flatMap((columnId) => board.columns[columnId].taskIds)
+    .filter((id) => id !== taskId && !(taskId && dependsOn(board, id, taskId)))
+    .map((id) => board.tasks[id]);
+
+/**
+ * The arrows to draw, from each dependency to the card waiting on it, where
+ * both are shown and scheduled. An arrow is late when the card starts before
+ * its dependency's last day is over.
+ */
+export const getDependencyLinks = (
+  tasks: Record<string, Task>,
+  taskIds: string[],
+  getShownSchedule: (task: Task) => Schedule | null = getSchedule
+) =>
+  taskIds.flatMap((taskId) => {
+    const schedule = getShownSchedule(tasks[taskId]);
+    if (!schedule) return [];
+    return tasks[taskId].dependsOn.flatMap((fromId) => {
+      const from = taskIds.includes(fromId) ? getShownSchedule(tasks[fromId]) : null;
+      if (!from) return [];
+      return [{ from: fromId, to: taskId, late: schedule.startDate <= from.endDate }];
+    });
+  });
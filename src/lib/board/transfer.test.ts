@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { archiveColumn, archiveTask } from "./archive";
+import { createDefaultBoard } from "./defaults";
+import { addColumn, addTask, createTask } from "./operations";
+import { getColumnTheme } from "./palette";
+import { countBoardContents, mergeBoardData } from "./transfer";
+
+describe("mergeBoardData", () => {
+  it("carries archived lists and cards across", () => {
+    const archivedCard = createTask("Shelved");
+    const oldCard = createTask("From an old list");
+    let incoming = addTask(createDefaultBoard(), "todo", archivedCard);
+    incoming = archiveTask(incoming, archivedCard.id, 1);
+    incoming = addColumn(incoming, { id: "old", title: "Old", ...getColumnTheme("slate").style });
+    incoming = addTask(incoming, "old", oldCard);
+    incoming = archiveColumn(incoming, "old", 1);
+
+    const merged = mergeBoardData(createDefaultBoard(), incoming, "copy");
+
+    expect(merged.tasks[archivedCard.id].archived?.columnId).toBe("todo");
+    expect(merged.columns.todo.taskIds).not.toContain(archivedCard.id);
+    expect(merged.columns.old.archived).not.toBeNull();
+    expect(merged.columns.old.taskIds).toEqual([oldCard.id]);
+    expect(merged.columnOrder).not.toContain("old");
+    expect(countBoardContents(merged)).toEqual({
+      tasks: 0,
+      columns: 3,
+      archivedTasks: 2,
+      archivedColumns: 1,
+    });
+  });
+
+  it("matches only lists that are on the board", () => {
+    let board = addColumn(createDefaultBoard(), {
+      id: "ideas",
+      title: "Ideas",
+      ...getColumnTheme("amber").style,
+    });
+    board = archiveColumn(board, "ideas", 1);
+    let incoming = addColumn(createDefaultBoard(), {
+      id: "ideas",
+      title: "Ideas",
+      ...getColumnTheme("amber").style,
+    });
+    const card = createTask("New idea");
+    incoming = addTask(incoming, "ideas", card);
+
+    const merged = mergeBoardData(board, incoming, "copy");
+    const added = merged.columnOrder[merged.columnOrder.length - 1];
+
+    expect(added).not.toBe("ideas");
+    expect(merged.columns[added].taskIds).toEqual([card.id]);
+    expect(merged.columns.ideas.taskIds).toEqual([]);
+  });
+
+  it("points dependencies at the copies of colliding cards", () => {
+    const first = createTask("First");
+    const second = createTask("Second", { dependsOn: [first.id] });
+    const board = addTask(createDefaultBoard(), "todo", first);
+    let incoming = addTask(createDefaultBoard(), "todo", first);
+    incoming = addTask(incoming, "todo", second);
+
+    const merged = mergeBoardData(board, incoming, "copy");
+    const copy = merged.columns.todo.taskIds.find(
+      (id) => id !== first.id && merged.tasks[id].content === "First"
+    );
+
+    expect(copy).toBeDefined();
+    expect(merged.tasks[second.id].dependsOn).toEqual([copy]);
+    expect(merged.tasks[first.id].dependsOn).toEqual([]);
+  });
+});
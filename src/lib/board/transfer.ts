@@ -0,0 +1,331 @@
+import { format } from "date-fns";
+import { createId } from "./operations";
+import { BOARD_SCHEMA_VERSION, migrateBoardData } from "./persistence";
+import { getPriority } from "./priority";
+import { boardFileSchema } from "./schema";
+import { isTrelloExport, parseTrelloBoard } from "./trello";
+import type { Board, BoardData, Column, Label, Task } from "./types";
+
+// Getting boards in and out of files: a versioned JSON export that can be
+// imported again, plus CSV and Markdown for other tools.
+
+export type ExportFormat = "json" | "csv" | "markdown";
+
+export type ImportedBoard = {
+  name: string;
+  data: BoardData;
+  /** Parts of the file that could not be carried over, for the user. */
+  notes: string[];
+};
+
+export type ImportMode = "replace" | "merge";
+
+/**
+ * What to do with an imported task whose id already exists on the board:
+ * add it as a copy under a new id, overwrite the existing task, or skip it.
+ */
+export type CollisionStrategy = "copy" | "overwrite" | "skip";
+
+export type ImportSummary = {
+  tasksAdded: number;
+  tasksUpdated: number;
+  tasksRemoved: number;
+  columnsAdded: number;
+  columnsRemoved: number;
+  labelsAdded: number;
+};
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  json: "json",
+  csv: "csv",
+  markdown: "md",
+};
+
+const slugify = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "") || "board";
+
+export const getExportFileName = (board: Board, exportFormat: ExportFormat, now = new Date()) =>
+  `${slugify(board.name)}-${format(now, "yyyy-MM-dd")}.${FILE_EXTENSIONS[exportFormat]}`;
+
+/** e.g. "my-board-burndown-2026-10-01-2026-10-14.csv" for a chart's data. */
+export const getChartFileName = (boardName: string, chart: string, from: string, to: string) =>
+  `${slugify(boardName)}-${chart}-${from}-${to}.csv`;
+
+const labelNames = (task: Task, labels: Label[]) =>
+  labels.filter((label) => task.labelIds.includes(label.id)).map((label) => label.name);
+
+const columnTasks = (data: BoardData, column: Column) =>
+  column.taskIds.map((taskId) => data.tasks[taskId]);
+
+export const exportJson = (board: Board, now = new Date()) =>
+  JSON.stringify(
+    {
+      format: "task-board",
+      version: BOARD_SCHEMA_VERSION,
+      exportedAt: now.toISOString(),
+      name: board.name,
+      data: board.data,
+    },
+    null,
+    2
+  );
+
+const csvCell = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/** `rows` as CSV, quoting the cells that need it. */
+export const toCsv = (rows: string[][]) =>
+  rows.map((row) => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+
+/** One row per task, in board order, with the column it is in. */
+export const exportCsv = ({ data }: Board) => {
+  const rows = [
+    [
+      "Column",
+      "Title",
+      "Description",
+      "Due date",
+      "Start",
+      "End",
+      "Priority",
+      "Labels",
+      "Assignee",
+      "Epic",
+      "Created",
+    ],
+  ];
+  data.columnOrder.forEach((columnId) => {
+    const column = data.columns[columnId];
+    columnTasks(data, column).forEach((task) => {
+      rows.push([
+        column.title,
+        task.content,
+        task.description,
+        task.dueDate ?? "",
+        task.startDate ?? "",
+        task.endDate ?? "",
+        task.priority ? getPriority(task.priority).name : "",
+        labelNames(task, data.labels).join("; "),
+        task.assignee ?? "",
+        task.epic ?? "",
+        task.createdAt ? format(task.createdAt, "yyyy-MM-dd") : "",
+      ]);
+    });
+  });
+  return toCsv(rows);
+};
+
+/**
+ * A checklist per column. Tasks in the last column, conventionally "Done",
+ * are ticked; a task's own checklist items are nested under it.
+ */
+export const exportMarkdown = ({ name, data }: Board) => {
+  const lines = [`# ${name}`];
+  data.columnOrder.forEach((columnId, index) => {
+    const column = data.columns[columnId];
+    const done = index === data.columnOrder.length - 1;
+    lines.push("", `## ${column.title}`, "");
+    const tasks = columnTasks(data, column);
+    if (tasks.length === 0) lines.push("_No tasks_");
+    tasks.forEach((task) => {
+      const details = [
+        task.dueDate && `due ${task.dueDate}`,
+        task.priority && getPriority(task.priority).name,
+        task.assignee && `@${task.assignee}`,
+        task.epic && `epic: ${task.epic}`,
+        ...labelNames(task, data.labels).map((label) => `\`${label}\``),
+      ].filter(Boolean);
+      const title = task.content.replace(/\r?\n/g, " ");
+      const suffix = details.length ? ` — ${details.join(" · ")}` : "";
+      lines.push(`- [${done ? "x" : " "}] ${title}${suffix}`);
+      task.checklists.forEach((checklist) =>
+        checklist.items.forEach((item) => {
+          const due = item.dueDate ? ` — due ${item.dueDate}` : "";
+          lines.push(`  - [${item.done ? "x" : " "}] ${item.text.replace(/\r?\n/g, " ")}${due}`);
+        })
+      );
+    });
+  });
+  return lines.join("\n") + "\n";
+};
+
+/**
+ * Reads a JSON export of ours, upgrading boards written by older versions,
+ * or a Trello board export. Throws an `Error` with a user-facing message
+ * when the file can't be used.
+ */
+export const parseBoardFile = (text: string): ImportedBoard => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  if (isTrelloExport(raw)) return parseTrelloBoard(raw);
+  const file = boardFileSchema.safeParse(raw);
+  if (!file.success) throw new Error("This file isn't a board export.");
+  const { version, name, data } = file.data;
+  if (version > BOARD_SCHEMA_VERSION) {
+    throw new Error("This board was exported by a newer version of the app.");
+  }
+  try {
+    return { name, data: migrateBoardData(version, data), notes: [] };
+  } catch (err) {
+    console.error("Rejected board import", err);
+    throw new Error("This board export is damaged and can't be imported.");
+  }
+};
+
+/** Ids of imported tasks that already exist on the board. */
+export const getCollidingTaskIds = (board: BoardData, incoming: BoardData) =>
+  Object.keys(incoming.tasks).filter((taskId) => board.tasks[taskId]);
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Cards and lists on a board, and those in its archive. */
+export const countBoardContents = (data: BoardData) => {
+  const tasks = data.columnOrder.reduce((sum, id) => sum + data.columns[id].taskIds.length, 0);
+  return {
+    tasks,
+    columns: data.columnOrder.length,
+    /** Archived cards, and the cards of archived lists. */
+    archivedTasks: Object.keys(data.tasks).length - tasks,
+    archivedColumns: Object.values(data.columns).filter((column) => column.archived).length,
+  };
+};
+
+/**
+ * Adds an imported board to `board`. Labels and lanes are matched by id,
+ * then by name, and created when there is no match. Lists on the imported
+ * board are matched the same way against the lists on this one; anything
+ * archived comes across archived. Tasks are appended to their list, with
+ * `collisions` deciding what happens to tasks whose id is already taken.
+ */
+export const mergeBoardData = (
+  board: BoardData,
+  incoming: BoardData,
+  collisions: CollisionStrategy
+): BoardData => {
+  const labels = [...board.labels];
+  const labelIds: Record<string, string> = {};
+  incoming.labels.forEach((label) => {
+    const match =
+      labels.find((l) => l.id === label.id) ?? labels.find((l) => sameName(l.name, label.name));
+    if (!match) labels.push(label);
+    labelIds[label.id] = match?.id ?? label.id;
+  });
+  const lanes = [...board.lanes];
+  const laneIds: Record<string, string> = {};
+  incoming.lanes.forEach((lane) => {
+    const match =
+      lanes.find((l) => l.id === lane.id) ?? lanes.find((l) => sameName(l.title, lane.title));
+    if (!match) lanes.push(lane);
+    laneIds[lane.id] = match?.id ?? lane.id;
+  });
+
+  const tasks = { ...board.tasks };
+  const columns = { ...board.columns };
+  const columnOrder = [...board.columnOrder];
+
+  // Only lists on the board are matched, so nothing lands in an archived one.
+  const columnIds: Record<string, string> = {};
+  const addColumn = (source: Column) => {
+    const id = columns[source.id] ? createId("column") : source.id;
+    columns[id] = { ...source, id, taskIds: [] };
+    if (!source.archived) columnOrder.push(id);
+    return id;
+  };
+  const archivedColumns = Object.values(incoming.columns).filter((column) => column.archived);
+  incoming.columnOrder.forEach((incomingColumnId) => {
+    const source = incoming.columns[incomingColumnId];
+    const match =
+      (board.columnOrder.includes(source.id) ? columns[source.id] : undefined) ??
+      board.columnOrder.map((id) => columns[id]).find((c) => sameName(c.title, source.title));
+    columnIds[source.id] = match?.id ?? addColumn(source);
+  });
+  archivedColumns.forEach((source) => {
+    columnIds[source.id] = addColumn(source);
+  });
+
+  // Decided up front, so dependencies can follow copies to their new ids.
+  const taskIds: Record<string, string | null> = {};
+  Object.keys(incoming.tasks).forEach((taskId) => {
+    if (!tasks[taskId]) taskIds[taskId] = taskId;
+    else if (collisions === "copy") taskIds[taskId] = createId("task");
+    else taskIds[taskId] = collisions === "overwrite" ? taskId : null;
+  });
+
+  const importTask = (taskId: string) => {
+    const id = taskIds[taskId];
+    if (id === null) return null;
+    const source = incoming.tasks[taskId];
+    const existing = id === taskId ? tasks[taskId] : undefined;
+    tasks[id] = {
+      ...source,
+      id,
+      labelIds: source.labelIds.flatMap((labelId) => labelIds[labelId] ?? []),
+      laneId: source.laneId ? (laneIds[source.laneId] ?? null) : null,
+      dependsOn: source.dependsOn.map((dependencyId) => taskIds[dependencyId] ?? dependencyId),
+      columnEntries: source.columnEntries.map((entry) => ({
+        ...entry,
+        columnId: columnIds[entry.columnId] ?? entry.columnId,
+      })),
+      // An overwritten task stays wherever the existing one lives.
+      archived: existing
+        ? existing.archived
+        : source.archived && {
+            ...source.archived,
+            columnId: columnIds[source.archived.columnId] ?? source.archived.columnId,
+          },
+    };
+    return existing ? null : id;
+  };
+
+  const incomingColumns = [
+    ...incoming.columnOrder.map((id) => incoming.columns[id]),
+    ...archivedColumns,
+  ];
+  incomingColumns.forEach((source) => {
+    const columnId = columnIds[source.id];
+    const added = source.taskIds.flatMap((taskId) => importTask(taskId) ?? []);
+    columns[columnId] = { ...columns[columnId], taskIds: [...columns[columnId].taskIds, ...added] };
+  });
+  Object.values(incoming.tasks)
+    .filter((task) => task.archived)
+    .forEach((task) => importTask(task.id));
+
+  return { ...board, tasks, columns, columnOrder, labels, lanes };
+};
+
+const countChanges = <T>(
+  before: Record<string, T>,
+  after: Record<string, T>,
+  changed: (a: T | undefined, b: T | undefined) => boolean
+) =>
+  Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).filter((id) =>
+    changed(before[id], after[id])
+  ).length;
+
+const added = <T>(a: T | undefined, b: T | undefined) => !a && !!b;
+const removed = <T>(a: T | undefined, b: T | undefined) => !!a && !b;
+
+/** Counts what applying `next` in place of `prev` would change. */
+export const summarizeImport = (prev: BoardData, next: BoardData): ImportSummary => {
+  const labelsById = (labels: Label[]) =>
+    Object.fromEntries(labels.map((label) => [label.id, label]));
+  return {
+    tasksAdded: countChanges(prev.tasks, next.tasks, added),
+    tasksUpdated: countChanges(
+      prev.tasks,
+      next.tasks,
+      (a, b) => !!a && !!b && JSON.stringify(a) !== JSON.stringify(b)
+    ),
+    tasksRemoved: countChanges(prev.tasks, next.tasks, removed),
+    columnsAdded: countChanges(prev.columns, next.columns, added),
+    columnsRemoved: countChanges(prev.columns, next.columns, removed),
+    labelsAdded: countChanges(labelsById(prev.labels), labelsById(next.labels), added),
+  };
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { getArchivedColumns, getArchivedTasks, restoreColumn, restoreTask } from "./archive";
+import { createDefaultBoard } from "./defaults";
+import { mergeBoardData } from "./transfer";
+import { parseTrelloBoard } from "./trello";
+
+const EXPORT = {
+  name: "Roadmap",
+  lists: [
+    { id: "list-open", name: "Backlog", pos: 1 },
+    { id: "list-closed", name: "Someday", closed: true, pos: 2 },
+  ],
+  cards: [
+    { id: "card-open", name: "Plan", idList: "list-open", pos: 1 },
+    { id: "card-closed", name: "Dropped", idList: "list-open", closed: true, pos: 2 },
+    { id: "card-in-closed-list", name: "Maybe", idList: "list-closed", pos: 1 },
+  ],
+};
+
+describe("merging a Trello export", () => {
+  it("keeps closed lists and cards in the archive", () => {
+    const { data } = parseTrelloBoard(EXPORT, 1);
+    const merged = mergeBoardData(createDefaultBoard(), data, "copy");
+
+    expect(getArchivedTasks(merged).map((task) => task.content)).toEqual(["Dropped"]);
+    expect(getArchivedColumns(merged).map((column) => column.title)).toEqual(["Someday"]);
+    expect(merged.columns["column-list-closed"].taskIds).toEqual(["task-card-in-closed-list"]);
+    expect(merged.columns["column-list-open"].taskIds).toEqual(["task-card-open"]);
+  });
+
+  it("restores them into the merged board", () => {
+    const { data } = parseTrelloBoard(EXPORT, 1);
+    let merged = mergeBoardData(createDefaultBoard(), data, "copy");
+    merged = restoreTask(merged, "task-card-closed");
+    merged = restoreColumn(merged, "column-list-closed");
+
+    expect(merged.columns["column-list-open"].taskIds).toEqual([
+      "task-card-open",
+      "task-card-closed",
+    ]);
+    expect(merged.columnOrder).toContain("column-list-closed");
+  });
+});
@@ -0,0 +1,289 @@
+import { z } from "zod";
+import { DEFAULT_APPEARANCE } from "./appearance";
+import { toDueDate } from "./due";
+import { COLUMN_THEMES, getLabelColor, LABEL_COLORS } from "./palette";
+import type { BoardData, Checklist, Column, Comment, Label, Task } from "./types";
+
+// Reads the JSON a Trello board exports ("Print, export and share" → "Export
+// as JSON"). Only the fields we translate are validated; everything else in
+// the file is ignored, and what we had to leave behind is reported.
+
+const trelloLabelSchema = z.object({
+  id: z.string(),
+  name: z.string().nullish(),
+  color: z.string().nullish(),
+});
+
+const trelloListSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  closed: z.boolean().optional(),
+  pos: z.number().optional(),
+});
+
+const trelloCardSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  desc: z.string().optional(),
+  closed: z.boolean().optional(),
+  idList: z.string(),
+  idLabels: z.array(z.string()).optional(),
+  idMembers: z.array(z.string()).optional(),
+  due: z.string().nullish(),
+  pos: z.number().optional(),
+  badges: z
+    .object({
+      attachments: z.number().optional(),
+      comments: z.number().optional(),
+    })
+    .partial()
+    .optional(),
+});
+
+const trelloChecklistSchema = z.object({
+  id: z.string(),
+  idCard: z.string(),
+  name: z.string(),
+  pos: z.number().optional(),
+  checkItems: z.array(
+    z.object({
+      id: z.string(),
+      name: z.string(),
+      state: z.string(),
+      pos: z.number().optional(),
+      due: z.string().nullish(),
+    })
+  ),
+});
+
+// Only comments are read from the board's actions; exports hold at most the
+// latest 1000 actions, so older comments may be missing.
+const trelloActionSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  date: z.string(),
+  data: z
+    .object({
+      text: z.string().optional(),
+      card: z.object({ id: z.string() }).optional(),
+    })
+    .optional(),
+});
+
+const trelloMemberSchema = z.object({
+  id: z.string(),
+  fullName: z.string().nullish(),
+  username: z.string().nullish(),
+});
+
+const trelloBoardSchema = z.object({
+  name: z.string(),
+  members: z.array(trelloMemberSchema).optional(),
+  labels: z.array(trelloLabelSchema).optional(),
+  lists: z.array(trelloListSchema),
+  cards: z.array(trelloCardSchema),
+  checklists: z.array(trelloChecklistSchema).optional(),
+  actions: z.array(trelloActionSchema).optional(),
+});
+
+export type TrelloImport = {
+  name: string;
+  data: BoardData;
+  /** Things in the export that could not be carried over. */
+  notes: string[];
+};
+
+/** True when `raw` looks like a Trello board export rather than one of ours. */
+export const isTrelloExport = (raw: unknown) =>
+  typeof raw === "object" &&
+  raw !== null &&
+  Array.isArray((raw as Record<string, unknown>).lists) &&
+  Array.isArray((raw as Record<string, unknown>).cards);
+
+// Trello's label colors, including the "_light"/"_dark" shades, mapped onto
+// ours by base color.
+const TRELLO_LABEL_COLORS: Record<string, string> = {
+  lime: "green",
+  black: "slate",
+};
+
+const toLabelColor = (color: string | null | undefined) => {
+  if (!color) return "slate";
+  const base = color.replace(/_(light|dark)$/, "");
+  const mapped = TRELLO_LABEL_COLORS[base] ?? base;
+  return LABEL_COLORS.some((c) => c.id === mapped) ? mapped : "slate";
+};
+
+const byPos = <T extends { pos?: number }>(items: T[]) =>
+  [...items].sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+
+const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+
+/** Trello ids are MongoDB object ids, which start with their creation time in seconds. */
+const getIdTime = (id: string) =>
+  /^[0-9a-f]{24}$/.test(id) ? parseInt(id.slice(0, 8), 16) * 1000 : null;
+
+/**
+ * Maps a Trello export onto a board, with its archived lists and cards in
+ * the board's archive as of `now`. Throws an `Error` with a user-facing
+ * message when the file isn't a usable Trello export.
+ */
+export const parseTrelloBoard = (raw: unknown, now = Date.now()): TrelloImport => {
+  const parsed = trelloBoardSchema.safeParse(raw);
+  if (!parsed.success) {
+    console.error("Rejected Trello import", parsed.error);
+    throw new Error("This Trello export is missing lists or cards and can't be imported.");
+  }
+  const trello = parsed.data;
+  const notes: string[] = [];
+
+  const labels: Label[] = (trello.labels ?? []).map((label) => {
+    const color = toLabelColor(label.color);
+    return {
+      id: `label-${label.id}`,
+      name: label.name?.trim() || getLabelColor(color).name,
+      color,
+    };
+  });
+
+  // Cards point at members by id; assignees are kept by name.
+  const members: Record<string, string> = {};
+  (trello.members ?? []).forEach((member) => {
+    const name = member.fullName?.trim() || member.username?.trim();
+    if (name) members[member.id] = name;
+  });
+
+  const checklists = byPos(trello.checklists ?? []);
+  const comments: Record<string, Comment[]> = {};
+  (trello.actions ?? []).forEach((action) => {
+    const { text, card } = action.data ?? {};
+    const createdAt = Date.parse(action.date);
+    if (action.type !== "commentCard" || !text || !card || Number.isNaN(createdAt)) return;
+    (comments[card.id] ??= []).push({
+      id: `comment-${action.id}`,
+      text,
+      createdAt,
+      editedAt: null,
+    });
+  });
+  const tasks: Record<string, Task> = {};
+  const columns: Record<string, Column> = {};
+  const columnOrder: string[] = [];
+
+  // Archived lists and cards go to the board's archive, where they can be
+  // restored from.
+  byPos(trello.lists).forEach((list, index) => {
+    const column: Column = {
+      id: `column-${list.id}`,
+      title: list.name,
+      ...COLUMN_THEMES[index % COLUMN_THEMES.length].style,
+      taskIds: [],
+      archived: list.closed ? { at: now, index: columnOrder.length } : null,
+      wipLimit: null,
+    };
+    columns[column.id] = column;
+    if (!list.closed) columnOrder.push(column.id);
+  });
+
+  let unlistedCards = 0;
+  let invalidDueDates = 0;
+  let extraMemberCards = 0;
+  let attachments = 0;
+  let missingComments = 0;
+
+  const readDue = (value: string | null | undefined) => {
+    if (!value) return null;
+    const due = new Date(value);
+    if (!Number.isNaN(due.getTime())) return toDueDate(due);
+    invalidDueDates += 1;
+    return null;
+  };
+
+  byPos(trello.cards).forEach((card) => {
+    const column = columns[`column-${card.idList}`];
+    if (!column) {
+      unlistedCards += 1;
+      return;
+    }
+
+    const cardChecklists: Checklist[] = checklists
+      .filter((checklist) => checklist.idCard === card.id)
+      .map((checklist) => ({
+        id: `checklist-${checklist.id}`,
+        title: checklist.name,
+        items: byPos(checklist.checkItems).map((item) => ({
+          id: `item-${item.id}`,
+          text: item.name,
+          done: item.state === "complete",
+          dueDate: readDue(item.due),
+        })),
+      }));
+
+    const assignees = (card.idMembers ?? []).flatMap((id) => members[id] ?? []);
+    if (assignees.length > 1) extraMemberCards += 1;
+    attachments += card.badges?.attachments ?? 0;
+    const cardComments = (comments[card.id] ?? []).sort((a, b) => a.createdAt - b.createdAt);
+    missingComments += Math.max(0, (card.badges?.comments ?? 0) - cardComments.length);
+
+    const task: Task = {
+      id: `task-${card.id}`,
+      content: card.name,
+      description: card.desc?.trim() ?? "",
+      dueDate: readDue(card.due),
+      startDate: null,
+      endDate: null,
+      dependsOn: [],
+      priority: null,
+      assignee: assignees[0] ?? null,
+      epic: null,
+      laneId: null,
+      labelIds: (card.idLabels ?? [])
+        .map((id) => `label-${id}`)
+        .filter((id) => labels.some((label) => label.id === id)),
+      checklists: cardChecklists,
+      comments: cardComments,
+      createdAt: getIdTime(card.id),
+      activity: [],
+      columnEntries: [],
+      archived: card.closed ? { at: now, columnId: column.id, index: column.taskIds.length } : null,
+    };
+    tasks[task.id] = task;
+    if (!card.closed) column.taskIds.push(task.id);
+  });
+
+  if (unlistedCards > 0) {
+    notes.push(
+      `${plural(unlistedCards, "card was", "cards were")} skipped because their list isn't in the export.`
+    );
+  }
+  if (invalidDueDates > 0) {
+    notes.push(`${plural(invalidDueDates, "due date", "due dates")} couldn't be read.`);
+  }
+  if (extraMemberCards > 0) {
+    notes.push(
+      `Only the first member of ${plural(extraMemberCards, "card", "cards")} became its assignee.`
+    );
+  }
+  if (attachments > 0) {
+    notes.push(`${plural(attachments, "attachment wasn't", "attachments weren't")} imported.`);
+  }
+  if (missingComments > 0) {
+    notes.push(
+      `${plural(missingComments, "older comment wasn't", "older comments weren't")} in the export.`
+    );
+  }
+
+  return {
+    name: trello.name,
+    data: {
+      tasks,
+      columns,
+      columnOrder,
+      labels,
+      lanes: [],
+      autoArchiveDays: null,
+      appearance: { ...DEFAULT_APPEARANCE },
+    },
+    notes,
+  };
+};
@@ -0,0 +1,168 @@
+export type Priority = "low" | "medium" | "high" | "urgent";
+
+export type Label = {
+  id: string;
+  name: string;
+  /** Id of an entry in `LABEL_COLORS`. */
+  color: string;
+};
+
+export type ChecklistItem = {
+  id: string;
+  text: string;
+  done: boolean;
+  /** Local calendar date as `yyyy-MM-dd`. */
+  dueDate: string | null;
+};
+
+export type Checklist = {
+  id: string;
+  title: string;
+  items: ChecklistItem[];
+};
+
+export type Comment = {
+  id: string;
+  /** Markdown. */
+  text: string;
+  createdAt: number;
+  editedAt: number | null;
+};
+
+/** A task field whose edits show up in the activity feed. */
+export type EditedField =
+  | "title"
+  | "description"
+  | "priority"
+  | "labels"
+  | "checklists"
+  | "assignee"
+  | "epic"
+  | "lane"
+  | "schedule"
+  | "dependencies";
+
+/** Something that happened to a task. Columns are kept by title, as they were then. */
+export type ActivityEvent =
+  | { type: "created"; column: string }
+  | { type: "edited"; fields: EditedField[] }
+  | { type: "moved"; from: string; to: string }
+  | { type: "due"; from: string | null; to: string | null }
+  | { type: "archived"; column: string }
+  | { type: "restored"; column: string };
+
+export type ActivityEntry = { id: string; at: number } & ActivityEvent;
+
+/** When a card came into a column, for the flow analytics. */
+export type ColumnEntry = { columnId: string; at: number };
+
+/** When a card was archived, and where it sat so it can be put back. */
+export type TaskArchive = { at: number; columnId: string; index: number };
+
+/** When a column was archived, and its place in `columnOrder`. */
+export type ColumnArchive = { at: number; index: number };
+
+export type Task = {
+  id: string;
+  /** The card title. */
+  content: string;
+  /** Markdown. */
+  description: string;
+  /** Local calendar date as `yyyy-MM-dd`. */
+  dueDate: string | null;
+  /** The planned first and last days of work, as `yyyy-MM-dd`; set together. */
+  startDate: string | null;
+  endDate: string | null;
+  /** Ids of the tasks that have to finish before this one can start. */
+  dependsOn: string[];
+  priority: Priority | null;
+  labelIds: string[];
+  /** Who is working on it, by name. */
+  assignee: string | null;
+  /** The larger piece of work it belongs to, by name. */
+  epic: string | null;
+  /** Id of an entry in the board's `lanes`, for manual swimlanes. */
+  laneId: string | null;
+  checklists: Checklist[];
+  comments: Comment[];
+  /** When the card was made, or null for cards from before this was recorded. */
+  createdAt: number | null;
+  /** Oldest first, recorded as the board changes. */
+  activity: ActivityEntry[];
+  /** Each time the card came into a column, oldest first. */
+  columnEntries: ColumnEntry[];
+  /** Set while the card is archived, when it is in no column's `taskIds`. */
+  archived: TaskArchive | null;
+};
+
+/**
+ * What happens when a column is over its WIP limit: "warn" only flags it,
+ * "block" refuses moves and new cards that would take it over.
+ */
+export type WipPolicy = "warn" | "block";
+
+export type WipLimit = { limit: number; policy: WipPolicy };
+
+export type Column = {
+  id: string;
+  title: string;
+  color: string;
+  accent: string;
+  border: string;
+  shadow: string;
+  gradient: string;
+  /** Includes nothing archived; an archived column keeps its cards here. */
+  taskIds: string[];
+  /** Set while the column is archived, when it is not in `columnOrder`. */
+  archived: ColumnArchive | null;
+  wipLimit: WipLimit | null;
+};
+
+/** A swimlane the board's cards can be sorted into by hand. */
+export type Lane = {
+  id: string;
+  title: string;
+};
+
+/** What sits behind the board; `default` is the app's own backdrop. */
+export type BoardBackground =
+  | { type: "default" }
+  | { type: "color"; color: string }
+  | { type: "gradient"; gradientId: string }
+  /** An uploaded picture, kept as a data URL with the board. */
+  | { type: "image"; dataUrl: string };
+
+export type CardDensity = "comfortable" | "compact";
+
+export type BoardAppearance = {
+  background: BoardBackground;
+  density: CardDensity;
+  /** In pixels. */
+  columnWidth: number;
+  /** Whether cards show their due date, priority, epic, assignee and checklist. */
+  showBadges: boolean;
+};
+
+export type BoardData = {
+  tasks: Record<string, Task>;
+  columns: Record<string, Column>;
+  columnOrder: string[];
+  labels: Label[];
+  lanes: Lane[];
+  /** Days after which cards in the last column are archived, or null for never. */
+  autoArchiveDays: number | null;
+  appearance: BoardAppearance;
+};
+
+export type Board = {
+  id: string;
+  name: string;
+  starred: boolean;
+  data: BoardData;
+};
+
+export type Workspace = {
+  boards: Record<string, Board>;
+  boardOrder: string[];
+  activeBoardId: string;
+};
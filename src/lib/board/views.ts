@@ -0,0 +1,15 @@
+// The ways a board can be shown. All of them edit the same `BoardData`; the
+// current one is kept in the URL like the search and swimlanes.
+
+export type BoardView = "board" | "table" | "calendar" | "timeline" | "analytics";
+
+export const BOARD_VIEWS: { id: BoardView; name: string }[] = [
+  { id: "board", name: "Board" },
+  { id: "table", name: "Table" },
+  { id: "calendar", name: "Calendar" },
+  { id: "timeline", name: "Timeline" },
+  { id: "analytics", name: "Analytics" },
+];
+
+export const parseBoardView = (value: string): BoardView =>
+  BOARD_VIEWS.find((view) => view.id === value)?.id ?? "board";
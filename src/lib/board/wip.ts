@@ -0,0 +1,28 @@
+import type { Column, WipPolicy } from "./types";
+
+export const WIP_POLICIES: { id: WipPolicy; name: string; description: string }[] = [
+  { id: "warn", name: "Warn", description: "Highlight the list when it goes over" },
+  { id: "block", name: "Block", description: "Refuse cards that would take it over" },
+];
+
+export type WipStatus = "under" | "at" | "over";
+
+/** How full a column is against its WIP limit, or null when it has none. */
+export const getWipStatus = (column: Column): WipStatus | null => {
+  if (!column.wipLimit) return null;
+  const count = column.taskIds.length;
+  if (count > column.wipLimit.limit) return "over";
+  return count === column.wipLimit.limit ? "at" : "under";
+};
+
+/**
+ * Why `adding` more cards can't go into `column`, or null if they can. Only
+ * a "block" limit refuses, and only cards that would take the column over it.
+ */
+export const getWipBlock = (column: Column, adding = 1): string | null => {
+  const { wipLimit } = column;
+  if (!wipLimit || wipLimit.policy !== "block") return null;
+  if (column.taskIds.length + adding <= wipLimit.limit) return null;
+  const cards = wipLimit.limit === 1 ? "1 card" : `${wipLimit.limit} cards`;
+  return `${column.title} is limited to ${cards}. Finish or move one out first.`;
+};
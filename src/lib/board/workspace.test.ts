@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { archiveTask } from "./archive";
+import { createChecklist, createChecklistItem } from "./checklists";
+import { createDefaultBoard } from "./defaults";
+import { addTask, createTask } from "./operations";
+import { boardDataSchema } from "./schema";
+import { createBoard, createWorkspace, duplicateBoard } from "./workspace";
+
+describe("duplicateBoard", () => {
+  it("gives the copy's lists, cards and checklists ids of their own", () => {
+    const first = createTask("First", {
+      checklists: [{ ...createChecklist(), items: [createChecklistItem("Step")] }],
+    });
+    const second = createTask("Second", { dependsOn: [first.id] });
+    let data = addTask(createDefaultBoard(), "todo", first);
+    data = addTask(data, "done", second);
+    data = archiveTask(data, second.id, 1);
+    const original = createBoard("Original", data);
+
+    const workspace = duplicateBoard(createWorkspace(original), original.id);
+    const copy = workspace.boards[workspace.activeBoardId].data;
+
+    const originalIds = [...Object.keys(data.columns), ...Object.keys(data.tasks)];
+    [...Object.keys(copy.columns), ...Object.keys(copy.tasks)].forEach((id) =>
+      expect(originalIds).not.toContain(id)
+    );
+    const [copyFirstId] = copy.columns[copy.columnOrder[0]].taskIds;
+    const copyFirst = copy.tasks[copyFirstId];
+    const copySecond = Object.values(copy.tasks).find((task) => task.content === "Second")!;
+    expect(copyFirst.content).toBe("First");
+    expect(copyFirst.checklists[0].id).not.toBe(first.checklists[0].id);
+    expect(copyFirst.columnEntries[0].columnId).toBe(copy.columnOrder[0]);
+    expect(copySecond.dependsOn).toEqual([copyFirstId]);
+    expect(copySecond.archived?.columnId).toBe(copy.columnOrder[2]);
+    expect(boardDataSchema.safeParse(copy).success).toBe(true);
+  });
+});
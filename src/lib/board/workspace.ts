@@ -0,0 +1,132 @@
+import { createDefaultBoard } from "./defaults";
+import { createId } from "./operations";
+import type { Board, BoardData, Workspace } from "./types";
+
+// Pure, immutable updates of the `Workspace` that holds every board.
+
+export const DEFAULT_BOARD_NAME = "My Board";
+
+export const createBoard = (name: string, data: BoardData = createDefaultBoard()): Board => ({
+  id: createId("board"),
+  name,
+  starred: false,
+  data,
+});
+
+export const createWorkspace = (board: Board = createBoard(DEFAULT_BOARD_NAME)): Workspace => ({
+  boards: { [board.id]: board },
+  boardOrder: [board.id],
+  activeBoardId: board.id,
+});
+
+export const getActiveBoard = (workspace: Workspace): Board =>
+  workspace.boards[workspace.activeBoardId];
+
+export const setActiveBoard = (workspace: Workspace, boardId: string): Workspace =>
+  workspace.boards[boardId] ? { ...workspace, activeBoardId: boardId } : workspace;
+
+/** Adds a board after the others and makes it the active one. */
+export const addBoard = (workspace: Workspace, board: Board): Workspace => ({
+  boards: { ...workspace.boards, [board.id]: board },
+  boardOrder: [...workspace.boardOrder, board.id],
+  activeBoardId: board.id,
+});
+
+export const updateBoard = (
+  workspace: Workspace,
+  boardId: string,
+  patch: Partial<Omit<Board, "id">>
+): Workspace => ({
+  ...workspace,
+  boards: {
+    ...workspace.boards,
+    [boardId]: { ...workspace.boards[boardId], ...patch },
+  },
+});
+
+export const updateBoardData = (
+  workspace: Workspace,
+  boardId: string,
+  update: (data: BoardData) => BoardData
+): Workspace => {
+  const board = workspace.boards[boardId];
+  const data = update(board.data);
+  return data === board.data ? workspace : updateBoard(workspace, boardId, { data });
+};
+
+/**
+ * A deep copy of `data` whose columns, tasks and checklists have ids of their
+ * own, so nothing keyed by those ids mixes up the copy with the original.
+ */
+const copyBoardData = (data: BoardData): BoardData => {
+  const copy = structuredClone(data);
+  const taken = new Set<string>();
+  const renew = (ids: Record<string, string>, id: string, prefix: string) => {
+    let next = createId(prefix);
+    while (taken.has(next)) next = createId(prefix);
+    taken.add(next);
+    ids[id] = next;
+  };
+  const columnIds: Record<string, string> = {};
+  const taskIds: Record<string, string> = {};
+  Object.keys(copy.columns).forEach((id) => renew(columnIds, id, "column"));
+  Object.keys(copy.tasks).forEach((id) => renew(taskIds, id, "task"));
+  const toColumn = (id: string) => columnIds[id] ?? id;
+  const toTask = (id: string) => taskIds[id] ?? id;
+
+  const columns: BoardData["columns"] = {};
+  Object.values(copy.columns).forEach((column) => {
+    const id = toColumn(column.id);
+    columns[id] = { ...column, id, taskIds: column.taskIds.map(toTask) };
+  });
+  const tasks: BoardData["tasks"] = {};
+  Object.values(copy.tasks).forEach((task) => {
+    const id = toTask(task.id);
+    tasks[id] = {
+      ...task,
+      id,
+      dependsOn: task.dependsOn.map(toTask),
+      columnEntries: task.columnEntries.map((entry) => ({
+        ...entry,
+        columnId: toColumn(entry.columnId),
+      })),
+      archived: task.archived && { ...task.archived, columnId: toColumn(task.archived.columnId) },
+      checklists: task.checklists.map((checklist) => ({
+        ...checklist,
+        id: createId("checklist"),
+        items: checklist.items.map((item) => ({ ...item, id: createId("item") })),
+      })),
+    };
+  });
+  return { ...copy, columns, tasks, columnOrder: copy.columnOrder.map(toColumn) };
+};
+
+/** Copies a board (tasks included) and inserts it right after the original. */
+export const duplicateBoard = (workspace: Workspace, boardId: string): Workspace => {
+  const source = workspace.boards[boardId];
+  const copy = createBoard(`${source.name} (copy)`, copyBoardData(source.data));
+  const boardOrder = Array.from(workspace.boardOrder);
+  boardOrder.splice(boardOrder.indexOf(boardId) + 1, 0, copy.id);
+  return {
+    boards: { ...workspace.boards, [copy.id]: copy },
+    boardOrder,
+    activeBoardId: copy.id,
+  };
+};
+
+/**
+ * Removes a board. The last remaining board cannot be deleted; deleting the
+ * active board activates its neighbour.
+ */
+export const deleteBoard = (workspace: Workspace, boardId: string): Workspace => {
+  if (workspace.boardOrder.length <= 1) return workspace;
+  const index = workspace.boardOrder.indexOf(boardId);
+  const boardOrder = workspace.boardOrder.filter((id) => id !== boardId);
+  const boards = { ...workspace.boards };
+  delete boards[boardId];
+  const activeBoardId =
+    workspace.activeBoardId === boardId
+      ? boardOrder[Math.min(index, boardOrder.length - 1)]
+      : workspace.activeBoardId;
+  return { boards, boardOrder, activeBoardId };
+};
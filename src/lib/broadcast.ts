@@ -0,0 +1,42 @@
+export type Broadcast<T> = {
+  /** Sends `message` to the other tabs; this tab does not receive it. */
+  post: (message: T) => void;
+  close: () => void;
+};
+
+/**
+ * Opens a message bus between tabs of this app: a BroadcastChannel where the
+ * browser has one, otherwise `storage` events on a scratch localStorage key
+ * named after the channel.
+ */
+export const openBroadcast = <T>(name: string, onMessage: (message: T) => void): Broadcast<T> => {
+  if (typeof BroadcastChannel !== "undefined") {
+    const channel = new BroadcastChannel(name);
+    channel.onmessage = (e: MessageEvent<T>) => onMessage(e.data);
+    return {
+      post: (message) => channel.postMessage(message),
+      close: () => channel.close(),
+    };
+  }
+
+  const onStorage = (e: StorageEvent) => {
+    if (e.key !== name || !e.newValue) return;
+    try {
+      onMessage(JSON.parse(e.newValue).message);
+    } catch (err) {
+      console.warn("Ignoring unreadable broadcast", err);
+    }
+  };
+  window.addEventListener("storage", onStorage);
+  return {
+    post: (message) => {
+      try {
+        // The nonce makes repeated messages still count as a change.
+        localStorage.setItem(name, JSON.stringify({ message, nonce: Math.random() }));
+      } catch (err) {
+        console.warn("Could not broadcast to other tabs", err);
+      }
+    },
+    close: () => window.removeEventListener("storage", onStorage),
+  };
+};
@@ -0,0 +1,57 @@
+import type { ReactNode } from "react";
+
+export type Command = {
+  /** Unique across the registry; later registrations win. */
+  id: string;
+  /** Heading the command is listed under, e.g. "Cards". */
+  group: string;
+  /** For commands that take the typed text, a function of that text. */
+  title: string | ((input: string) => string);
+  icon?: ReactNode;
+  /** Extra words the palette's fuzzy search should match. */
+  keywords?: string[];
+  /** Display-only hint, e.g. "Ctrl+Z". */
+  shortcut?: string;
+  /**
+   * Only offered once something is typed; `run` then receives the text,
+   * e.g. the title of a card to create.
+   */
+  takesInput?: boolean;
+  run: (input: string) => void;
+};
+
+type Listener = () => void;
+
+// Features register their commands here while mounted and the command
+// palette lists whatever is registered, so neither has to know the other.
+
+const sources = new Map<symbol, Command[]>();
+const listeners = new Set<Listener>();
+let snapshot: Command[] = [];
+
+const publish = () => {
+  const byId = new Map<string, Command>();
+  sources.forEach((commands) => commands.forEach((command) => byId.set(command.id, command)));
+  snapshot = Array.from(byId.values());
+  listeners.forEach((listener) => listener());
+};
+
+/** Adds a set of commands; call the returned function to remove them. */
+export const registerCommands = (commands: Command[]) => {
+  const key = Symbol("commands");
+  sources.set(key, commands);
+  publish();
+  return () => {
+    sources.delete(key);
+    publish();
+  };
+};
+
+export const subscribeCommands = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getCommands = () => snapshot;
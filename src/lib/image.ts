@@ -0,0 +1,25 @@
+/**
+ * Reads an image file as a JPEG data URL, scaled down so neither side is
+ * longer than `maxSize`, to keep what gets stored small.
+ */
+export const readImageAsDataUrl = (file: File, maxSize: number) =>
+  new Promise<string>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.naturalWidth * scale);
+      canvas.height = Math.round(image.naturalHeight * scale);
+      const context = canvas.getContext("2d");
+      if (!context) return reject(new Error("This browser can't read images."));
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL("image/jpeg", 0.8));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("That file isn't an image that can be shown."));
+    };
+    image.src = url;
+  });
@@ -0,0 +1,29 @@
+import type { BoardFocus } from "@/lib/board/navigation";
+
+/** True when a key event belongs to a text field and should be left alone. */
+export const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName));
+
+/** True when a key event comes from inside a dialog, sheet or drawer. */
+export const isInDialog = (target: EventTarget | null) =>
+  target instanceof Element && target.closest('[role="dialog"], [role="alertdialog"]') !== null;
+
+// Cards carry `data-task-id` and `data-column-id`, column headers only
+// `data-column-id`, so keyboard handling can tell where focus is from the DOM.
+
+/** The card or column header a key event came from, if any. */
+export const getBoardFocus = (target: EventTarget | null): BoardFocus | null => {
+  if (!(target instanceof HTMLElement) || !target.dataset.columnId) return null;
+  return { columnId: target.dataset.columnId, taskId: target.dataset.taskId ?? null };
+};
+
+/** Moves DOM focus to a card, or to a column's header when `taskId` is null. */
+export const focusBoardItem = ({ columnId, taskId }: BoardFocus) => {
+  const selector = taskId
+    ? `[data-task-id="${CSS.escape(taskId)}"]`
+    : `[data-column-id="${CSS.escape(columnId)}"]:not([data-task-id])`;
+  const element = document.querySelector<HTMLElement>(selector);
+  element?.focus();
+  element?.scrollIntoView({ block: "nearest", inline: "nearest" });
+};
@@ -0,0 +1,16 @@
+// The app's color scheme. next-themes keeps the choice in localStorage and
+// puts the `dark` class on <html>, which Tailwind's `dark:` variants and the
+// theme tokens in index.css follow.
+
+export type ThemeChoice = "light" | "dark" | "system";
+
+export const THEME_STORAGE_KEY = "trello-board:theme";
+
+export const THEMES: { id: ThemeChoice; name: string }[] = [
+  { id: "light", name: "Light" },
+  { id: "dark", name: "Dark" },
+  { id: "system", name: "System" },
+];
+
+export const parseTheme = (value: string | undefined): ThemeChoice =>
+  THEMES.find((theme) => theme.id === value)?.id ?? "system";
@@ -0,0 +1,22 @@
+// Who is using this browser. There are no accounts, so the name is set by
+// hand and kept in localStorage; `assignee:@me` searches for it.
+
+export const USER_NAME_STORAGE_KEY = "trello-board:me";
+
+export const readUserName = (): string | null => {
+  try {
+    return localStorage.getItem(USER_NAME_STORAGE_KEY)?.trim() || null;
+  } catch {
+    return null;
+  }
+};
+
+/** Saves `name`, or forgets it when null. */
+export const writeUserName = (name: string | null) => {
+  try {
+    if (name) localStorage.setItem(USER_NAME_STORAGE_KEY, name);
+    else localStorage.removeItem(USER_NAME_STORAGE_KEY);
+  } catch (err) {
+    console.error("Could not save your name", err);
+  }
+};
@@ -1,12 +1,32 @@
-import React from 'react'
+import React, { Suspense } from 'react'
 import ReactDOM from 'react-dom/client'
+import { ThemeProvider } from 'next-themes'
 import { Toaster } from 'react-hot-toast'
 import App from './App'
+import { THEME_STORAGE_KEY } from './lib/theme'
 import './index.css'
 
 ReactDOM.createRoot(document.getElementById('root')!).render(
   <React.StrictMode>
-    <Toaster position="top-right" />
-    <App />
+    <ThemeProvider
+      attribute="class"
+      defaultTheme="system"
+      enableSystem
+      disableTransitionOnChange
+      storageKey={THEME_STORAGE_KEY}
+    >
+      <Toaster
+        position="top-right"
+        toastOptions={{
+          style: {
+            background: 'hsl(var(--popover))',
+            color: 'hsl(var(--popover-foreground))',
+          },
+        }}
+      />
+      <Suspense fallback={null}>
+        <App />
+      </Suspense>
+    </ThemeProvider>
   </React.StrictMode>,
 ) 
\ No newline at end of file